@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { type Message, Role, type ChatSession, type User, AppPart, TextPart, FilePart } from './types.ts';
-import { SYSTEM_INSTRUCTION, TOPIC_SUGGESTIONS, TOOL_SUGGESTIONS, ALL_ABOUT_MUSIC_BUSINESS_SUMMARY } from './constants.tsx';
+import { type Message, Role, type ChatSession, type User, type SignUpDetails, type ArtistProfile, type QuotaStatus, type ChatRequest, type TokenUsage, type ToolPart, AppPart, TextPart, FilePart } from './types.ts';
+import { DEFAULT_PROMPT_ID } from './core/prompts.ts';
+import { TOPIC_SUGGESTIONS, ALL_ABOUT_MUSIC_BUSINESS_SUMMARY } from './constants.tsx';
+import { TOOL_DEFINITIONS, isToolTag } from './core/tools/registry.ts';
+import { INTERACTIVE_TOOLS } from './components/toolRegistry.tsx';
 import Header from './components/Header.tsx';
 import ChatMessage from './components/ChatMessage.tsx';
 import ChatInput from './components/ChatInput.tsx';
@@ -10,11 +13,24 @@ import HistorySidebar from './components/HistorySidebar.tsx';
 import SignUpBanner from './components/SignUpBanner.tsx';
 import SignUpModal from './components/SignUpModal.tsx';
 import LoginModal from './components/LoginModal.tsx';
+import ArtistProfileModal from './components/ArtistProfileModal.tsx';
+import MemoryPanel from './components/MemoryPanel.tsx';
 import Auth from './components/Auth.tsx';
 import FollowUpPrompts from './components/FollowUpPrompts.tsx';
 import { SparklesIcon } from './components/icons/SparklesIcon.tsx';
 import { CalculatorIcon } from './components/icons/CalculatorIcon.tsx';
 import BookSummaryCard from './components/BookSummaryCard.tsx';
+import { fetchHistory, saveChatSession, deleteChatSession, migrateLocalHistory, summarizeChat } from './services/historyApi.ts';
+import { signUp, logIn, logOut } from './services/authApi.ts';
+import { ApiError, sessionHeaders, getAuthToken, setAuthToken, readSessionResponse, toApiError, subscribeToQuota } from './services/apiClient.ts';
+import { fetchQuota } from './services/quotaApi.ts';
+import { fetchProfile, saveProfile } from './services/profileApi.ts';
+import { extractMemories } from './services/memoryApi.ts';
+import { readChatEvents } from './services/chatApi.ts';
+import { addBranch, switchBranch } from './utils/branches.ts';
+import { withToolState } from './utils/toolState.ts';
+import { type ChatSessionMeta, createChatSession } from './utils/chatSessions.ts';
+import { compressHistory, pendingSummary } from './utils/chatSummary.ts';
 
 const RECOVERY_SESSION_KEY = 'indie-coach-recovery-data';
 
@@ -46,33 +62,57 @@ const App: React.FC = () => {
   const [view, setView] = useState<'auth' | 'chat'>('auth');
   const [followUpPrompts, setFollowUpPrompts] = useState<string[]>([]);
   const [showBookSummary, setShowBookSummary] = useState(true);
-  const [guestMessageCount, setGuestMessageCount] = useState<number>(() => {
-    const savedUser = localStorage.getItem('indie-coach-active-user');
-    if (savedUser) return 0;
-    const count = sessionStorage.getItem('guestMessageCount');
-    return count ? parseInt(count, 10) : 0;
-  });
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [profile, setProfile] = useState<ArtistProfile>({});
+  const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
+  const [isMemoryPanelOpen, setIsMemoryPanelOpen] = useState(false);
+  // The message a history search result pointed at. An object, so opening the same result twice still re-scrolls.
+  const [highlightedMessage, setHighlightedMessage] = useState<{ index: number } | null>(null);
 
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const syncedHistoryRef = useRef<Map<string, ChatSession>>(new Map());
+  // The latest history for async work (like summarizing) that finishes after the render it started in.
+  const chatHistoryRef = useRef(chatHistory);
+  chatHistoryRef.current = chatHistory;
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const toolStateSaveTimerRef = useRef<number | undefined>(undefined);
   
-  const authenticateUser = useCallback((userData: User, guestMessages: Message[] = []) => {
+  const clearSession = useCallback(() => {
+    setAuthToken(null);
+    localStorage.removeItem('indie-coach-active-user');
+    sessionStorage.removeItem(RECOVERY_SESSION_KEY);
+    setIsAuthenticated(false);
+    setUser(null);
+    setProfile({});
+    syncedHistoryRef.current = new Map();
+    setMessages([]);
+    setActiveChatId(null);
+    setChatHistory([]);
+    setView('auth');
+  }, []);
+
+  const authenticateUser = useCallback(async (userData: User, guestMessages: Message[] = []) => {
     setIsAuthenticated(true);
     setUser(userData);
     setView('chat');
+    syncedHistoryRef.current = new Map();
+
+    fetchProfile().then(setProfile).catch(e => console.error("Failed to load the artist profile.", e));
 
-    const savedHistory = localStorage.getItem(`indie-coach-history-${userData.email}`);
     let parsedHistory: ChatSession[] = [];
-    if (savedHistory) {
-      try {
-        const historyData = JSON.parse(savedHistory);
-        if (Array.isArray(historyData)) {
-          parsedHistory = historyData;
-        }
-      } catch (e) {
-        console.error("Failed to parse chat history from localStorage, resetting.", e);
+    try {
+      const serverHistory = await fetchHistory();
+      parsedHistory = await migrateLocalHistory(userData.email, serverHistory);
+    } catch (e) {
+      if (e instanceof ApiError && e.status === 401) {
+        // The stored session token was revoked or has expired.
+        clearSession();
+        return;
       }
+      console.error("Failed to load chat history from the server.", e);
     }
     
+    syncedHistoryRef.current = new Map(parsedHistory.map(session => [session.id, session]));
     setChatHistory(parsedHistory);
     
     if (guestMessages.length > 0) {
@@ -81,11 +121,7 @@ const App: React.FC = () => {
         const filePart = firstUserMessage?.parts.find(p => p.type === 'file') as FilePart | undefined;
         const title = textPart?.text.substring(0, 40) || filePart?.file.name.substring(0, 40) || 'Imported Chat';
 
-        const newChatSession: ChatSession = {
-            id: Date.now().toString(),
-            title,
-            messages: guestMessages,
-        };
+        const newChatSession = createChatSession(Date.now().toString(), title, guestMessages);
         parsedHistory = [newChatSession, ...parsedHistory];
         setChatHistory(parsedHistory);
         setMessages(guestMessages);
@@ -111,12 +147,12 @@ const App: React.FC = () => {
     setActiveChatId(null);
     setMessages([]);
 
-  }, []);
+  }, [clearSession]);
 
 
   useEffect(() => {
     const activeUserString = localStorage.getItem('indie-coach-active-user');
-    if (activeUserString) {
+    if (activeUserString && getAuthToken()) {
       try {
         const activeUser = JSON.parse(activeUserString);
         if (activeUser && activeUser.email) {
@@ -156,24 +192,25 @@ const App: React.FC = () => {
     }
   }, [messages, activeChatId, isAuthenticated, isLoading]);
 
+  // Push changed sessions to /api/history and remove deleted ones.
+  // Sessions are compared by reference against the last synced snapshot, so only touched chats are uploaded.
   useEffect(() => {
-    if (isAuthenticated && user) {
-      const historyToSave = chatHistory.map(session => ({
-        ...session,
-        messages: session.messages.map(message => ({
-            ...message,
-            parts: message.parts.map(part => {
-                if (part.type === 'file') {
-                    // Omit the large 'data' field from history to keep localStorage size down
-                    const { data, ...restOfFile } = part.file;
-                    return { ...part, file: restOfFile };
-                }
-                return part;
-            })
-        }))
-      }));
-      localStorage.setItem(`indie-coach-history-${user.email}`, JSON.stringify(historyToSave));
-    }
+    if (!isAuthenticated || !user) return;
+    const synced = syncedHistoryRef.current;
+    const current = new Map(chatHistory.map(session => [session.id, session]));
+
+    chatHistory.forEach(session => {
+      if (synced.get(session.id) !== session) {
+        saveChatSession(session).catch(e => console.error("Failed to save chat session.", e));
+      }
+    });
+    synced.forEach((_, id) => {
+      if (!current.has(id)) {
+        deleteChatSession(id).catch(e => console.error("Failed to delete chat session.", e));
+      }
+    });
+
+    syncedHistoryRef.current = current;
   }, [chatHistory, isAuthenticated, user]);
 
   useEffect(() => {
@@ -192,196 +229,336 @@ const App: React.FC = () => {
     }
   }, [messages, isLoading, followUpPrompts]);
 
-  const handleSendMessage = async (text: string, file?: File | null, isBookSummaryPrompt?: boolean) => {
-    setFollowUpPrompts([]);
-    if (isBookSummaryPrompt) {
-        setShowBookSummary(false);
-    }
-    const isChatLocked = !isAuthenticated && guestMessageCount >= 3;
-    if ((!text.trim() && !file) || isLoading || isChatLocked) return;
-    
-    const userParts: AppPart[] = [];
-    if (text.trim()) {
-        userParts.push({ type: 'text', text });
-    }
-    if (file) {
-        const base64Data = await fileToBase64(file);
-        userParts.push({ type: 'file', file: { name: file.name, mimeType: file.type, data: base64Data }});
-    }
+  // Runs after the scroll-to-bottom above, so a search result's message wins.
+  useEffect(() => {
+    if (!highlightedMessage) return;
+    chatContainerRef.current?.querySelector('[data-highlighted="true"]')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    const timer = window.setTimeout(() => setHighlightedMessage(null), 2500);
+    return () => window.clearTimeout(timer);
+  }, [highlightedMessage]);
 
-    const userMessage: Message = { 
-        role: Role.User, 
-        parts: userParts, 
-        timestamp: Date.now(),
-    };
-    
-    const aiMessagePlaceholder: Message = { role: Role.AI, parts: [{ type: 'text', text: '' }], timestamp: Date.now() };
-    const currentMessages = [...messages, userMessage];
+  // Every response that reports the quota updates it, wherever the request was made.
+  useEffect(() => subscribeToQuota(setQuota), []);
+
+  // Refresh the server-side quota whenever the caller's identity changes (guest -> signed in and back).
+  useEffect(() => {
+    if (view !== 'chat') return;
+    fetchQuota().then(setQuota).catch(e => console.error("Failed to load message quota.", e));
+  }, [view, isAuthenticated]);
+
+  const isChatLocked = quota !== null && quota.remaining <= 0;
+
+  const updateChatSession = (chatId: string | null, sessionMessages: Message[]) => {
+    // Any pending tool-state save is superseded: `sessionMessages` already carries the latest edits.
+    window.clearTimeout(toolStateSaveTimerRef.current);
+    if (!isAuthenticated || !chatId) return;
+    setChatHistory(prev => prev.map(chat =>
+      chat.id === chatId ? { ...chat, messages: sessionMessages, updatedAt: Date.now() } : chat
+    ));
+  };
+
+  // Brings a saved chat's summary up to date after an exchange, and gives a new chat a proper title in
+  // place of the first words of its first message, unless the user has renamed it in the meantime.
+  const refreshChatSummary = (chatId: string, sessionMessages: Message[]) => {
+    const session = chatHistoryRef.current.find(chat => chat.id === chatId);
+    const pending = pendingSummary(sessionMessages, session);
+    if (!session || !pending) return;
+    const provisionalTitle = session.summary ? null : session.title;
+    // Attachments and saved tool edits aren't needed to summarize what was said.
+    const textOnly = pending.messages.map(({ role, parts, timestamp }) => ({ role, parts: parts.filter(part => part.type === 'text'), timestamp }));
+    summarizeChat(textOnly, pending.previousSummary)
+      .then(({ title, summary }) => {
+        if (!summary) return;
+        setChatHistory(prev => prev.map(chat => chat.id !== chatId ? chat : {
+          ...chat,
+          summary,
+          summarizedCount: sessionMessages.length,
+          summarizedThrough: sessionMessages[sessionMessages.length - 1].timestamp,
+          ...(title && chat.title === provisionalTitle ? { title } : {}),
+        }));
+      })
+      .catch(e => console.error("Failed to summarize chat.", e));
+  };
+
+  const handleUpdateChatMeta = (chatId: string, meta: ChatSessionMeta) => {
+    setChatHistory(prev => prev.map(chat => chat.id === chatId ? { ...chat, ...meta } : chat));
+  };
+
+  // Folders only exist through the chats filed in them, so renaming one refiles each of its chats.
+  const handleRenameFolder = (from: string, to: string) => {
+    setChatHistory(prev => prev.map(chat => chat.folder === from ? { ...chat, folder: to } : chat));
+  };
+
+  // Streams a coach response for `currentMessages` (which must end with a user message) and appends it.
+  // `aiBranches` carries alternate versions over to the new response when regenerating.
+  const requestCompletion = async (
+    currentMessages: Message[],
+    chatId: string | null,
+    options: { includeBookSummary?: boolean; aiBranches?: Pick<Message, 'branches' | 'branchIndex'> } = {},
+  ) => {
+    const aiMessagePlaceholder: Message = { role: Role.AI, parts: [{ type: 'text', text: '' }], timestamp: Date.now(), ...options.aiBranches };
     setMessages([...currentMessages, aiMessagePlaceholder]);
+    setFollowUpPrompts([]);
     setIsLoading(true);
 
-    let currentChatId = activeChatId;
-    if (isAuthenticated && !currentChatId) {
-      currentChatId = Date.now().toString();
-      setActiveChatId(currentChatId);
-      const textPart = userMessage.parts.find(p => p.type === 'text') as TextPart | undefined;
-      const filePart = userMessage.parts.find(p => p.type === 'file') as FilePart | undefined;
-      const title = textPart?.text.substring(0, 30) || filePart?.file.name.substring(0, 30) || 'New Chat';
-      const newChatSession: ChatSession = { id: currentChatId, title, messages: currentMessages }; // History saved after response
-      setChatHistory(prev => [newChatSession, ...prev]);
-    } else if (isAuthenticated && currentChatId) {
-      setChatHistory(prev => prev.map(chat =>
-        chat.id === currentChatId ? { ...chat, messages: currentMessages } : chat
-      ));
-    }
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let fullResponseText = '';
+    let usage: TokenUsage | undefined;
+
+    // Deltas can arrive many times per frame; the streamed text is rendered at most once per animation frame.
+    let renderFrame: number | null = null;
+    const renderStreamedText = () => {
+      renderFrame = null;
+      const text = fullResponseText;
+      setMessages(prev => {
+          const lastMessage = prev[prev.length - 1];
+          if (lastMessage?.role !== Role.AI) return prev;
+          return [...prev.slice(0, -1), { ...lastMessage, parts: [{ type: 'text', text }] }];
+      });
+    };
+
+    const finishWith = (text: string) => {
+      const finalAIMessage: Message = { role: Role.AI, parts: [{ type: 'text', text }], timestamp: Date.now(), usage, ...options.aiBranches };
+      const finalMessages = [...currentMessages, finalAIMessage];
+      setMessages(finalMessages);
+      updateChatSession(chatId, finalMessages);
+      return finalMessages;
+    };
 
     try {
-      const messagesForApi = [...currentMessages];
-      if (isBookSummaryPrompt) {
+      // Branch metadata and saved tool edits on coach replies are only needed by the UI, so they are
+      // stripped before the history goes over the wire. Edits reach the coach when the user shares them.
+      // Long chats send their summary in place of the older messages.
+      const messagesForApi: Message[] = compressHistory(currentMessages, chatHistoryRef.current.find(chat => chat.id === chatId)).map(({ role, parts, timestamp }) => ({
+        role,
+        parts: role === Role.AI ? parts.filter(part => part.type !== 'tool') : parts,
+        timestamp,
+      }));
+      if (options.includeBookSummary) {
           messagesForApi.unshift({ role: Role.User, parts: [{ type: 'text', text: `Use the following book summary to answer my question:\n\n${ALL_ABOUT_MUSIC_BUSINESS_SUMMARY}` }], timestamp: Date.now() });
           messagesForApi.unshift({ role: Role.AI, parts: [{ type: 'text', text: "Got it. I'll use the summary to answer. What's your question?" }], timestamp: Date.now() });
       }
 
       const response = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: messagesForApi }),
+        headers: { 'Content-Type': 'application/json', ...sessionHeaders() },
+        body: JSON.stringify({ messages: messagesForApi, promptId: DEFAULT_PROMPT_ID } satisfies ChatRequest),
+        signal: abortController.signal,
       });
 
+      readSessionResponse(response);
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`API Error: ${response.statusText} - ${errorText}`);
-      }
-      
-      if (!response.body) return;
-      
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let fullResponseText = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunkText = decoder.decode(value, { stream: true });
-        fullResponseText += chunkText;
-        setMessages(prev => {
-            const newMessages = [...prev];
-            const lastMessage = newMessages[newMessages.length - 1];
-            if(lastMessage.role === Role.AI) {
-                const cleanedText = fullResponseText.replace(/\[SUGGESTIONS\].*?/, '');
-                lastMessage.parts = [{ type: 'text', text: cleanedText }];
-            }
-            return newMessages;
-        });
+        throw await toApiError(response);
       }
-      
-      const suggestionRegex = /\[SUGGESTIONS\](.*?)\[\/SUGGESTIONS\]/;
-      const suggestionMatch = fullResponseText.match(suggestionRegex);
-      
-      let finalResponseText = fullResponseText;
-      if (suggestionMatch && suggestionMatch[1]) {
-        const suggestions = suggestionMatch[1].split('|').map(s => s.trim()).filter(Boolean);
-        setFollowUpPrompts(suggestions);
-        finalResponseText = fullResponseText.replace(suggestionRegex, '').trim();
+
+      for await (const event of readChatEvents(response)) {
+        switch (event.type) {
+          case 'delta':
+            fullResponseText += event.text;
+            if (renderFrame === null) renderFrame = requestAnimationFrame(renderStreamedText);
+            break;
+          case 'suggestions':
+            setFollowUpPrompts(event.suggestions);
+            break;
+          case 'tool_block':
+            // The block markup arrives in the delta text and is rendered by EnhancedMarkdown.
+            if (!event.valid) console.warn(`Received a malformed ${event.tag} block.`);
+            break;
+          case 'usage':
+            usage = event.usage;
+            break;
+          case 'error':
+            throw new Error(event.message);
+          case 'done':
+            break;
+        }
       }
 
-      const finalAIMessage: Message = { role: Role.AI, parts: [{ type: 'text', text: finalResponseText }], timestamp: Date.now() };
-      
-      const finalMessages = [...currentMessages, finalAIMessage];
-      setMessages(finalMessages);
+      const finalMessages = finishWith(fullResponseText.trim());
 
-      if (isAuthenticated && currentChatId) {
-        setChatHistory(prev => prev.map(chat =>
-          chat.id === currentChatId ? { ...chat, messages: finalMessages } : chat
-        ));
+      if (isAuthenticated && chatId) {
+        refreshChatSummary(chatId, finalMessages);
       }
-      
-      if (!isAuthenticated) {
-        const newCount = guestMessageCount + 1;
-        setGuestMessageCount(newCount);
-        sessionStorage.setItem('guestMessageCount', newCount.toString());
+
+      if (isAuthenticated) {
+        // Let the server pick up durable facts from this exchange for future chats. Attachments are left out.
+        const exchange: Message[] = [currentMessages[currentMessages.length - 1], { role: Role.AI, parts: [{ type: 'text', text: fullResponseText }], timestamp: Date.now() }];
+        extractMemories(exchange.map(({ role, parts, timestamp }) => ({ role, parts: parts.filter(part => part.type === 'text'), timestamp })))
+          .catch(e => console.error("Failed to update coach memory.", e));
       }
       
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep whatever had streamed so far.
+        setFollowUpPrompts([]);
+        if (fullResponseText.trim()) {
+          finishWith(fullResponseText.trim());
+        } else {
+          setMessages(currentMessages);
+          updateChatSession(chatId, currentMessages);
+        }
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-      const errorMsg: Message = { role: Role.AI, parts: [{ type: 'text', text: `Sorry, something went wrong: ${errorMessage}` }], timestamp: Date.now() };
-      setMessages(prev => [...prev.slice(0, -1), errorMsg]);
+      const isQuotaError = error instanceof ApiError && error.status === 429;
+      const errorMsg: Message = { role: Role.AI, parts: [{ type: 'text', text: isQuotaError ? errorMessage : `Sorry, something went wrong: ${errorMessage}` }], timestamp: Date.now(), ...options.aiBranches };
+      setMessages([...currentMessages, errorMsg]);
     } finally {
+      // The final message has been set by now; a frame still pending would overwrite it with the raw stream.
+      if (renderFrame !== null) cancelAnimationFrame(renderFrame);
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
+
+  const sendUserMessage = async (userParts: AppPart[], isBookSummaryPrompt?: boolean) => {
+    const userMessage: Message = { 
+        role: Role.User, 
+        parts: userParts, 
+        timestamp: Date.now(),
+    };
+    
+    const currentMessages = [...messages, userMessage];
+
+    let currentChatId = activeChatId;
+    if (isAuthenticated && !currentChatId) {
+      currentChatId = Date.now().toString();
+      setActiveChatId(currentChatId);
+      const textPart = userMessage.parts.find(p => p.type === 'text') as TextPart | undefined;
+      const filePart = userMessage.parts.find(p => p.type === 'file') as FilePart | undefined;
+      const title = textPart?.text.substring(0, 30) || filePart?.file.name.substring(0, 30) || 'New Chat';
+      const newChatSession = createChatSession(currentChatId, title, currentMessages); // History saved after response
+      setChatHistory(prev => [newChatSession, ...prev]);
+    } else {
+      updateChatSession(currentChatId, currentMessages);
+    }
+
+    await requestCompletion(currentMessages, currentChatId, { includeBookSummary: isBookSummaryPrompt });
+  };
+
+  const handleSendMessage = async (text: string, file?: File | null, isBookSummaryPrompt?: boolean) => {
+    setFollowUpPrompts([]);
+    if (isBookSummaryPrompt) {
+        setShowBookSummary(false);
+    }
+    if ((!text.trim() && !file) || isLoading || isChatLocked) return;
+    
+    const userParts: AppPart[] = [];
+    if (text.trim()) {
+        userParts.push({ type: 'text', text });
+    }
+    if (file) {
+        const base64Data = await fileToBase64(file);
+        userParts.push({ type: 'file', file: { name: file.name, mimeType: file.type, data: base64Data }});
+    }
+
+    await sendUserMessage(userParts, isBookSummaryPrompt);
+  };
+
+  // Saves edits made in a tool block on the coach message at `index`. The UI updates immediately;
+  // the session save is debounced because sliders report every step.
+  const handleToolStateChange = (index: number, part: ToolPart) => {
+    const updated = messages.map((msg, i) => (i === index ? withToolState(msg, part) : msg));
+    setMessages(updated);
+    const chatId = activeChatId;
+    window.clearTimeout(toolStateSaveTimerRef.current);
+    toolStateSaveTimerRef.current = window.setTimeout(() => updateChatSession(chatId, updated), 500);
+  };
+
+  // Sends a tool's current values to the coach as a user message.
+  const handleDiscussTool = (part: ToolPart) => {
+    if (isLoading || isChatLocked) return;
+    setFollowUpPrompts([]);
+    const title = isToolTag(part.tool) ? TOOL_DEFINITIONS[part.tool].title : 'tool';
+    sendUserMessage([{ type: 'text', text: `I've adjusted the ${title}. What do you think of my current values?` }, part]);
+  };
+
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Replaces the coach response at `index` with a fresh one; the old response (and anything after it) is kept as a branch.
+  const handleRegenerate = (index: number) => {
+    if (isLoading || isChatLocked || messages[index]?.role !== Role.AI) return;
+    const previousTail = messages.slice(index);
+    const { branches, branchIndex } = addBranch(previousTail);
+    requestCompletion(messages.slice(0, index), activeChatId, { aiBranches: { branches, branchIndex } });
+  };
+
+  // Rewrites the user message at `index` and resends it; the original prompt and its answers are kept as a branch.
+  const handleEditMessage = (index: number, text: string) => {
+    const original = messages[index];
+    if (isLoading || isChatLocked || original?.role !== Role.User || !text.trim()) return;
+    const previousTail = messages.slice(index);
+    const editedMessage: Message = {
+      role: Role.User,
+      parts: [...original.parts.filter(part => part.type !== 'text'), { type: 'text', text }],
+      timestamp: Date.now(),
+      ...addBranch(previousTail),
+    };
+    const currentMessages = [...messages.slice(0, index), editedMessage];
+    updateChatSession(activeChatId, currentMessages);
+    requestCompletion(currentMessages, activeChatId);
+  };
+
+  const handleSwitchBranch = (index: number, target: number) => {
+    if (isLoading) return;
+    const switched = switchBranch(messages, index, target);
+    setMessages(switched);
+    setFollowUpPrompts([]);
+    updateChatSession(activeChatId, switched);
+  };
   
   const openSignUpModal = () => { setIsLoginModalOpen(false); setIsSignUpModalOpen(true); };
   const openLoginModal = () => { setIsSignUpModalOpen(false); setIsLoginModalOpen(true); };
   const closeAllModals = () => { setIsSignUpModalOpen(false); setIsLoginModalOpen(false); };
 
-  const handleCompleteSignUp = (userData: User): string | null => {
-    const usersString = localStorage.getItem('indie-coach-users');
-    let users: User[] = [];
-    if (usersString) {
-        try {
-            const parsedUsers = JSON.parse(usersString);
-            if(Array.isArray(parsedUsers)) {
-                users = parsedUsers;
-            }
-        } catch (e) {
-            console.error("Failed to parse users list, starting fresh.", e);
-        }
+  const handleCompleteSignUp = async (details: SignUpDetails): Promise<string | null> => {
+    let userData: User;
+    try {
+        userData = await signUp(details);
+    } catch (e) {
+        return e instanceof Error ? e.message : "Sign up failed. Please try again.";
     }
 
-    if (users.some(u => u.email.toLowerCase() === userData.email.toLowerCase())) {
-        return "An account with this email already exists. Please log in.";
-    }
-    
-    users.push(userData);
-    localStorage.setItem('indie-coach-users', JSON.stringify(users));
     localStorage.setItem('indie-coach-active-user', JSON.stringify(userData));
     
     const guestMessagesToTransfer = [...messages];
     authenticateUser(userData, guestMessagesToTransfer);
     
-    sessionStorage.removeItem('guestMessageCount');
     sessionStorage.removeItem(RECOVERY_SESSION_KEY);
-    setGuestMessageCount(0);
 
     setIsSignUpModalOpen(false);
     return null;
   };
   
-  const handleLogin = (email: string): boolean => {
-    const usersString = localStorage.getItem('indie-coach-users');
-    let users: User[] = [];
-    if (usersString) {
-        try {
-            const parsedUsers = JSON.parse(usersString);
-            if(Array.isArray(parsedUsers)) {
-                users = parsedUsers;
-            }
-        } catch (e) {
-            console.error("Failed to parse users list for login.", e);
-        }
+  const handleLogin = async (email: string, password: string): Promise<string | null> => {
+    let foundUser: User;
+    try {
+        foundUser = await logIn(email, password);
+    } catch (e) {
+        return e instanceof Error ? e.message : "Login failed. Please try again.";
     }
-    const foundUser = users.find(u => u.email.toLowerCase() === email.toLowerCase());
 
-    if (foundUser) {
-        localStorage.setItem('indie-coach-active-user', JSON.stringify(foundUser));
-        authenticateUser(foundUser);
-        setIsLoginModalOpen(false);
-        return true;
-    }
-    return false;
+    localStorage.setItem('indie-coach-active-user', JSON.stringify(foundUser));
+    authenticateUser(foundUser);
+    setIsLoginModalOpen(false);
+    return null;
   };
 
   const handleLogout = () => {
-    localStorage.removeItem('indie-coach-active-user');
-    sessionStorage.removeItem(RECOVERY_SESSION_KEY);
-    setIsAuthenticated(false);
-    setUser(null);
-    setMessages([]);
-    setActiveChatId(null);
-    setChatHistory([]);
-    setView('auth');
+    logOut().catch(e => console.error("Failed to revoke session on logout.", e));
+    clearSession();
+  };
+
+  const handleSaveProfile = async (updatedProfile: ArtistProfile): Promise<string | null> => {
+    try {
+        setProfile(await saveProfile(updatedProfile));
+        return null;
+    } catch (e) {
+        return e instanceof Error ? e.message : "Could not save your profile. Please try again.";
+    }
   };
 
   const handleGuestMode = () => {
@@ -411,6 +588,11 @@ const App: React.FC = () => {
     setSidebarOpen(false);
   };
   
+  const handleOpenSearchResult = (chatId: string, messageIndex: number) => {
+    handleSelectChat(chatId);
+    setHighlightedMessage({ index: messageIndex });
+  };
+
   const handleDeleteChat = (id: string) => {
     setChatHistory(prev => prev.filter(chat => chat.id !== id));
     if (activeChatId === id) {
@@ -429,8 +611,6 @@ const App: React.FC = () => {
 
   const toggleTheme = () => setTheme(prev => (prev === 'light' ? 'dark' : 'light'));
 
-  const isChatLocked = !isAuthenticated && guestMessageCount >= 3;
-
   return (
     <>
       {view === 'auth' ? (
@@ -444,8 +624,13 @@ const App: React.FC = () => {
             activeChatId={activeChatId}
             onNewChat={handleNewChat}
             onSelectChat={handleSelectChat}
+            onOpenSearchResult={handleOpenSearchResult}
             onDeleteChat={handleDeleteChat}
+            onUpdateChat={handleUpdateChatMeta}
+            onRenameFolder={handleRenameFolder}
             onLogout={handleLogout}
+            onEditProfile={() => { setSidebarOpen(false); setIsProfileModalOpen(true); }}
+            onOpenMemory={() => { setSidebarOpen(false); setIsMemoryPanelOpen(true); }}
             isAuthenticated={isAuthenticated}
             onSignUp={openSignUpModal}
           />
@@ -478,8 +663,8 @@ const App: React.FC = () => {
                         <span>Interactive Tools</span>
                       </h3>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {TOOL_SUGGESTIONS.map((tool, index) => (
-                          <TopicButton key={index} icon={tool.icon} title={tool.title} onClick={() => handleTopicClick(tool.prompts)} disabled={isLoading} />
+                        {INTERACTIVE_TOOLS.map((tool) => (
+                          <TopicButton key={tool.tag} icon={tool.icon} title={tool.title} onClick={() => handleTopicClick(tool.prompts)} disabled={isLoading} />
                         ))}
                       </div>
                     </div>
@@ -492,6 +677,13 @@ const App: React.FC = () => {
                         message={msg} 
                         user={user} 
                         isStreaming={isLoading && index === messages.length - 1 && msg.role === Role.AI}
+                        isHighlighted={highlightedMessage?.index === index}
+                        actionsDisabled={isLoading || isChatLocked}
+                        onRegenerate={() => handleRegenerate(index)}
+                        onEdit={(text) => handleEditMessage(index, text)}
+                        onSwitchBranch={(target) => handleSwitchBranch(index, target)}
+                        onToolStateChange={isLoading ? undefined : (part) => handleToolStateChange(index, part)}
+                        onDiscussTool={handleDiscussTool}
                     />
                 ))}
                 
@@ -514,8 +706,8 @@ const App: React.FC = () => {
             </main>
             <footer className="p-4 bg-background border-t border-surface-border">
               <div className="max-w-4xl mx-auto">
-                {isChatLocked && <SignUpBanner onSignUp={openSignUpModal} />}
-                <ChatInput onSendMessage={(text, file) => handleSendMessage(text, file, false)} isLoading={isLoading} isLocked={isChatLocked} />
+                {isChatLocked && !isAuthenticated && <SignUpBanner onSignUp={openSignUpModal} quota={quota} />}
+                <ChatInput onSendMessage={(text, file) => handleSendMessage(text, file, false)} onStop={handleStopGenerating} isLoading={isLoading} isLocked={isChatLocked} quota={quota} />
               </div>
             </footer>
           </div>
@@ -533,6 +725,16 @@ const App: React.FC = () => {
         onLogin={handleLogin}
         onSwitchToSignUp={openSignUpModal}
       />
+      <ArtistProfileModal
+        isOpen={isProfileModalOpen}
+        onClose={() => setIsProfileModalOpen(false)}
+        profile={profile}
+        onSave={handleSaveProfile}
+      />
+      <MemoryPanel
+        isOpen={isMemoryPanelOpen}
+        onClose={() => setIsMemoryPanelOpen(false)}
+      />
     </>
   );
 };
@@ -0,0 +1,41 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { verifyPassword, verifyPasswordForUnknownUser, createSessionToken, MAX_PASSWORD_LENGTH } from '../../server/auth.ts';
+import { loginAttemptRules, attemptsBlockedUntil, recordAttempt, sendTooManyAttempts } from '../../server/authThrottle.ts';
+import { getUserByEmail, toPublicUser } from '../../server/userStore.ts';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const { email, password } = (req.body || {}) as Record<string, unknown>;
+    if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+      return res.status(400).json({ error: 'Email and password are required.' });
+    }
+
+    const attemptRules = loginAttemptRules(req, email);
+    const blockedUntil = await attemptsBlockedUntil(attemptRules);
+    if (blockedUntil !== null) {
+      return sendTooManyAttempts(res, blockedUntil);
+    }
+
+    // Unknown emails and wrong passwords get the same message after the same amount of hashing, so neither
+    // the response nor its timing tells whether an account exists.
+    const user = password.length <= MAX_PASSWORD_LENGTH ? await getUserByEmail(email) : null;
+    const passwordMatches = user
+      ? await verifyPassword(password, user.passwordHash)
+      : password.length <= MAX_PASSWORD_LENGTH && await verifyPasswordForUnknownUser(password);
+    if (!user || !passwordMatches) {
+      await recordAttempt(attemptRules);
+      return res.status(401).json({ error: 'Incorrect email or password.' });
+    }
+
+    const token = await createSessionToken(user.id);
+    res.status(200).json({ token, user: toPublicUser(user) });
+  } catch (error) {
+    console.error('Error in login handler:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ error: errorMessage });
+  }
+}
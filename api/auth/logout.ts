@@ -0,0 +1,20 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getBearerToken, revokeSessionToken } from '../../server/auth.ts';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const token = getBearerToken(req);
+    if (token) {
+      await revokeSessionToken(token);
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error in logout handler:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ error: errorMessage });
+  }
+}
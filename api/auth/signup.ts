@@ -0,0 +1,64 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { hashPassword, createSessionToken, MAX_PASSWORD_LENGTH } from '../../server/auth.ts';
+import { signupAttemptRules, attemptsBlockedUntil, recordAttempt, sendTooManyAttempts } from '../../server/authThrottle.ts';
+import { getUserByEmail, saveUser, toPublicUser, userIdForEmail, type StoredUser } from '../../server/userStore.ts';
+
+const NAME_REGEX = /^[a-zA-Z-' ]+$/;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const { firstName, lastName, email, password } = (req.body || {}) as Record<string, unknown>;
+
+    if (typeof firstName !== 'string' || !NAME_REGEX.test(firstName.trim())) {
+      return res.status(400).json({ error: 'Please enter a valid first name.', field: 'firstName' });
+    }
+    if (typeof lastName !== 'string' || !NAME_REGEX.test(lastName.trim())) {
+      return res.status(400).json({ error: 'Please enter a valid last name.', field: 'lastName' });
+    }
+    if (typeof email !== 'string' || !EMAIL_REGEX.test(email.trim())) {
+      return res.status(400).json({ error: 'Please enter a valid email address.', field: 'email' });
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`, field: 'password' });
+    }
+    if (password.length > MAX_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at most ${MAX_PASSWORD_LENGTH} characters.`, field: 'password' });
+    }
+
+    const attemptRules = signupAttemptRules(req);
+    const blockedUntil = await attemptsBlockedUntil(attemptRules);
+    if (blockedUntil !== null) {
+      return sendTooManyAttempts(res, blockedUntil);
+    }
+    await recordAttempt(attemptRules);
+
+    // Hash before looking the email up, so an existing account answers no faster than a new one.
+    const passwordHash = await hashPassword(password);
+    if (await getUserByEmail(email)) {
+      return res.status(409).json({ error: 'An account with this email already exists. Please log in.', field: 'email' });
+    }
+
+    const user: StoredUser = {
+      id: userIdForEmail(email),
+      firstName: firstName.trim(),
+      lastName: lastName.trim(),
+      email: email.trim(),
+      passwordHash,
+      createdAt: Date.now(),
+    };
+    await saveUser(user);
+
+    const token = await createSessionToken(user.id);
+    res.status(201).json({ token, user: toPublicUser(user) });
+  } catch (error) {
+    console.error('Error in signup handler:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ error: errorMessage });
+  }
+}
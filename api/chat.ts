@@ -1,279 +1,110 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI, Part, Content } from '@google/genai';
-
-// --- START: Inlined dependencies to make the function self-contained ---
-
-const SYSTEM_INSTRUCTION = `
-You are an AI Music Industry Coach built to guide artists, songwriters, producers, managers, and independent labels. 
-Your role is to provide clear, professional, and actionable advice across the full music business — including contracts, 
-royalties, publishing, branding, marketing, team building, career strategy, touring, and monetization. You are Indie Coach,
-a music industry coach for independent artists, producers, managers, and songwriters. You provide expert-level guidance 
-across creativity, branding, business, artist development, management, legal essentials, and music marketing. Your tone is
-supportive, clear, and growth-focused, and you always give actionable, step-by-step recommendations.
-You are a 24/7 music industry mentor and creative partner across all music genres. 
-
-Your tone must always be:
-- Supportive
-- Clear
-- Professional
-- Empowering
-- Step-by-step when needed
-
-Your knowledge base includes the following domains:
-
-1. Artist Career Foundations  
-   - Artist identity, story, goals, positioning, release strategy, and niche development.
-
-2. Artist Team  
-   - Managers, business managers, attorneys, agents, publicists, and creative teams.  
-   - Responsibilities, payment structures, and best practices.
-
-3. Record Labels  
-   - Major labels, indie labels, artist-owned labels, label functions, pros/cons.
-
-4. Record Deals  
-   - Traditional deals, distribution deals, licensing, joint ventures, 360 deals.  
-   - Terms: advances, masters, royalties, recoupment, options, territory.
-
-5. Advances & Recoupment  
-   - How advances work, recoupable expenses, cross-collateralization, chargebacks.
-
-6. Royalty Systems  
-   - Artist royalties, streaming royalties, neighboring rights, master royalties.
-
-7. Copyright  
-   - Composition vs sound recording (PA vs SR).  
-   - Exclusive rights, ownership, licensing, control over usage.
-
-8. Publishing  
-   - Publishing deals (admin, co-pub, full pub).  
-   - Royalty types: mechanical, performance, sync, print.  
-   - Catalog value and metadata.
-
-9. Song Splits & Collaboration  
-   - Split sheets, producer shares, work-for-hire, co-writing expectations.
-
-10. PROs (Performance Rights Organizations)  
-    - ASCAP, BMI, SESAC, SOCAN, PRS, GEMA, APRA.  
-    - Live performance royalties & setlist submissions.
-
-11. Mechanical Royalties  
-    - Streaming mechanicals, digital downloads, vinyl/CD.  
-    - The MLC, Harry Fox Agency, and global collection.
-
-12. SoundExchange  
-    - Digital performance royalties for master owners and performers.  
-    - Non-interactive streams (Pandora radio, satellite radio).
-
-13. Sync Licensing  
-    - Sync fees, master-use fees, contracts, negotiation factors.  
-    - Music supervisors, metadata, pitching strategy.
-
-14. Touring & Live Business  
-    - Guarantees, door deals, splits, riders, tour budgeting, crew roles.
-
-15. Merchandising  
-    - Tour merch, venue percentages, licensing deals, online stores.
-
-16. Distribution  
-    - Digital distribution (DistroKid, CD Baby, AWAL, Orchard, Stem).  
-    - Physical distribution, metadata, marketing support.
-
-17. Marketing & Promotion  
-    - Social media strategy, content systems, PR, playlisting, ads.  
-    - Branding, visuals, storytelling, fan engagement.
-
-18. Analytics  
-    - Spotify for Artists, Apple Music for Artists, YouTube Studio, TikTok Analytics.  
-    - Streams, saves, skip rate, audience demographics, discovery sources.
-
-19. Fanbase & Community Building  
-    - Email/SMS lists, Discord communities, superfans, membership models.
-
-20. Monetization Streams  
-    - Streaming, publishing, sync, live shows, merch, YouTube, brand deals, courses.
-
-21. Contracts & Legal Concepts  
-    - Key clauses: term, territory, exclusivity, rights granted, obligations, recoupment.  
-    - How to negotiate fairly and protect ownership.
-
-22. Producers & Production Deals  
-    - Producer points, advances, royalties, production agreements, splits, credits.
-
-23. Branding & Visual Identity  
-    - Logos, colors, typography, cover art, photography, visuals, stage branding.
-
-24. Release Planning  
-    - Pre-release, release day, post-release strategy.  
-    - Deliverables: masters, artwork, EPK, metadata, pitches.
-
-25. Music Tech Tools  
-    - AI tools, marketing platforms, royalty trackers, split payment systems.
-
-RULES:  
-- Do NOT give legal advice. You may explain concepts but encourage users to consult an attorney for binding decisions.  
-- Always explain in a simple, beginner-friendly way unless the user requests expert depth.  
-- Tailor your answers to the user’s career level (beginner, emerging, or advanced).  
-- Give step-by-step instructions whenever the user asks “how to” or “what should I do.”  
-- Never quote books or copyrighted text word-for-word. You may summarize freely.
-
-When responding:  
-- Be concise but thorough.  
-- Structure answers with headings and bullet points.  
-- Offer examples when useful.  
-- Always empower the user to take clear next steps.
-
-Core Functions:
-1. Artist Development: Guide on identity, vocals, performance, songwriting, finding a sound, exercises (freestyle, flow, breath control), image, confidence.
-2. Branding & Identity: Help define core story, visual identity, brand voice, content pillars, target audience, social media strategy.
-3. Business Strategy: Teach monetization, revenue streams, release strategy, budgeting, analytics, fan acquisition.
-4. Artist Management: For artists: explain manager roles, when to get one, red flags, fair percentages, how to pitch. For managers: teach artist development, business structure, scouting, creating opportunities, networking, negotiation basics.
-5. Team Building: Explain roles (publicist, agent), who to hire first, typical rates, and building a virtual team.
-6. Music Law & Copyright (Educational Only): Explain copyright (SR/PA), trademarks, publishing, master rights, royalties, PROs, SoundExchange, split sheets, and basic agreements. Always state "This is for educational purposes only and is not legal advice."
-7. Tools & Software: Recommend tools for recording, mixing, beat creation, songwriting, branding, content creation, social media, and marketing (e.g., BandLab, Pro Tools, Splice, Canva, CapCut, Mailchimp).
-8. Marketing & Release Strategy: Guide on rollouts, promo campaigns, influencer marketing, playlist pitching, press kits, content timelines, and fan engagement.
-9. Collaboration & Etiquette: Explain studio etiquette, creative communication, feature negotiation, and split-sheet usage.
-10. Mindset & Motivation: Support creative confidence, discipline, overcoming writer's block, anxiety, burnout, and goal setting.
-
-RESPONSE FORMATTING RULES:
-- Your response MUST be a string formatted using Markdown.
-- Use emojis strategically to add personality and visual interest.
-- Ensure generous use of whitespace. Break up long paragraphs into smaller, more digestible chunks.
-
-**Core Response Structure:**
-For any substantial question that requires an explanation, you MUST structure your response like a mini-lesson. Follow this format:
-
-1.  **Main Concept Title:** Use a Markdown H2 (##) with a relevant emoji (e.g., ## 💡 Understanding Royalties).
-2.  **Key Takeaway:** Start this section with the bolded label "**Key Takeaway:**". Follow it with a clear, concise paragraph explaining the concept.
-3.  **Actionable Step:** Provide a practical, actionable step for the artist. You MUST format this using the "> [!ACTION]" callout. For example: "> [!ACTION] Go to the U.S. Copyright Office website and register your song."
-
-- If a user's question has multiple parts, you can repeat this "Title / Takeaway / Action" structure for each part.
-- For simple greetings or very short questions, you can respond conversationally without this structure.
-- Use lists (numbered or bulleted) within the "Key Takeaway" or "Actionable Step" sections for clarity when needed.
-
-MARKDOWN RULES:
-- Use a single # for the main topic, ## for sub-topics/concepts.
-- Use the special callouts: > [!TIP], > [!IMPORTANT], and > [!ACTION] as appropriate.
-- When a user asks for a budget, you MUST format it as an interactive budget table. Wrap a valid JSON object with [BUDGET_TABLE] and [/BUDGET_TABLE] tags. The JSON object MUST have this exact structure: {"headers": ["Item", "Industry Low End", "Industry High End", "My Example Estimate"],"rows": [{"item": "Category Name", "low": 100, "high": 500, "estimate": 250}]}
-- When a user asks for a ticket sale estimator, you MUST format it as an interactive ticket estimator. Wrap a valid JSON object with [TICKET_ESTIMATOR] and [/TICKET_ESTIMATOR] tags. The JSON object MUST have this exact structure: {"defaults": {"ticketPrice": 20, "venueCapacity": 200, "sellThroughRate": 75, "merchSpendPerGuest": 10, "venueFeePercent": 15, "venueCostFixed": 500, "marketingCost": 200, "crewCost": 300}}
-- After your main response, you MUST provide three distinct, relevant follow-up questions that the user might ask. Format them within special tags like this: \`[SUGGESTIONS]How do I copyright my music?|What's an EPK?|Tell me about music distributors.[/SUGGESTIONS]\`. The prompts must be separated by a pipe \`|\` character. Do not add any other text or formatting around these tags. This is a strict requirement.
-
-END OF SYSTEM INSTRUCTION.
-`;
-
-export enum Role {
-  User = 'user',
-  AI = 'model',
-}
-
-export interface TextPart {
-  type: 'text';
-  text: string;
-}
-
-export interface FilePart {
-  type: 'file';
-  file: {
-    name: string;
-    mimeType: string;
-    data: string; // base64 encoded
-  };
-}
-
-export type AppPart = TextPart | FilePart;
-
-export interface Message {
-  role: Role;
-  parts: AppPart[];
-  timestamp: number;
-}
-
-// --- END: Inlined dependencies ---
-
-
-// Helper to convert internal AppPart[] to SDK-compatible Part[]
-const appPartsToApiParts = (parts: AppPart[]): Part[] => {
-    return parts.map(part => {
-        if (part.type === 'text') {
-            return { text: part.text };
-        }
-        return { inlineData: { mimeType: part.file.mimeType, data: part.file.data }};
-    });
-};
-
-// Helper to convert the app's message history to the SDK's Content[] format
-const appMessagesToApiContents = (messages: Message[]): Content[] => {
-    // The Gemini API requires alternating user/model roles.
-    // This filters out any potential consecutive messages from the same role.
-    const filteredMessages: Message[] = [];
-    let lastRole: Role | null = null;
-    messages.forEach(msg => {
-        if (msg.role !== lastRole) {
-            filteredMessages.push(msg);
-            lastRole = msg.role;
-        }
-    });
-    
-    // Ensure the last message is from the user. Add a length check to prevent crashing.
-    if(filteredMessages.length > 0 && filteredMessages[filteredMessages.length-1].role !== Role.User){
-        filteredMessages.pop();
-    }
-
-    return filteredMessages.map(msg => ({
-        role: msg.role,
-        parts: appPartsToApiParts(msg.parts)
-    }));
-};
-
+import { getBearerToken, getAuthenticatedUser } from '../server/auth.ts';
+import { Role, type TokenUsage, type MemoryFact, type TextPart, isChatRequest } from '../core/types.ts';
+import { CHAT_STREAM_CONTENT_TYPE, encodeChatEvent, type ChatStreamEvent } from '../core/chatEvents.ts';
+import { DEFAULT_PROMPT_ID, getPromptTemplate, buildSystemInstruction } from '../core/prompts.ts';
+import { createChatEventParser } from '../server/chatStream.ts';
+import { getLLMProvider } from '../server/llm/provider.ts';
+import { parseRememberCommand, rememberExplicitFact, selectRelevantFacts } from '../server/memory.ts';
+import { listFacts } from '../server/memoryStore.ts';
+import { getQuotaRules, getQuotaStatus, consumeQuota, setQuotaHeaders, sendQuotaExceeded } from '../server/quota.ts';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method Not Allowed' });
   }
 
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    return res.status(500).json({ error: 'API key is missing' });
-  }
-
   try {
-    const { messages } = req.body as { messages: Message[] };
+    const provider = getLLMProvider();
+
+    // Guests may chat without a token, but a token that is sent must be valid.
+    const user = await getAuthenticatedUser(req);
+    if (getBearerToken(req) && !user) {
+      return res.status(401).json({ error: 'Your session has expired. Please log in again.' });
+    }
 
-    if (!messages || !Array.isArray(messages)) {
+    if (!isChatRequest(req.body)) {
       return res.status(400).json({ error: 'Invalid message history' });
     }
+    const { messages, promptId = DEFAULT_PROMPT_ID } = req.body;
 
-    const ai = new GoogleGenAI({ apiKey });
-    const contents = appMessagesToApiContents(messages);
-    
-    // Do not call the API if there's no valid content to send
-    if (contents.length === 0) {
+    const promptTemplate = getPromptTemplate(promptId);
+    if (!promptTemplate) {
+      return res.status(400).json({ error: `Unknown prompt template "${promptId}"` });
+    }
+
+    // Do not call the model if there's nothing for it to answer
+    const lastUserMessage = [...messages].reverse().find(message => message.role === Role.User);
+    if (!lastUserMessage) {
         return res.status(400).json({ error: 'Cannot process empty or invalid message history.'});
     }
 
-    const stream = await ai.models.generateContentStream({
-        model: 'gemini-2.5-flash',
-        contents: contents,
-        config: { 
-          systemInstruction: SYSTEM_INSTRUCTION,
-        }
+    const quotaRules = getQuotaRules(req, res, user);
+    const currentQuota = await getQuotaStatus(quotaRules);
+    if (currentQuota.remaining <= 0) {
+        return sendQuotaExceeded(res, currentQuota);
+    }
+    setQuotaHeaders(res, await consumeQuota(quotaRules));
+
+    // Signed-in users get long-term memory: "remember ..." commands are stored before answering, and
+    // the facts relevant to this question are added to the system instruction.
+    let memories: MemoryFact[] = [];
+    if (user) {
+      const question = (lastUserMessage.parts.filter(part => part.type === 'text') as TextPart[]).map(part => part.text).join('\n');
+      const rememberedText = parseRememberCommand(question);
+      if (rememberedText) {
+        await rememberExplicitFact(user.id, rememberedText);
+      }
+      memories = selectRelevantFacts(await listFacts(user.id), question);
+    }
+
+    // Stop generating (and paying for) tokens as soon as the client goes away, e.g. when the user presses Stop.
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) abortController.abort();
     });
 
-    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    const stream = provider.streamChat({
+        messages,
+        systemInstruction: buildSystemInstruction(promptTemplate, { profile: user?.profile, memories }),
+        signal: abortController.signal,
+    });
+
+    res.setHeader('Content-Type', CHAT_STREAM_CONTENT_TYPE);
     res.setHeader('Transfer-Encoding', 'chunked');
 
+    const parser = createChatEventParser();
+    const send = (events: ChatStreamEvent[]) => events.forEach(event => res.write(encodeChatEvent(event)));
+    let usage: TokenUsage | null = null;
+
     for await (const chunk of stream) {
-      const chunkText = chunk.text;
-      if (chunkText) {
-        res.write(chunkText);
+      if (abortController.signal.aborted) return;
+      if (chunk.text) {
+        send(parser.push(chunk.text));
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
       }
     }
 
+    send(parser.flush());
+    if (usage) {
+      send([{ type: 'usage', usage }]);
+    }
+    send([{ type: 'done' }]);
     res.end();
 
   } catch (error) {
+    if (res.destroyed) return; // Client disconnected mid-stream; nobody is left to tell.
     console.error('Error in chat handler:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    // Once streaming has started the status code can't change, so report the failure in-band.
+    if (res.headersSent) {
+      res.write(encodeChatEvent({ type: 'error', message: errorMessage }));
+      res.write(encodeChatEvent({ type: 'done' }));
+      res.end();
+      return;
+    }
     res.status(500).json({ error: errorMessage });
   }
-}
\ No newline at end of file
+}
@@ -1,38 +1,36 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI } from '@google/genai';
+import { getAuthenticatedUser } from '../server/auth.ts';
+import { getLLMProvider } from '../server/llm/provider.ts';
+import { getQuotaRules, getQuotaStatus, consumeQuota, setQuotaHeaders, sendQuotaExceeded } from '../server/quota.ts';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method Not Allowed' });
   }
 
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    return res.status(500).json({ error: 'API key is missing' });
-  }
-
   try {
+    const provider = getLLMProvider();
+
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Please log in to generate images.' });
+    }
+
     const { prompt } = req.body;
     if (!prompt || typeof prompt !== 'string') {
       return res.status(400).json({ error: 'Invalid prompt provided' });
     }
 
-    const ai = new GoogleGenAI({ apiKey });
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ text: prompt }] },
-    });
-
-    let imageUrl: string | null = null;
-    if (response.candidates && response.candidates[0].content && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          const base64EncodeString = part.inlineData.data;
-          imageUrl = `data:${part.inlineData.mimeType};base64,${base64EncodeString}`;
-          break;
-        }
-      }
+    // An image counts as a message against the user's tier.
+    const quotaRules = getQuotaRules(req, res, user);
+    const currentQuota = await getQuotaStatus(quotaRules);
+    if (currentQuota.remaining <= 0) {
+      return sendQuotaExceeded(res, currentQuota);
     }
+    setQuotaHeaders(res, await consumeQuota(quotaRules));
+
+    const image = await provider.generateImage(prompt);
+    const imageUrl = image ? `data:${image.mimeType};base64,${image.data}` : null;
 
     if (imageUrl) {
       res.status(200).json({ imageUrl });
@@ -0,0 +1,56 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isStoredChatSession, normalizeChatSession } from '../core/types.ts';
+import { listSessions, getSession, saveSession, deleteSession } from '../server/historyStore.ts';
+import { getAuthenticatedUser } from '../server/auth.ts';
+
+// GET    /api/history          -> { sessions: ChatSession[] }
+// GET    /api/history?id=<id>  -> { session: ChatSession }
+// PUT    /api/history          -> body { session: ChatSession }, upserts the session
+// DELETE /api/history?id=<id>  -> removes the session
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const chatId = typeof req.query.id === 'string' ? req.query.id : null;
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const userId = user.id;
+
+    switch (req.method) {
+      case 'GET': {
+        if (chatId) {
+          const session = await getSession(userId, chatId);
+          if (!session) {
+            return res.status(404).json({ error: 'Chat session not found' });
+          }
+          return res.status(200).json({ session });
+        }
+        const sessions = await listSessions(userId);
+        return res.status(200).json({ sessions });
+      }
+      case 'PUT': {
+        const { session } = (req.body || {}) as { session?: unknown };
+        if (!isStoredChatSession(session)) {
+          return res.status(400).json({ error: 'Invalid chat session' });
+        }
+        const normalized = normalizeChatSession(session);
+        await saveSession(userId, normalized);
+        return res.status(200).json({ session: normalized });
+      }
+      case 'DELETE': {
+        if (!chatId) {
+          return res.status(400).json({ error: 'Missing chat session id' });
+        }
+        await deleteSession(userId, chatId);
+        return res.status(204).end();
+      }
+      default:
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+  } catch (error) {
+    console.error('Error in history handler:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ error: errorMessage });
+  }
+}
@@ -0,0 +1,42 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isMessage } from '../../core/types.ts';
+import { getAuthenticatedUser } from '../../server/auth.ts';
+import { getLLMProvider } from '../../server/llm/provider.ts';
+import { extractFacts } from '../../server/memory.ts';
+import { getBackgroundQuotaRules, getQuotaStatus, consumeQuota, sendBackgroundQuotaExceeded } from '../../server/quota.ts';
+
+// Only the latest exchange is examined; earlier messages were already processed when they were new.
+const MAX_EXTRACTION_MESSAGES = 4;
+
+// POST /api/memory/extract -> body { messages: Message[] }, returns { facts: MemoryFact[] } with the newly stored facts
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { messages } = (req.body || {}) as { messages?: unknown };
+    if (!Array.isArray(messages) || messages.length === 0 || !messages.every(isMessage)) {
+      return res.status(400).json({ error: 'Invalid message history' });
+    }
+
+    const quotaRules = getBackgroundQuotaRules(user);
+    const currentQuota = await getQuotaStatus(quotaRules);
+    if (currentQuota.remaining <= 0) {
+      return sendBackgroundQuotaExceeded(res, currentQuota);
+    }
+    await consumeQuota(quotaRules);
+
+    const facts = await extractFacts(getLLMProvider(), user.id, messages.slice(-MAX_EXTRACTION_MESSAGES));
+    res.status(200).json({ facts });
+  } catch (error) {
+    console.error('Error in memory extraction handler:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ error: errorMessage });
+  }
+}
@@ -0,0 +1,67 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { MEMORY_TEXT_MAX_LENGTH } from '../../core/types.ts';
+import { getAuthenticatedUser } from '../../server/auth.ts';
+import { listFacts, getFact, saveFact, deleteFact, createFact, MAX_MEMORY_FACTS } from '../../server/memoryStore.ts';
+
+const readFactText = (body: unknown): string | null => {
+  const { text } = (body || {}) as { text?: unknown };
+  if (typeof text !== 'string') return null;
+  const trimmed = text.trim();
+  return trimmed && trimmed.length <= MEMORY_TEXT_MAX_LENGTH ? trimmed : null;
+};
+
+// GET    /api/memory          -> { facts: MemoryFact[] }, newest first
+// POST   /api/memory          -> body { text }, adds a fact
+// PUT    /api/memory?id=<id>  -> body { text }, edits a fact
+// DELETE /api/memory?id=<id>  -> removes a fact
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const factId = typeof req.query.id === 'string' ? req.query.id : null;
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({ facts: await listFacts(user.id) });
+      case 'POST': {
+        const text = readFactText(req.body);
+        if (!text) {
+          return res.status(400).json({ error: `A fact must be between 1 and ${MEMORY_TEXT_MAX_LENGTH} characters.` });
+        }
+        if ((await listFacts(user.id)).length >= MAX_MEMORY_FACTS) {
+          return res.status(409).json({ error: `You can keep up to ${MAX_MEMORY_FACTS} facts. Delete some to add more.` });
+        }
+        return res.status(201).json({ fact: await createFact(user.id, text, 'explicit') });
+      }
+      case 'PUT': {
+        const text = readFactText(req.body);
+        if (!factId || !text) {
+          return res.status(400).json({ error: `A fact must be between 1 and ${MEMORY_TEXT_MAX_LENGTH} characters.` });
+        }
+        const fact = await getFact(user.id, factId);
+        if (!fact) {
+          return res.status(404).json({ error: 'Fact not found' });
+        }
+        const updated = { ...fact, text, updatedAt: Date.now() };
+        await saveFact(user.id, updated);
+        return res.status(200).json({ fact: updated });
+      }
+      case 'DELETE': {
+        if (!factId) {
+          return res.status(400).json({ error: 'Missing fact id' });
+        }
+        await deleteFact(user.id, factId);
+        return res.status(204).end();
+      }
+      default:
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+  } catch (error) {
+    console.error('Error in memory handler:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ error: errorMessage });
+  }
+}
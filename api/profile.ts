@@ -0,0 +1,43 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { type ArtistProfile, isArtistProfile } from '../core/types.ts';
+import { getAuthenticatedUser } from '../server/auth.ts';
+import { saveUser } from '../server/userStore.ts';
+
+// Trims text fields and drops empty ones, so "unset" is always represented by a missing key.
+const normalizeProfile = (profile: ArtistProfile): ArtistProfile =>
+  Object.fromEntries(
+    Object.entries(profile)
+      .map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value])
+      .filter(([, value]) => value !== undefined && value !== '')
+  ) as ArtistProfile;
+
+// GET /api/profile -> { profile: ArtistProfile }
+// PUT /api/profile -> body { profile: ArtistProfile }, replaces the stored profile
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({ profile: user.profile ?? {} });
+      case 'PUT': {
+        const { profile } = (req.body || {}) as { profile?: unknown };
+        if (!isArtistProfile(profile)) {
+          return res.status(400).json({ error: 'Invalid artist profile' });
+        }
+        const normalized = normalizeProfile(profile);
+        await saveUser({ ...user, profile: normalized });
+        return res.status(200).json({ profile: normalized });
+      }
+      default:
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+  } catch (error) {
+    console.error('Error in profile handler:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ error: errorMessage });
+  }
+}
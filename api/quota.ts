@@ -0,0 +1,20 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from '../server/auth.ts';
+import { getQuotaRules, getQuotaStatus } from '../server/quota.ts';
+
+// GET /api/quota -> { quota: QuotaStatus } for the current user or guest, without consuming a message.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    const quota = await getQuotaStatus(getQuotaRules(req, res, user));
+    res.status(200).json({ quota });
+  } catch (error) {
+    console.error('Error in quota handler:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ error: errorMessage });
+  }
+}
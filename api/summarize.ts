@@ -0,0 +1,43 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { CHAT_SUMMARY_MAX_LENGTH, isMessage } from '../core/types.ts';
+import { getAuthenticatedUser } from '../server/auth.ts';
+import { getLLMProvider } from '../server/llm/provider.ts';
+import { getBackgroundQuotaRules, getQuotaStatus, consumeQuota, sendBackgroundQuotaExceeded } from '../server/quota.ts';
+import { summarizeConversation } from '../server/summary.ts';
+
+// POST /api/summarize -> body { messages: Message[], previousSummary?: string }, returns { title, summary }.
+// `previousSummary` covers the messages before `messages`, so a long chat's summary can be brought up to
+// date without resending the whole history.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { messages, previousSummary } = (req.body || {}) as { messages?: unknown; previousSummary?: unknown };
+    if (!Array.isArray(messages) || messages.length === 0 || !messages.every(isMessage)) {
+      return res.status(400).json({ error: 'Invalid message history' });
+    }
+    if (previousSummary !== undefined && (typeof previousSummary !== 'string' || previousSummary.length > CHAT_SUMMARY_MAX_LENGTH)) {
+      return res.status(400).json({ error: 'Invalid previous summary' });
+    }
+
+    const quotaRules = getBackgroundQuotaRules(user);
+    const currentQuota = await getQuotaStatus(quotaRules);
+    if (currentQuota.remaining <= 0) {
+      return sendBackgroundQuotaExceeded(res, currentQuota);
+    }
+    await consumeQuota(quotaRules);
+
+    res.status(200).json(await summarizeConversation(getLLMProvider(), messages, previousSummary as string | undefined));
+  } catch (error) {
+    console.error('Error in summarize handler:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    res.status(500).json({ error: errorMessage });
+  }
+}
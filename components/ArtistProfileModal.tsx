@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import { CloseIcon } from './icons/CloseIcon.tsx';
+import { type ArtistProfile, type CareerStage, type ArtistRole, type BudgetRange, PROFILE_TEXT_MAX_LENGTH } from '../types.ts';
+
+const ROLE_OPTIONS: { value: ArtistRole; label: string }[] = [
+  { value: 'artist', label: 'Artist' },
+  { value: 'producer', label: 'Producer' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'songwriter', label: 'Songwriter' },
+];
+
+const CAREER_STAGE_OPTIONS: { value: CareerStage; label: string }[] = [
+  { value: 'beginner', label: 'Beginner — just getting started' },
+  { value: 'emerging', label: 'Emerging — releasing and building a fanbase' },
+  { value: 'advanced', label: 'Advanced — established with a team' },
+];
+
+const BUDGET_RANGE_OPTIONS: { value: BudgetRange; label: string }[] = [
+  { value: 'under-500', label: 'Under $500' },
+  { value: '500-2000', label: '$500 – $2,000' },
+  { value: '2000-10000', label: '$2,000 – $10,000' },
+  { value: 'over-10000', label: 'Over $10,000' },
+];
+
+interface ArtistProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profile: ArtistProfile;
+  onSave: (profile: ArtistProfile) => Promise<string | null>;
+}
+
+const inputClasses = 'w-full p-3 bg-background border border-surface-border rounded-lg focus:ring-0 text-foreground';
+const labelClasses = 'block text-sm font-medium text-foreground/80 mb-1';
+
+const ArtistProfileModal: React.FC<ArtistProfileModalProps> = ({ isOpen, onClose, profile, onSave }) => {
+  const [draft, setDraft] = useState<ArtistProfile>(profile);
+  const [monthlyListeners, setMonthlyListeners] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(profile);
+      setMonthlyListeners(profile.monthlyListeners?.toString() ?? '');
+      setError(null);
+    }
+  }, [isOpen, profile]);
+
+  if (!isOpen) return null;
+
+  const update = <K extends keyof ArtistProfile>(key: K, value: ArtistProfile[K] | '') => {
+    setDraft(prev => ({ ...prev, [key]: value === '' ? undefined : value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    const listeners = monthlyListeners.trim() === '' ? undefined : Number(monthlyListeners);
+    if (listeners !== undefined && (!Number.isInteger(listeners) || listeners < 0)) {
+      setError('Monthly listeners must be a whole number.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const saveError = await onSave({ ...draft, monthlyListeners: listeners });
+    setIsSubmitting(false);
+    if (saveError) {
+      setError(saveError);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="profileModalTitle"
+    >
+      <div className="relative bg-surface rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <button
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 rounded-full hover:bg-background"
+            aria-label="Close artist profile"
+        >
+            <CloseIcon className="w-5 h-5" />
+        </button>
+        <div className="p-8">
+          <div className="mb-6">
+             <h2 id="profileModalTitle" className="text-2xl font-bold text-foreground">Artist Profile</h2>
+             <p className="text-foreground/70 mt-1 text-sm">Your coach uses this to tailor every answer to where you are in your career.</p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="profile-role" className={labelClasses}>Role</label>
+                <select id="profile-role" value={draft.role ?? ''} onChange={(e) => update('role', e.target.value as ArtistRole | '')} className={inputClasses}>
+                  <option value="">Not set</option>
+                  {ROLE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="profile-genre" className={labelClasses}>Genre</label>
+                <input id="profile-genre" type="text" value={draft.genre ?? ''} maxLength={PROFILE_TEXT_MAX_LENGTH} onChange={(e) => update('genre', e.target.value)} className={inputClasses} placeholder="e.g. Indie pop" />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="profile-stage" className={labelClasses}>Career Stage</label>
+              <select id="profile-stage" value={draft.careerStage ?? ''} onChange={(e) => update('careerStage', e.target.value as CareerStage | '')} className={inputClasses}>
+                <option value="">Not set</option>
+                {CAREER_STAGE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="profile-location" className={labelClasses}>Location</label>
+                <input id="profile-location" type="text" value={draft.location ?? ''} maxLength={PROFILE_TEXT_MAX_LENGTH} onChange={(e) => update('location', e.target.value)} className={inputClasses} placeholder="e.g. Atlanta, GA" />
+              </div>
+              <div>
+                <label htmlFor="profile-listeners" className={labelClasses}>Monthly Listeners</label>
+                <input id="profile-listeners" type="number" min="0" step="1" value={monthlyListeners} onChange={(e) => setMonthlyListeners(e.target.value)} className={inputClasses} placeholder="e.g. 1200" />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="profile-budget" className={labelClasses}>Budget Range (per release)</label>
+              <select id="profile-budget" value={draft.budgetRange ?? ''} onChange={(e) => update('budgetRange', e.target.value as BudgetRange | '')} className={inputClasses}>
+                <option value="">Not set</option>
+                {BUDGET_RANGE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="profile-releases" className={labelClasses}>Current Releases</label>
+              <textarea id="profile-releases" rows={2} value={draft.currentReleases ?? ''} maxLength={PROFILE_TEXT_MAX_LENGTH} onChange={(e) => update('currentReleases', e.target.value)} className={`${inputClasses} resize-y`} placeholder="e.g. Debut EP out in March, two singles on Spotify" />
+            </div>
+            <div>
+              <label htmlFor="profile-goals" className={labelClasses}>Goals</label>
+              <textarea id="profile-goals" rows={3} value={draft.goals ?? ''} maxLength={PROFILE_TEXT_MAX_LENGTH} onChange={(e) => update('goals', e.target.value)} className={`${inputClasses} resize-y`} placeholder="e.g. Book a regional tour and reach 10k monthly listeners this year" />
+            </div>
+
+            {error && <p role="alert" className="text-red-600 dark:text-red-400 text-sm text-center">{error}</p>}
+
+            <button type="submit" disabled={isSubmitting} className="w-full brand-cta text-white font-bold py-3 px-6 rounded-lg shadow-md transform hover:scale-105 mt-2">
+              {isSubmitting ? 'Saving...' : 'Save Profile'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArtistProfileModal;
@@ -48,14 +48,21 @@ import { LoadingIcon } from './icons/LoadingIcon.tsx';
 import { AttachmentIcon } from './icons/AttachmentIcon.tsx';
 import { CloseIcon } from './icons/CloseIcon.tsx';
 import { MicIcon } from './icons/MicIcon.tsx';
+import { StopIcon } from './icons/StopIcon.tsx';
+import { type QuotaStatus } from '../types.ts';
+
+// Signed-in users only see the counter once they are close to their tier limit.
+const USER_QUOTA_WARNING_THRESHOLD = 10;
 
 interface ChatInputProps {
   onSendMessage: (text: string, file?: File | null) => void;
+  onStop?: () => void;
   isLoading: boolean;
   isLocked: boolean;
+  quota?: QuotaStatus | null;
 }
 
-const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading, isLocked }) => {
+const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, onStop, isLoading, isLocked, quota }) => {
   const [text, setText] = useState('');
   const [file, setFile] = useState<File | null>(null);
   const [isRecording, setIsRecording] = useState(false);
@@ -150,9 +157,11 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading, isLocke
   }, [text]);
 
   let placeholderText = "Ask your coach anything...";
-  if (isLocked) placeholderText = "Please sign up to continue";
+  if (isLocked) placeholderText = quota?.scope === 'user' ? "Message limit reached. Please try again later" : "Please sign up to continue";
   if (isRecording) placeholderText = "Listening...";
 
+  const showQuota = !!quota && !isLocked && (quota.scope !== 'user' || quota.remaining <= USER_QUOTA_WARNING_THRESHOLD);
+
 
   return (
     <div className="bg-surface rounded-2xl shadow-lg border border-surface-border">
@@ -200,15 +209,32 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading, isLocke
         >
           <MicIcon className="w-6 h-6" />
         </button>
-        <button
-            type="submit"
-            disabled={isLoading || (!text.trim() && !file) || isLocked}
-            className="brand-cta w-11 h-11 flex-shrink-0 flex items-center justify-center rounded-full shadow-lg transform hover:scale-105 active:scale-95"
-            aria-label="Send message"
-        >
-            {isLoading ? <LoadingIcon /> : <SendIcon />}
-        </button>
+        {isLoading && onStop ? (
+          <button
+              type="button"
+              onClick={onStop}
+              className="brand-cta w-11 h-11 flex-shrink-0 flex items-center justify-center rounded-full shadow-lg transform hover:scale-105 active:scale-95"
+              aria-label="Stop generating"
+              title="Stop generating"
+          >
+              <StopIcon />
+          </button>
+        ) : (
+          <button
+              type="submit"
+              disabled={isLoading || (!text.trim() && !file) || isLocked}
+              className="brand-cta w-11 h-11 flex-shrink-0 flex items-center justify-center rounded-full shadow-lg transform hover:scale-105 active:scale-95"
+              aria-label="Send message"
+          >
+              {isLoading ? <LoadingIcon /> : <SendIcon />}
+          </button>
+        )}
         </form>
+        {showQuota && quota && (
+            <p className={`px-4 pb-2 text-xs ${quota.remaining <= 1 ? 'text-red-600 dark:text-red-400' : 'text-foreground/60'}`} aria-live="polite">
+                {quota.remaining} {quota.remaining === 1 ? 'message' : 'messages'} left
+            </p>
+        )}
     </div>
   );
 };
@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { type ChatSession } from '../types.ts';
+import { type ChatSessionMeta, parseTags } from '../utils/chatSessions.ts';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { PinIcon } from './icons/PinIcon.tsx';
+import { FolderIcon } from './icons/FolderIcon.tsx';
+import { MoreIcon } from './icons/MoreIcon.tsx';
+import { EditIcon } from './icons/EditIcon.tsx';
+
+interface ChatListItemProps {
+  chat: ChatSession;
+  isActive: boolean;
+  folders: string[];
+  onSelect: () => void;
+  onDelete: () => void;
+  onUpdate: (meta: ChatSessionMeta) => void;
+  // Called with the chat's row while it is hovered or focused, and with null when it no longer is.
+  onPreview: (anchor: HTMLElement | null) => void;
+}
+
+type Panel = 'actions' | 'folder' | 'tags';
+
+const panelButtonClasses = 'w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-xs font-medium text-foreground/80 hover:bg-background';
+const panelInputClasses = 'w-full px-2 py-1 rounded-md bg-background border border-surface-border text-xs text-foreground';
+
+const ChatListItem: React.FC<ChatListItemProps> = ({ chat, isActive, folders, onSelect, onDelete, onUpdate, onPreview }) => {
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draft, setDraft] = useState('');
+  // Escape unmounts the rename input, and the blur that follows mustn't save the abandoned draft.
+  const renameCancelledRef = useRef(false);
+
+  const startRename = () => {
+    setDraft(chat.title);
+    renameCancelledRef.current = false;
+    setIsRenaming(true);
+    setPanel(null);
+  };
+
+  const finishRename = () => {
+    setIsRenaming(false);
+    if (renameCancelledRef.current) return;
+    if (draft.trim() && draft.trim() !== chat.title) onUpdate({ title: draft.trim() });
+  };
+
+  const openPanel = (next: Panel) => {
+    setDraft(next === 'tags' ? chat.tags.join(', ') : '');
+    setPanel(next);
+  };
+
+  const moveTo = (folder: string | undefined) => {
+    onUpdate({ folder });
+    setPanel(null);
+  };
+
+  const submitOnEnter = (submit: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') submit();
+    if (e.key === 'Escape') {
+      renameCancelledRef.current = true;
+      setIsRenaming(false);
+      setPanel(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="group flex items-center">
+        {isRenaming ? (
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={finishRename}
+            onKeyDown={submitOnEnter(finishRename)}
+            aria-label="Chat title"
+            className="w-full p-2 rounded-lg bg-background border border-surface-border text-sm text-foreground"
+            autoFocus
+          />
+        ) : (
+          <button
+            onClick={() => { onPreview(null); onSelect(); }}
+            onDoubleClick={startRename}
+            onMouseEnter={(e) => onPreview(e.currentTarget)}
+            onMouseLeave={() => onPreview(null)}
+            onFocus={(e) => onPreview(e.currentTarget)}
+            onBlur={() => onPreview(null)}
+            className={`w-full min-w-0 text-left p-2.5 rounded-lg text-sm font-medium ${
+              isActive
+                ? 'bg-brand-orange-dark-accessible text-white font-bold'
+                : 'hover:bg-background text-foreground/80'
+            }`}
+          >
+            <span className="flex items-center gap-1.5">
+              {chat.pinned && <PinIcon className="w-3.5 h-3.5 flex-shrink-0 opacity-60" aria-label="Pinned" />}
+              <span className="truncate">{chat.title}</span>
+            </span>
+            {chat.tags.length > 0 && (
+              <span className="mt-1 flex flex-wrap gap-1">
+                {chat.tags.map(tag => (
+                  <span key={tag} className={`px-1.5 rounded text-[10px] font-medium ${isActive ? 'bg-white/20' : 'bg-background text-foreground/60'}`}>#{tag}</span>
+                ))}
+              </span>
+            )}
+          </button>
+        )}
+        <button
+          onClick={() => panel ? setPanel(null) : openPanel('actions')}
+          className={`p-1 rounded-md text-foreground/40 hover:text-foreground hover:bg-background ml-1 flex-shrink-0 ${panel ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+          aria-label="Chat options"
+          aria-expanded={panel !== null}
+        >
+          <MoreIcon />
+        </button>
+        <button
+          onClick={(e) => {
+              e.stopPropagation();
+              onDelete();
+          }}
+          className="p-1 rounded-md text-foreground/40 opacity-0 group-hover:opacity-100 hover:text-red-500 hover:bg-red-500/10 flex-shrink-0"
+          aria-label="Delete chat"
+        >
+          <TrashIcon />
+        </button>
+      </div>
+
+      {panel === 'actions' && (
+        <div className="mx-1 mt-1 mb-2 p-1 rounded-lg border border-surface-border bg-surface">
+          <button onClick={startRename} className={panelButtonClasses}><EditIcon className="w-3.5 h-3.5" />Rename</button>
+          <button onClick={() => { onUpdate({ pinned: !chat.pinned }); setPanel(null); }} className={panelButtonClasses}>
+            <PinIcon className="w-3.5 h-3.5" />{chat.pinned ? 'Unpin' : 'Pin to top'}
+          </button>
+          <button onClick={() => openPanel('folder')} className={panelButtonClasses}><FolderIcon className="w-3.5 h-3.5" />Move to folder</button>
+          <button onClick={() => openPanel('tags')} className={panelButtonClasses}><span className="w-3.5 text-center">#</span>Edit tags</button>
+        </div>
+      )}
+
+      {panel === 'folder' && (
+        <div className="mx-1 mt-1 mb-2 p-1 rounded-lg border border-surface-border bg-surface space-y-0.5">
+          {folders.filter(folder => folder !== chat.folder).map(folder => (
+            <button key={folder} onClick={() => moveTo(folder)} className={panelButtonClasses}><FolderIcon className="w-3.5 h-3.5" /><span className="truncate">{folder}</span></button>
+          ))}
+          {chat.folder && <button onClick={() => moveTo(undefined)} className={panelButtonClasses}>Remove from "{chat.folder}"</button>}
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={submitOnEnter(() => draft.trim() && moveTo(draft.trim()))}
+            placeholder="New folder, e.g. Midnight Drive EP"
+            aria-label="New folder name"
+            className={panelInputClasses}
+            autoFocus
+          />
+        </div>
+      )}
+
+      {panel === 'tags' && (
+        <div className="mx-1 mt-1 mb-2 p-1 rounded-lg border border-surface-border bg-surface">
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={submitOnEnter(() => { onUpdate({ tags: parseTags(draft) }); setPanel(null); })}
+            placeholder="Comma-separated, e.g. royalties, sync"
+            aria-label="Tags"
+            className={panelInputClasses}
+            autoFocus
+          />
+          <p className="px-1 pt-1 text-[10px] text-foreground/50">Press Enter to save.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatListItem;
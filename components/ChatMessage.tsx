@@ -1,14 +1,26 @@
-import React from 'react';
-import { type Message, Role, type User, TextPart, FilePart } from '../types.ts';
+import React, { useState } from 'react';
+import { type Message, Role, type User, TextPart, FilePart, type ToolPart } from '../types.ts';
 import { LogoIcon } from './icons/LogoIcon.tsx';
 import EnhancedMarkdown from './EnhancedMarkdown.tsx';
 import UserAvatar from './UserAvatar.tsx';
 import { FileIcon } from './icons/FileIcon.tsx';
+import { RefreshIcon } from './icons/RefreshIcon.tsx';
+import { EditIcon } from './icons/EditIcon.tsx';
+import { getBranchCount, getBranchIndex } from '../utils/branches.ts';
+import { getToolParts } from '../utils/toolState.ts';
+import { TOOL_DEFINITIONS, isToolTag } from '../core/tools/registry.ts';
 
 interface ChatMessageProps {
   message: Message;
   user: User | null;
   isStreaming?: boolean;
+  isHighlighted?: boolean;
+  actionsDisabled?: boolean;
+  onRegenerate?: () => void;
+  onEdit?: (text: string) => void;
+  onSwitchBranch?: (target: number) => void;
+  onToolStateChange?: (part: ToolPart) => void;
+  onDiscussTool?: (part: ToolPart) => void;
 }
 
 const FileAttachment: React.FC<{ file: { name: string; type: string } }> = ({ file }) => (
@@ -20,8 +32,18 @@ const FileAttachment: React.FC<{ file: { name: string; type: string } }> = ({ fi
     </div>
 );
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, user, isStreaming }) => {
+const SharedToolChip: React.FC<{ part: ToolPart }> = ({ part }) => (
+    <div className="mt-2 inline-flex items-center gap-1.5 px-2.5 py-1 bg-black/10 dark:bg-white/10 rounded-full border border-white/20 text-xs font-semibold">
+        <span>Shared: {isToolTag(part.tool) ? TOOL_DEFINITIONS[part.tool].title : part.tool} values</span>
+    </div>
+);
+
+const actionButtonClasses = 'p-1.5 rounded-md text-foreground/50 hover:text-foreground hover:bg-surface disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, user, isStreaming, isHighlighted, actionsDisabled, onRegenerate, onEdit, onSwitchBranch, onToolStateChange, onDiscussTool }) => {
   const isUser = message.role === Role.User;
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
 
   const bubbleClasses = isUser
     ? 'bg-brand-orange-dark-accessible text-white'
@@ -40,10 +62,25 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, user, isStreaming })
     
   const textParts = message.parts.filter(p => p.type === 'text') as TextPart[];
   const fileParts = message.parts.filter(p => p.type === 'file') as FilePart[];
+  const toolParts = getToolParts(message);
   const combinedText = textParts.map(p => p.text).join('\n');
 
+  const branchCount = getBranchCount(message);
+  const branchIndex = getBranchIndex(message);
+
+  const startEditing = () => {
+    setDraft(combinedText);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || !onEdit) return;
+    setIsEditing(false);
+    onEdit(draft);
+  };
+
   return (
-    <div className={`flex items-start gap-3 my-4 animate-fade-in-up ${containerClasses}`}>
+    <div className={`flex items-start gap-3 my-4 animate-fade-in-up ${containerClasses}`} data-highlighted={isHighlighted || undefined}>
       {!isUser && (
         <div className="flex-shrink-0 w-10 h-10 rounded-full bg-brand-orange flex items-center justify-center shadow-sm">
             <LogoIcon className="w-6 h-6 text-white" />
@@ -51,7 +88,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, user, isStreaming })
       )}
 
       <div className={`flex flex-col max-w-[85%] ${isUser ? 'items-end' : 'items-start'}`}>
-        <div className={`rounded-3xl p-5 shadow-sm ${bubbleClasses}`}>
+        <div className={`rounded-3xl p-5 shadow-sm transition-shadow duration-500 ${bubbleClasses} ${isHighlighted ? 'ring-2 ring-brand-orange ring-offset-2 ring-offset-background' : ''}`}>
           {fileParts.length > 0 && (
               <div>
                   {fileParts.map((part, index) => (
@@ -61,19 +98,64 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, user, isStreaming })
           )}
           {combinedText || isStreaming ? (
             <div className={`${fileParts.length > 0 ? 'mt-2' : ''}`}>
-              {isUser ? (
+              {isUser && isEditing ? (
+                 <div className="flex flex-col gap-2 min-w-[16rem]">
+                   <textarea
+                     value={draft}
+                     onChange={(e) => setDraft(e.target.value)}
+                     className="w-full bg-white/10 rounded-lg p-2 text-white resize-y focus:ring-0 border border-white/30"
+                     rows={3}
+                     aria-label="Edit message"
+                     autoFocus
+                   />
+                   <div className="flex justify-end gap-2 text-sm font-semibold">
+                     <button onClick={() => setIsEditing(false)} className="px-3 py-1 rounded-md hover:bg-white/10">Cancel</button>
+                     <button onClick={submitEdit} disabled={!draft.trim() || actionsDisabled} className="px-3 py-1 rounded-md bg-white text-brand-orange-dark-accessible disabled:opacity-50">Save & Send</button>
+                   </div>
+                 </div>
+              ) : isUser ? (
                  <p className="whitespace-pre-wrap">{combinedText}</p>
               ) : (
-                <EnhancedMarkdown text={combinedText} isStreaming={isStreaming} />
+                <EnhancedMarkdown
+                  text={combinedText}
+                  isStreaming={isStreaming}
+                  toolStates={toolParts}
+                  onToolStateChange={isStreaming ? undefined : onToolStateChange}
+                  onDiscussTool={isStreaming || actionsDisabled ? undefined : onDiscussTool}
+                />
               )}
             </div>
           ) : null}
+          {isUser && toolParts.map((part, index) => <SharedToolChip key={index} part={part} />)}
+        </div>
+        <div className={`flex items-center gap-1 mt-2 px-2 ${isUser ? 'flex-row-reverse' : ''}`}>
+          {formattedTime && (
+              <p className="text-xs text-foreground/50">
+                  {formattedTime}
+              </p>
+          )}
+          {!isStreaming && !isEditing && (
+            <>
+              {!isUser && onRegenerate && (
+                <button onClick={onRegenerate} disabled={actionsDisabled} className={actionButtonClasses} aria-label="Regenerate response" title="Regenerate response">
+                  <RefreshIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {isUser && onEdit && textParts.length > 0 && (
+                <button onClick={startEditing} disabled={actionsDisabled} className={actionButtonClasses} aria-label="Edit message" title="Edit and resend">
+                  <EditIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {branchCount > 1 && onSwitchBranch && (
+                <div className="flex items-center text-xs text-foreground/60" aria-label="Response versions">
+                  <button onClick={() => onSwitchBranch(branchIndex - 1)} disabled={actionsDisabled || branchIndex === 0} className={actionButtonClasses} aria-label="Previous version">‹</button>
+                  <span>{branchIndex + 1}/{branchCount}</span>
+                  <button onClick={() => onSwitchBranch(branchIndex + 1)} disabled={actionsDisabled || branchIndex === branchCount - 1} className={actionButtonClasses} aria-label="Next version">›</button>
+                </div>
+              )}
+            </>
+          )}
         </div>
-        {formattedTime && (
-            <p className="text-xs text-foreground/50 mt-2 px-2">
-                {formattedTime}
-            </p>
-        )}
       </div>
 
        {isUser && user && (
@@ -0,0 +1,244 @@
+import React, { useState, useRef } from 'react';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { RefreshIcon } from './icons/RefreshIcon.tsx';
+import { LoadingIcon } from './icons/LoadingIcon.tsx';
+import DiscussWithCoachButton from './DiscussWithCoachButton.tsx';
+import { Role } from '../types.ts';
+import { type ContentCalendarData, type ContentCalendarState, type ContentPost, type PostStatus, type CalendarView, POST_STATUSES } from '../core/tools/contentCalendar.ts';
+import { type ToolViewProps } from '../core/tools/types.ts';
+import { requestChatReply } from '../services/chatApi.ts';
+import { addDays, daysFrom, todayIso } from '../utils/dates.ts';
+import { downloadFile } from '../utils/download.ts';
+import { buildRegeneratePrompt, contentCalendarFilename, contentCalendarToCsv, createContentCalendar, newPost, parseRegeneratedPost, visibleDayCount } from '../utils/contentCalendar.ts';
+
+type ContentCalendarProps = ToolViewProps<ContentCalendarData, ContentCalendarState>;
+
+const inputClasses = 'w-full min-w-0 rounded-md border-surface-border bg-background py-1.5 px-2 text-sm text-foreground shadow-sm focus:border-[var(--brand-purple)] focus:ring-0';
+const buttonClasses = 'flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-surface-border text-xs font-semibold text-foreground/80 hover:bg-background disabled:opacity-40 disabled:cursor-not-allowed';
+
+const STATUS_STYLES: Record<PostStatus, { label: string; className: string }> = {
+  idea: { label: 'Idea', className: 'bg-gray-400' },
+  draft: { label: 'Draft', className: 'bg-brand-orange' },
+  scheduled: { label: 'Scheduled', className: 'bg-[var(--brand-purple)]' },
+  posted: { label: 'Posted', className: 'bg-green-500' },
+};
+
+const formatCellDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const ContentCalendar: React.FC<ContentCalendarProps> = ({ data, state, onStateChange, onDiscuss }) => {
+  const [calendar, setCalendar] = useState<ContentCalendarState>(() => state ?? createContentCalendar(data));
+  const [weekPage, setWeekPage] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [dropDay, setDropDay] = useState<number | null>(null);
+  const [regenerating, setRegenerating] = useState<number | null>(null);
+  const [regenerateError, setRegenerateError] = useState<string | null>(null);
+
+  // Regeneration finishes after the user may have made other edits; it applies to the latest calendar.
+  const latest = useRef(calendar);
+  latest.current = calendar;
+
+  const today = todayIso();
+  const dayCount = visibleDayCount(calendar);
+  const lastDay = Math.max(0, ...calendar.posts.map(post => post.day));
+  const weekCount = Math.floor(lastDay / 7) + 1;
+  const firstDay = calendar.view === 'week' ? Math.min(weekPage, weekCount - 1) * 7 : 0;
+  const days = Array.from({ length: dayCount }, (_, i) => firstDay + i);
+
+  const commit = (next: ContentCalendarState) => {
+    setCalendar(next);
+    onStateChange?.(next);
+  };
+
+  const updatePost = (index: number, changes: Partial<ContentPost>) => {
+    const current = latest.current;
+    commit({ ...current, posts: current.posts.map((post, i) => (i === index ? { ...post, ...changes } : post)) });
+  };
+
+  const addPost = (day: number) => {
+    commit({ ...calendar, posts: [...calendar.posts, newPost(day)] });
+    setSelected(calendar.posts.length);
+  };
+
+  const removePost = (index: number) => {
+    commit({ ...calendar, posts: calendar.posts.filter((_, i) => i !== index) });
+    setSelected(null);
+  };
+
+  const regenerate = async (index: number) => {
+    setRegenerating(index);
+    setRegenerateError(null);
+    try {
+      const reply = await requestChatReply([{ role: Role.User, parts: [{ type: 'text', text: buildRegeneratePrompt(calendar, index) }], timestamp: Date.now() }]);
+      const result = parseRegeneratedPost(reply, latest.current.posts[index]);
+      if (result.ok === false) throw new Error(result.error);
+      updatePost(index, result.data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+      console.error('Post regeneration failed:', errorMessage);
+      setRegenerateError(`Couldn't regenerate the post. ${errorMessage}`);
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, day: number) => {
+    event.preventDefault();
+    setDropDay(null);
+    const index = Number(event.dataTransfer.getData('text/plain'));
+    if (Number.isInteger(index) && calendar.posts[index] && calendar.posts[index].day !== day) {
+      updatePost(index, { day });
+    }
+  };
+
+  const switchView = (view: CalendarView) => {
+    commit({ ...calendar, view });
+    setWeekPage(0);
+  };
+
+  const selectedPost = selected !== null ? calendar.posts[selected] : undefined;
+
+  return (
+    <div className="my-6 p-4 md:p-6 rounded-lg border border-surface-border bg-surface">
+      <h3 className="text-lg font-bold text-foreground mb-1">Content Calendar</h3>
+      <p className="text-sm text-foreground/70 mb-6">Drag posts to reschedule them, click one to edit it, and export the plan for your scheduling tool.</p>
+
+      <div className="grid md:grid-cols-3 gap-3 mb-4">
+        <label className="md:col-span-2 text-xs font-medium text-foreground/70 space-y-1">
+          <span>Plan</span>
+          <input value={calendar.title} onChange={(e) => commit({ ...calendar, title: e.target.value })} className={inputClasses} />
+        </label>
+        <label className="text-xs font-medium text-foreground/70 space-y-1">
+          <span>Starts on</span>
+          <input type="date" value={calendar.startDate} onChange={(e) => e.target.value && commit({ ...calendar, startDate: e.target.value })} className={inputClasses} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex rounded-full border border-surface-border overflow-hidden text-xs font-semibold" role="group" aria-label="Calendar view">
+          {(['week', 'month'] as CalendarView[]).map(view => (
+            <button key={view} onClick={() => switchView(view)} className={`px-3 py-1.5 capitalize ${calendar.view === view ? 'bg-[var(--brand-purple)] text-white' : 'text-foreground/70 hover:bg-background'}`} aria-pressed={calendar.view === view}>
+              {view}
+            </button>
+          ))}
+        </div>
+        {calendar.view === 'week' && weekCount > 1 && (
+          <div className="flex items-center gap-2 text-xs font-semibold text-foreground/70">
+            <button onClick={() => setWeekPage(firstDay / 7 - 1)} disabled={firstDay === 0} className={buttonClasses} aria-label="Previous week">‹</button>
+            <span>Week {firstDay / 7 + 1} of {weekCount}</span>
+            <button onClick={() => setWeekPage(firstDay / 7 + 1)} disabled={firstDay / 7 >= weekCount - 1} className={buttonClasses} aria-label="Next week">›</button>
+          </div>
+        )}
+        <button onClick={() => downloadFile(contentCalendarFilename(calendar), contentCalendarToCsv(calendar), 'text/csv;charset=utf-8')} className={buttonClasses}>Export CSV</button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="grid grid-cols-7 gap-1.5 min-w-[42rem]">
+          {days.map(day => {
+            const date = addDays(calendar.startDate, day);
+            const posts = calendar.posts.map((post, index) => ({ post, index })).filter(({ post }) => post.day === day).sort((a, b) => a.post.time.localeCompare(b.post.time));
+            return (
+              <div
+                key={day}
+                onDragOver={(e) => { e.preventDefault(); setDropDay(day); }}
+                onDragLeave={() => setDropDay(current => (current === day ? null : current))}
+                onDrop={(e) => handleDrop(e, day)}
+                className={`flex flex-col min-h-[7rem] p-1.5 rounded-md border ${dropDay === day ? 'border-[var(--brand-purple)] bg-[var(--brand-purple)]/5' : 'border-surface-border bg-background'}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className={`text-[11px] font-semibold ${date === today ? 'text-brand-orange' : 'text-foreground/60'}`}>{formatCellDay(date)}</span>
+                  <button onClick={() => addPost(day)} className="p-0.5 rounded text-foreground/40 hover:text-foreground hover:bg-surface" aria-label={`Add a post on ${formatCellDay(date)}`}>
+                    <PlusIcon className="w-3 h-3" />
+                  </button>
+                </div>
+                <div className="space-y-1">
+                  {posts.map(({ post, index }) => (
+                    <button
+                      key={index}
+                      draggable
+                      onDragStart={(e) => { e.dataTransfer.setData('text/plain', String(index)); e.dataTransfer.effectAllowed = 'move'; }}
+                      onDragEnd={() => setDropDay(null)}
+                      onClick={() => setSelected(selected === index ? null : index)}
+                      className={`w-full text-left p-1.5 rounded border bg-surface cursor-grab active:cursor-grabbing ${selected === index ? 'border-[var(--brand-purple)]' : 'border-surface-border hover:border-foreground/30'}`}
+                    >
+                      <span className="flex items-center gap-1 text-[11px] font-bold text-foreground">
+                        <span className={`w-2 h-2 shrink-0 rounded-full ${STATUS_STYLES[post.status].className}`} title={STATUS_STYLES[post.status].label} />
+                        <span className="truncate">{[post.time, post.platform || 'New post'].filter(Boolean).join(' · ')}</span>
+                        {regenerating === index && <LoadingIcon className="w-3 h-3 ml-auto animate-spin" />}
+                      </span>
+                      {post.format && <span className="block text-[10px] text-foreground/60 truncate">{post.format}</span>}
+                      {post.caption && <span className="block text-[11px] text-foreground/80 line-clamp-2">{post.caption}</span>}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-foreground/60">
+        {POST_STATUSES.map(status => (
+          <span key={status} className="flex items-center gap-1.5">
+            <span className={`w-2 h-2 rounded-full ${STATUS_STYLES[status].className}`} />
+            {STATUS_STYLES[status].label}
+          </span>
+        ))}
+      </div>
+
+      {selected !== null && selectedPost && (
+        <div className="mt-4 bg-background p-4 rounded-lg">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-bold text-sm text-foreground">Edit post</h4>
+            <div className="flex items-center gap-2">
+              <button onClick={() => regenerate(selected)} disabled={regenerating !== null} className={buttonClasses}>
+                {regenerating === selected ? <LoadingIcon className="w-3.5 h-3.5 animate-spin" /> : <RefreshIcon className="w-3.5 h-3.5" />}
+                <span>{regenerating === selected ? 'Regenerating…' : 'Regenerate'}</span>
+              </button>
+              <button onClick={() => removePost(selected)} disabled={regenerating !== null} className="p-1 rounded-md text-foreground/50 hover:text-red-500 hover:bg-red-500/10 disabled:opacity-40" aria-label="Delete post">
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            <label className="text-xs font-medium text-foreground/70 space-y-1">
+              <span>Date</span>
+              <input type="date" value={addDays(calendar.startDate, selectedPost.day)} min={calendar.startDate} onChange={(e) => e.target.value && updatePost(selected, { day: Math.max(0, daysFrom(calendar.startDate, e.target.value)) })} className={inputClasses} />
+            </label>
+            <label className="text-xs font-medium text-foreground/70 space-y-1">
+              <span>Time</span>
+              <input type="time" value={selectedPost.time} onChange={(e) => updatePost(selected, { time: e.target.value })} className={inputClasses} />
+            </label>
+            <label className="text-xs font-medium text-foreground/70 space-y-1">
+              <span>Platform</span>
+              <input value={selectedPost.platform} onChange={(e) => updatePost(selected, { platform: e.target.value })} className={inputClasses} placeholder="TikTok" />
+            </label>
+            <label className="text-xs font-medium text-foreground/70 space-y-1">
+              <span>Pillar</span>
+              <input value={selectedPost.pillar} onChange={(e) => updatePost(selected, { pillar: e.target.value })} className={inputClasses} />
+            </label>
+            <label className="text-xs font-medium text-foreground/70 space-y-1">
+              <span>Format</span>
+              <input value={selectedPost.format} onChange={(e) => updatePost(selected, { format: e.target.value })} className={inputClasses} placeholder="Short video" />
+            </label>
+            <label className="text-xs font-medium text-foreground/70 space-y-1">
+              <span>Status</span>
+              <select value={selectedPost.status} onChange={(e) => updatePost(selected, { status: e.target.value as PostStatus })} className={inputClasses}>
+                {POST_STATUSES.map(status => <option key={status} value={status}>{STATUS_STYLES[status].label}</option>)}
+              </select>
+            </label>
+            <label className="col-span-2 md:col-span-6 text-xs font-medium text-foreground/70 space-y-1">
+              <span>Caption draft</span>
+              <textarea value={selectedPost.caption} onChange={(e) => updatePost(selected, { caption: e.target.value })} rows={3} className={inputClasses} />
+            </label>
+          </div>
+          {regenerateError && <p className="text-xs text-red-600 dark:text-red-400 mt-2">{regenerateError}</p>}
+        </div>
+      )}
+      {onDiscuss && <DiscussWithCoachButton label="Discuss my content plan with my coach" onClick={() => onDiscuss(calendar)} />}
+    </div>
+  );
+};
+
+export default ContentCalendar;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { SparklesIcon } from './icons/SparklesIcon.tsx';
+
+interface DiscussWithCoachButtonProps {
+  onClick: () => void;
+  label?: string;
+}
+
+// Shared footer action for interactive tools: sends the tool's current values to the coach.
+const DiscussWithCoachButton: React.FC<DiscussWithCoachButtonProps> = ({ onClick, label = 'Discuss these numbers with my coach' }) => (
+  <div className="flex justify-end mt-4">
+    <button
+      onClick={onClick}
+      className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold brand-cta shadow-sm transform hover:scale-105 active:scale-95"
+    >
+      <SparklesIcon className="w-4 h-4" />
+      <span>{label}</span>
+    </button>
+  </div>
+);
+
+export default DiscussWithCoachButton;
@@ -1,9 +1,93 @@
-import React from 'react';
-import { type ChatSession } from '../types.ts';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { type ChatSession, Role } from '../types.ts';
+import { createSearchIndex, searchMessages, syncSearchIndex } from '../utils/searchIndex.ts';
+import { type ChatSessionMeta, groupChatSessions, listFolders, listTags } from '../utils/chatSessions.ts';
+import ChatListItem from './ChatListItem.tsx';
 import { PlusIcon } from './icons/PlusIcon.tsx';
 import { LogoutIcon } from './icons/LogoutIcon.tsx';
-import { TrashIcon } from './icons/TrashIcon.tsx';
+import { ProfileIcon } from './icons/ProfileIcon.tsx';
+import { MemoryIcon } from './icons/MemoryIcon.tsx';
 import { LogoIcon } from './icons/LogoIcon.tsx';
+import { SearchIcon } from './icons/SearchIcon.tsx';
+import { CloseIcon } from './icons/CloseIcon.tsx';
+import { FolderIcon } from './icons/FolderIcon.tsx';
+import { EditIcon } from './icons/EditIcon.tsx';
+
+const DATE_FILTERS = [
+  { label: 'Any time', days: null },
+  { label: 'Past week', days: 7 },
+  { label: 'Past month', days: 30 },
+  { label: 'Past year', days: 365 },
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Hover delay before a chat's summary preview opens, so sweeping the pointer down the list doesn't flash previews.
+const PREVIEW_DELAY_MS = 400;
+
+const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="px-2.5 pt-3 pb-1 text-[11px] font-bold uppercase tracking-wider text-foreground/40">{children}</div>
+);
+
+const FolderSection: React.FC<{ name: string; count: number; onRename: (to: string) => void; children: React.ReactNode }> = ({ name, count, onRename, children }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [draft, setDraft] = useState<string | null>(null);
+  const renameCancelledRef = useRef(false);
+
+  const startRename = () => {
+    renameCancelledRef.current = false;
+    setDraft(name);
+  };
+
+  const finishRename = () => {
+    if (!renameCancelledRef.current && draft?.trim() && draft.trim() !== name) onRename(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <div className="pt-1">
+      <div className="group flex items-center">
+        {draft !== null ? (
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={finishRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') finishRename();
+              if (e.key === 'Escape') {
+                renameCancelledRef.current = true;
+                setDraft(null);
+              }
+            }}
+            aria-label="Folder name"
+            className="w-full px-2 py-1.5 rounded-lg bg-background border border-surface-border text-sm text-foreground"
+            autoFocus
+          />
+        ) : (
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            aria-expanded={isOpen}
+            className="w-full min-w-0 flex items-center gap-2 px-2.5 py-1.5 rounded-lg text-left text-sm font-semibold text-foreground/70 hover:bg-background"
+          >
+            <span className={`text-[10px] transition-transform ${isOpen ? 'rotate-90' : ''}`}>▶</span>
+            <FolderIcon className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{name}</span>
+            <span className="ml-auto text-xs font-medium text-foreground/40">{count}</span>
+          </button>
+        )}
+        {draft === null && (
+          <button
+            onClick={startRename}
+            className="p-1 rounded-md text-foreground/40 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-foreground hover:bg-background ml-1 flex-shrink-0"
+            aria-label={`Rename folder ${name}`}
+          >
+            <EditIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {isOpen && <div className="pl-3 space-y-1">{children}</div>}
+    </div>
+  );
+};
 
 interface HistorySidebarProps {
   isOpen: boolean;
@@ -12,8 +96,13 @@ interface HistorySidebarProps {
   activeChatId: string | null;
   onNewChat: () => void;
   onSelectChat: (id: string) => void;
+  onOpenSearchResult: (chatId: string, messageIndex: number) => void;
   onDeleteChat: (id: string) => void;
+  onUpdateChat: (id: string, meta: ChatSessionMeta) => void;
+  onRenameFolder: (from: string, to: string) => void;
   onLogout: () => void;
+  onEditProfile: () => void;
+  onOpenMemory: () => void;
   isAuthenticated: boolean;
   onSignUp: () => void;
 }
@@ -25,18 +114,86 @@ const HistorySidebar: React.FC<HistorySidebarProps> = ({
   activeChatId,
   onNewChat,
   onSelectChat,
+  onOpenSearchResult,
   onDeleteChat,
+  onUpdateChat,
+  onRenameFolder,
   onLogout,
+  onEditProfile,
+  onOpenMemory,
   isAuthenticated,
   onSignUp,
 }) => {
+  const [query, setQuery] = useState('');
+  const [dateFilter, setDateFilter] = useState<number | null>(null);
+
+  // The index lives as long as the sidebar and is caught up with every history change, re-tokenizing
+  // only the messages that were added or edited since the last sync.
+  const indexRef = useRef(createSearchIndex());
+  const titles = useMemo(() => {
+    syncSearchIndex(indexRef.current, chatHistory);
+    return new Map(chatHistory.map(chat => [chat.id, chat.title]));
+  }, [chatHistory]);
+
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const folders = useMemo(() => listFolders(chatHistory), [chatHistory]);
+  const tags = useMemo(() => listTags(chatHistory), [chatHistory]);
+  // A filter on a tag that no chat carries any more falls back to showing everything.
+  const activeTag = tagFilter && tags.includes(tagFilter) ? tagFilter : null;
+  const groups = useMemo(() => groupChatSessions(chatHistory, activeTag), [chatHistory, activeTag]);
+
+  // The preview sits beside the sidebar, level with the hovered chat. It is positioned against the sidebar
+  // itself, which unlike the scrolling chat list doesn't clip it.
+  const asideRef = useRef<HTMLElement>(null);
+  const previewTimerRef = useRef<number | undefined>(undefined);
+  const [preview, setPreview] = useState<{ chat: ChatSession; top: number } | null>(null);
+  useEffect(() => () => window.clearTimeout(previewTimerRef.current), []);
+
+  const previewChat = (chat: ChatSession, anchor: HTMLElement | null) => {
+    window.clearTimeout(previewTimerRef.current);
+    setPreview(null);
+    if (!anchor || !chat.summary || !asideRef.current) return;
+    const top = anchor.getBoundingClientRect().top - asideRef.current.getBoundingClientRect().top;
+    previewTimerRef.current = window.setTimeout(() => setPreview({ chat, top }), PREVIEW_DELAY_MS);
+  };
+
+  const renderChat = (chat: ChatSession) => (
+    <ChatListItem
+      key={chat.id}
+      chat={chat}
+      isActive={activeChatId === chat.id}
+      folders={folders}
+      onSelect={() => onSelectChat(chat.id)}
+      onDelete={() => onDeleteChat(chat.id)}
+      onUpdate={(meta) => onUpdateChat(chat.id, meta)}
+      onPreview={(anchor) => previewChat(chat, anchor)}
+    />
+  );
+
+  const isSearching = query.trim().length > 0;
+  const results = useMemo(
+    () => isSearching ? searchMessages(indexRef.current, query, { since: dateFilter === null ? undefined : Date.now() - dateFilter * DAY_MS }) : [],
+    [isSearching, query, dateFilter, titles],
+  );
+
   return (
     <>
       <aside
+        ref={asideRef}
         className={`fixed md:relative md:translate-x-0 inset-y-0 left-0 z-30 w-72 bg-surface border-r border-surface-border transform ${
           isOpen ? 'translate-x-0' : '-translate-x-full'
         } transition-transform duration-300 ease-in-out flex flex-col`}
       >
+        {preview && (
+          <div
+            role="tooltip"
+            className="hidden md:block absolute left-full ml-2 z-40 w-72 p-3 rounded-lg border border-surface-border bg-surface shadow-lg pointer-events-none animate-fade-in"
+            style={{ top: preview.top }}
+          >
+            <p className="text-sm font-semibold text-foreground mb-1">{preview.chat.title}</p>
+            <p className="text-xs text-foreground/70 leading-relaxed">{preview.chat.summary}</p>
+          </div>
+        )}
         <div className="p-4 border-b border-surface-border flex justify-between items-center">
           <div className="flex items-center gap-2">
             <LogoIcon className="w-8 h-8 text-brand-orange"/>
@@ -54,34 +211,110 @@ const HistorySidebar: React.FC<HistorySidebarProps> = ({
             New Chat
             </button>
         </div>
-        
+
+        {isAuthenticated && chatHistory.length > 0 && (
+          <div className="px-2 pb-2 space-y-2">
+            <div className="relative">
+              <SearchIcon className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-foreground/40 pointer-events-none" />
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') setQuery(''); }}
+                placeholder="Search your chats"
+                aria-label="Search your chats"
+                className="w-full pl-8 pr-8 py-2 rounded-lg bg-background border border-surface-border text-sm text-foreground placeholder:text-foreground/40 [&::-webkit-search-cancel-button]:hidden"
+              />
+              {isSearching && (
+                <button onClick={() => setQuery('')} className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded text-foreground/40 hover:text-foreground" aria-label="Clear search">
+                  <CloseIcon className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            {isSearching && (
+              <div className="flex flex-wrap gap-1" role="group" aria-label="Date filter">
+                {DATE_FILTERS.map(filter => (
+                  <button
+                    key={filter.label}
+                    onClick={() => setDateFilter(filter.days)}
+                    aria-pressed={dateFilter === filter.days}
+                    className={`px-2 py-0.5 rounded-full text-xs font-medium border ${
+                      dateFilter === filter.days
+                        ? 'bg-brand-orange-dark-accessible border-transparent text-white'
+                        : 'border-surface-border text-foreground/60 hover:bg-background'
+                    }`}
+                  >
+                    {filter.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
 
         <nav className="flex-1 overflow-y-auto p-2 space-y-1">
-          {isAuthenticated ? (
-            chatHistory.map((chat) => (
-              <div key={chat.id} className="group flex items-center">
+          {isAuthenticated && isSearching ? (
+            results.length > 0 ? (
+              results.map((hit) => (
                 <button
-                  onClick={() => onSelectChat(chat.id)}
-                  className={`w-full text-left p-2.5 rounded-lg truncate text-sm font-medium ${
-                    activeChatId === chat.id
-                      ? 'bg-brand-orange-dark-accessible text-white font-bold'
-                      : 'hover:bg-background text-foreground/80'
-                  }`}
-                >
-                  {chat.title}
-                </button>
-                <button 
-                  onClick={(e) => {
-                      e.stopPropagation();
-                      onDeleteChat(chat.id)
-                  }}
-                  className="p-1 rounded-md text-foreground/40 opacity-0 group-hover:opacity-100 hover:text-red-500 hover:bg-red-500/10 ml-1 flex-shrink-0"
-                  aria-label="Delete chat"
+                  key={`${hit.chatId}-${hit.messageIndex}`}
+                  onClick={() => onOpenSearchResult(hit.chatId, hit.messageIndex)}
+                  className="w-full text-left p-2.5 rounded-lg hover:bg-background"
                 >
-                  <TrashIcon />
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-sm font-semibold text-foreground truncate">{titles.get(hit.chatId)}</span>
+                    <span className="text-xs text-foreground/50 flex-shrink-0">{new Date(hit.timestamp).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                  </div>
+                  <p className="mt-0.5 text-xs text-foreground/70 line-clamp-3 break-words">
+                    <span className="font-medium text-foreground/50">{hit.role === Role.User ? 'You: ' : 'Coach: '}</span>
+                    {hit.snippet.map((part, i) =>
+                      part.match
+                        ? <mark key={i} className="bg-brand-orange/25 text-foreground rounded-sm px-0.5">{part.text}</mark>
+                        : <React.Fragment key={i}>{part.text}</React.Fragment>,
+                    )}
+                  </p>
                 </button>
+              ))
+            ) : (
+              <div className="text-center text-sm text-foreground/50 p-4">
+                No messages match "{query.trim()}"{dateFilter !== null ? ' in that time range' : ''}.
               </div>
-            ))
+            )
+          ) : isAuthenticated ? (
+            <>
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 px-1 pb-2" role="group" aria-label="Filter by tag">
+                  {tags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => setTagFilter(activeTag === tag ? null : tag)}
+                      aria-pressed={activeTag === tag}
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium border ${
+                        activeTag === tag
+                          ? 'bg-brand-orange-dark-accessible border-transparent text-white'
+                          : 'border-surface-border text-foreground/60 hover:bg-background'
+                      }`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {groups.pinned.length > 0 && (
+                <SectionLabel>Pinned</SectionLabel>
+              )}
+              {groups.pinned.map(renderChat)}
+              {groups.folders.map(folder => (
+                <FolderSection key={folder.name} name={folder.name} count={folder.chats.length} onRename={(to) => onRenameFolder(folder.name, to)}>
+                  {folder.chats.map(renderChat)}
+                </FolderSection>
+              ))}
+              {groups.unfiled.length > 0 && (groups.pinned.length > 0 || groups.folders.length > 0) && (
+                <SectionLabel>Chats</SectionLabel>
+              )}
+              {groups.unfiled.map(renderChat)}
+            </>
           ) : (
             <div className="text-center text-sm text-foreground/50 p-4">
               Sign up to save and view your chat history.
@@ -91,10 +324,20 @@ const HistorySidebar: React.FC<HistorySidebarProps> = ({
         
         <div className="p-2 border-t border-surface-border">
             {isAuthenticated ? (
-              <button onClick={onLogout} className="w-full flex items-center gap-3 p-3 rounded-lg hover:bg-background text-foreground/80 text-sm font-medium">
-                  <LogoutIcon />
-                  <span>Logout</span>
-              </button>
+              <>
+                <button onClick={onEditProfile} className="w-full flex items-center gap-3 p-3 rounded-lg hover:bg-background text-foreground/80 text-sm font-medium">
+                    <ProfileIcon />
+                    <span>Artist Profile</span>
+                </button>
+                <button onClick={onOpenMemory} className="w-full flex items-center gap-3 p-3 rounded-lg hover:bg-background text-foreground/80 text-sm font-medium">
+                    <MemoryIcon />
+                    <span>Coach Memory</span>
+                </button>
+                <button onClick={onLogout} className="w-full flex items-center gap-3 p-3 rounded-lg hover:bg-background text-foreground/80 text-sm font-medium">
+                    <LogoutIcon />
+                    <span>Logout</span>
+                </button>
+              </>
             ) : (
               <div className="space-y-2">
                 <button onClick={onSignUp} className="w-full flex items-center justify-center gap-3 p-3 rounded-lg brand-cta text-white text-sm font-bold">
@@ -1,121 +1,343 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, ChangeEvent } from 'react';
 import { InfoIcon } from './icons/InfoIcon.tsx';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import DiscussWithCoachButton from './DiscussWithCoachButton.tsx';
+import { type BudgetLine, type BudgetTableData, type BudgetTableState, createBudgetSheet } from '../core/tools/budgetTable.ts';
+import { type ToolViewProps } from '../core/tools/types.ts';
+import {
+  normalizeBudgetSheet,
+  groupByCategory,
+  sumPlanned,
+  sumActual,
+  hasActuals,
+  moveLine,
+  newLineId,
+  parseAmount,
+  roundMoney,
+  budgetSheetToCsv,
+  budgetSheetFromCsv,
+  budgetSheetToJson,
+  budgetSheetFromJson,
+} from '../utils/budgetSheet.ts';
+import { downloadFile } from '../utils/download.ts';
 
-interface BudgetRow {
-  item: string;
-  low: number;
-  high: number;
-  estimate: number;
-}
-
-interface InteractiveBudgetTableProps {
-  data: {
-    headers: string[];
-    rows: BudgetRow[];
+type InteractiveBudgetTableProps = ToolViewProps<BudgetTableData, BudgetTableState>;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatVariance = (value: number) => (value > 0 ? `+${formatCurrency(value)}` : formatCurrency(value));
+
+// Over plan is bad news, under plan is good news.
+const varianceClasses = (value: number) =>
+  value > 0 ? 'text-red-600 dark:text-red-400' : value < 0 ? 'text-green-600 dark:text-green-400' : 'text-foreground/60';
+
+const inputClasses = 'rounded-md border-surface-border bg-background py-1.5 text-foreground shadow-sm focus:border-[var(--brand-purple)] focus:ring-0';
+const iconButtonClasses = 'p-1 rounded-md text-foreground/50 hover:text-foreground hover:bg-background disabled:opacity-30 disabled:cursor-not-allowed';
+const footerButtonClasses = 'flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-surface-border text-xs font-semibold text-foreground/80 hover:bg-background';
+
+const AmountInput: React.FC<{ value: number | undefined; onChange: (value: number | undefined) => void; label: string; placeholder?: string }> = ({ value, onChange, label, placeholder = '0' }) => (
+  <div className="relative">
+    <span className="absolute left-2.5 top-1/2 -translate-y-1/2 text-foreground/50">$</span>
+    <input
+      type="number"
+      step="0.01"
+      min={0}
+      value={value === undefined || value === 0 ? '' : value}
+      onChange={(e: ChangeEvent<HTMLInputElement>) => onChange(e.target.value.trim() === '' ? undefined : parseAmount(e.target.value))}
+      onFocus={(e) => e.target.select()}
+      className={`w-28 pl-6 pr-2 ${inputClasses}`}
+      placeholder={placeholder}
+      aria-label={label}
+    />
+  </div>
+);
+
+const InteractiveBudgetTable: React.FC<InteractiveBudgetTableProps> = ({ data, state, onStateChange, onDiscuss }) => {
+  const [sheet, setSheet] = useState<BudgetTableState>(() => normalizeBudgetSheet(state ?? createBudgetSheet(data)));
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const { scenarios, lines, baseline } = sheet;
+  const categories = useMemo(() => groupByCategory(lines), [lines]);
+  const showActuals = hasActuals(lines);
+
+  const commit = (next: BudgetTableState) => {
+    setSheet(next);
+    onStateChange?.(next);
+  };
+
+  const updateLine = (id: string, changes: Partial<BudgetLine>) => {
+    commit({ ...sheet, lines: sheet.lines.map(line => (line.id === id ? { ...line, ...changes } : line)) });
+  };
+
+  const updatePlanned = (line: BudgetLine, scenario: number, value: number | undefined) => {
+    updateLine(line.id, { planned: line.planned.map((amount, i) => (i === scenario ? value ?? 0 : amount)) });
+  };
+
+  const updateActual = (line: BudgetLine, value: number | undefined) => {
+    const { actual: _actual, ...rest } = line;
+    commit({ ...sheet, lines: sheet.lines.map(l => (l.id === line.id ? (value === undefined ? rest : { ...rest, actual: value }) : l)) });
+  };
+
+  const addLine = (category: string) => {
+    const line: BudgetLine = { id: newLineId(), category, item: '', low: 0, high: 0, planned: scenarios.map(() => 0) };
+    // New lines go at the end of their category so the group stays together.
+    const lastIndex = lines.map(l => l.category).lastIndexOf(category);
+    const nextLines = lastIndex === -1 ? [...lines, line] : [...lines.slice(0, lastIndex + 1), line, ...lines.slice(lastIndex + 1)];
+    commit({ ...sheet, lines: nextLines });
+  };
+
+  const addCategory = () => {
+    const existing = new Set(categories.map(category => category.name));
+    let name = 'New Category';
+    for (let n = 2; existing.has(name); n++) name = `New Category ${n}`;
+    addLine(name);
+  };
+
+  const renameCategory = (from: string, to: string) => {
+    commit({ ...sheet, lines: lines.map(line => (line.category === from ? { ...line, category: to } : line)) });
+  };
+
+  const addScenario = () => {
+    // A new scenario starts as a copy of the baseline plan, ready to be trimmed or expanded.
+    commit({
+      ...sheet,
+      scenarios: [...scenarios, `Scenario ${scenarios.length + 1}`],
+      lines: lines.map(line => ({ ...line, planned: [...line.planned, line.planned[baseline] ?? 0] })),
+    });
   };
-}
 
-const InteractiveBudgetTable: React.FC<InteractiveBudgetTableProps> = ({ data }) => {
-  const initialEstimates = data.rows.map(row => row.estimate);
-  const [estimates, setEstimates] = useState<number[]>(initialEstimates);
+  const renameScenario = (index: number, name: string) => {
+    commit({ ...sheet, scenarios: scenarios.map((scenario, i) => (i === index ? name : scenario)) });
+  };
 
-  const handleEstimateChange = (index: number, value: string) => {
-    const newEstimates = [...estimates];
-    const parsedValue = parseInt(value, 10);
-    newEstimates[index] = isNaN(parsedValue) ? 0 : parsedValue;
-    setEstimates(newEstimates);
+  const removeScenario = (index: number) => {
+    if (scenarios.length <= 1) return;
+    commit(normalizeBudgetSheet({
+      scenarios: scenarios.filter((_, i) => i !== index),
+      lines: lines.map(line => ({ ...line, planned: line.planned.filter((_, i) => i !== index) })),
+      baseline: baseline > index ? baseline - 1 : baseline === index ? 0 : baseline,
+    }));
   };
 
-  const total = useMemo(() => {
-    return estimates.reduce((acc, current) => acc + (current || 0), 0);
-  }, [estimates]);
-
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    const result = file.name.toLowerCase().endsWith('.json') ? budgetSheetFromJson(text) : budgetSheetFromCsv(text);
+    if (result.ok === false) {
+      setImportError(result.error);
+      return;
+    }
+    setImportError(null);
+    commit(result.data);
   };
 
+  const totalActual = sumActual(lines);
+  const columnCount = 2 + scenarios.length + (showActuals ? 2 : 1) + 1;
+
   return (
-    <div className="my-6 rounded-lg border-surface-border overflow-hidden">
-      <div className="overflow-x-auto bg-surface">
+    <div className="my-6 rounded-lg border border-surface-border overflow-hidden bg-surface">
+      <div className="flex flex-wrap items-center gap-2 p-3 border-b border-surface-border text-sm">
+        <span className="font-semibold text-foreground/70">Scenarios:</span>
+        {scenarios.map((name, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <input
+              value={name}
+              onChange={(e) => renameScenario(i, e.target.value)}
+              className={`w-32 px-2 text-sm ${inputClasses}`}
+              aria-label={`Scenario ${i + 1} name`}
+            />
+            {scenarios.length > 1 && (
+              <button onClick={() => removeScenario(i)} className={iconButtonClasses} aria-label={`Remove scenario ${name}`}>
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+        <button onClick={addScenario} className={footerButtonClasses}>
+          <PlusIcon className="w-3.5 h-3.5" />
+          <span>Add scenario</span>
+        </button>
+        {scenarios.length > 1 && (
+          <label className="flex items-center gap-2 ml-auto text-foreground/70">
+            <span>Track spend against</span>
+            <select
+              value={baseline}
+              onChange={(e) => commit({ ...sheet, baseline: Number(e.target.value) })}
+              className={`px-2 text-sm ${inputClasses}`}
+            >
+              {scenarios.map((name, i) => <option key={i} value={i}>{name || `Scenario ${i + 1}`}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
         <table className="min-w-full text-sm">
-          <thead className="hidden md:table-header-group bg-background text-left">
+          <thead className="bg-background text-left">
             <tr>
-              {data.headers.map((header, i) => (
-                <th key={i} scope="col" className="px-4 py-3 font-semibold text-foreground/70 tracking-wide">
+              <th scope="col" className="px-3 py-3 font-semibold text-foreground/70 tracking-wide">{data.headers[0] || 'Item'}</th>
+              <th scope="col" className="px-3 py-3 font-semibold text-foreground/70 tracking-wide">Industry Range</th>
+              {scenarios.map((name, i) => (
+                <th key={i} scope="col" className="px-3 py-3 font-semibold text-foreground/70 tracking-wide">
                   <div className="flex items-center gap-1.5">
-                    <span>{header}</span>
-                    {header.includes('Estimate') && (
+                    <span>{name || `Scenario ${i + 1}`}</span>
+                    {i === 0 && (
                       <div className="group relative">
                         <InfoIcon className="w-4 h-4 text-foreground/50" />
                         <span className="absolute z-10 bottom-full mb-2 w-48 rounded-md bg-black px-2 py-1 text-xs text-white opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
-                          You can edit these values to calculate your own budget.
+                          Edit, add and remove lines to make this budget your own.
                         </span>
                       </div>
                     )}
                   </div>
                 </th>
               ))}
+              <th scope="col" className="px-3 py-3 font-semibold text-foreground/70 tracking-wide">Actual Spend</th>
+              {showActuals && <th scope="col" className="px-3 py-3 font-semibold text-foreground/70 tracking-wide">Variance</th>}
+              <th scope="col" className="px-3 py-3"><span className="sr-only">Actions</span></th>
             </tr>
           </thead>
-          <tbody className="block md:table-row-group divide-y divide-surface-border">
-            {data.rows.map((row, i) => (
-              <tr key={i} className="block p-4 md:p-0 md:table-row">
-                {/* Item */}
-                <td data-label={data.headers[0]} className="grid grid-cols-2 items-center py-1 md:py-3 md:px-4 md:table-cell">
-                  <span className="font-semibold text-sm text-foreground/80 md:hidden">{data.headers[0]}</span>
-                  <span className="font-medium text-foreground text-left">{row.item}</span>
-                </td>
-                {/* Low End */}
-                 <td data-label={data.headers[1]} className="grid grid-cols-2 items-center py-1 md:py-3 md:px-4 md:table-cell">
-                  <span className="font-semibold text-sm text-foreground/80 md:hidden">{data.headers[1]}</span>
-                  <span className="text-foreground/80 text-left">{formatCurrency(row.low)}</span>
-                </td>
-                {/* High End */}
-                 <td data-label={data.headers[2]} className="grid grid-cols-2 items-center py-1 md:py-3 md:px-4 md:table-cell">
-                  <span className="font-semibold text-sm text-foreground/80 md:hidden">{data.headers[2]}</span>
-                  <span className="text-foreground/80 text-left">{formatCurrency(row.high)}</span>
-                </td>
-                {/* My Example Estimate */}
-                <td data-label={data.headers[3]} className="grid grid-cols-2 items-center py-2 md:py-3 md:px-4 md:table-cell">
-                   <span className="font-semibold text-sm text-foreground/80 md:hidden">{data.headers[3]}</span>
-                  <div className="relative justify-self-start">
-                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-foreground/50">$</span>
+          {categories.map(category => {
+            const subtotalActual = sumActual(category.lines);
+            return (
+              <tbody key={category.name} className="divide-y divide-surface-border border-t border-surface-border">
+                <tr className="bg-background/50">
+                  <td colSpan={2} className="px-3 py-2">
                     <input
-                      type="number"
-                      value={estimates[i] === 0 ? '' : estimates[i]}
-                      id={`estimate-${i}`}
-                      onChange={(e) => handleEstimateChange(i, e.target.value)}
-                      onFocus={(e) => e.target.select()}
-                      className="w-32 rounded-md border-surface-border bg-background py-2 pl-6 pr-2 text-foreground shadow-sm focus:border-[var(--brand-purple)] focus:ring-0"
-                      placeholder="0"
-                      aria-label={`Estimate for ${row.item}`}
+                      defaultValue={category.name}
+                      onBlur={(e) => {
+                        const name = e.target.value.trim();
+                        if (name && name !== category.name) renameCategory(category.name, name);
+                        else e.target.value = category.name;
+                      }}
+                      className="w-full bg-transparent font-bold text-foreground border-0 p-0 focus:ring-0"
+                      aria-label={`Category name: ${category.name}`}
                     />
-                  </div>
-                </td>
+                  </td>
+                  {scenarios.map((_, i) => (
+                    <td key={i} className="px-3 py-2 font-semibold text-foreground/80">{formatCurrency(sumPlanned(category.lines, i))}</td>
+                  ))}
+                  <td className="px-3 py-2 font-semibold text-foreground/80">{hasActuals(category.lines) ? formatCurrency(subtotalActual) : '—'}</td>
+                  {showActuals && (
+                    <td className={`px-3 py-2 font-semibold ${varianceClasses(subtotalActual - sumPlanned(category.lines, baseline))}`}>
+                      {hasActuals(category.lines) ? formatVariance(roundMoney(subtotalActual - sumPlanned(category.lines, baseline))) : '—'}
+                    </td>
+                  )}
+                  <td className="px-3 py-2 text-right">
+                    <button onClick={() => addLine(category.name)} className={iconButtonClasses} aria-label={`Add item to ${category.name}`} title="Add item">
+                      <PlusIcon className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+                {category.lines.map((line, lineIndex) => (
+                  <tr key={line.id} className="hover:bg-background/30">
+                    <td className="px-3 py-2">
+                      <input
+                        value={line.item}
+                        onChange={(e) => updateLine(line.id, { item: e.target.value })}
+                        className={`w-48 px-2 ${inputClasses}`}
+                        placeholder="Line item"
+                        aria-label="Line item name"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-foreground/70 whitespace-nowrap">
+                      {line.low || line.high ? `${formatCurrency(line.low)} – ${formatCurrency(line.high)}` : '—'}
+                    </td>
+                    {scenarios.map((name, i) => (
+                      <td key={i} className="px-3 py-2">
+                        <AmountInput value={line.planned[i]} onChange={(value) => updatePlanned(line, i, value)} label={`${name} amount for ${line.item || 'line item'}`} />
+                      </td>
+                    ))}
+                    <td className="px-3 py-2">
+                      <AmountInput value={line.actual} onChange={(value) => updateActual(line, value)} label={`Actual spend for ${line.item || 'line item'}`} placeholder="—" />
+                    </td>
+                    {showActuals && (
+                      <td className={`px-3 py-2 whitespace-nowrap ${line.actual !== undefined ? varianceClasses(line.actual - line.planned[baseline]) : ''}`}>
+                        {line.actual !== undefined ? formatVariance(roundMoney(line.actual - line.planned[baseline])) : ''}
+                      </td>
+                    )}
+                    <td className="px-3 py-2">
+                      <div className="flex items-center justify-end gap-0.5">
+                        <button onClick={() => commit({ ...sheet, lines: moveLine(lines, line.id, -1) })} disabled={lineIndex === 0} className={iconButtonClasses} aria-label="Move up">↑</button>
+                        <button onClick={() => commit({ ...sheet, lines: moveLine(lines, line.id, 1) })} disabled={lineIndex === category.lines.length - 1} className={iconButtonClasses} aria-label="Move down">↓</button>
+                        <select
+                          value={line.category}
+                          onChange={(e) => updateLine(line.id, { category: e.target.value })}
+                          className="w-6 p-0 bg-transparent border-0 text-foreground/50 focus:ring-0 cursor-pointer"
+                          aria-label="Move to category"
+                          title="Move to category"
+                        >
+                          {categories.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                        </select>
+                        <button onClick={() => commit({ ...sheet, lines: lines.filter(l => l.id !== line.id) })} className={`${iconButtonClasses} hover:text-red-500`} aria-label={`Delete ${line.item || 'line item'}`}>
+                          <TrashIcon className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            );
+          })}
+          <tfoot className="bg-background border-t-2 border-surface-border">
+            {lines.length === 0 ? (
+              <tr>
+                <td colSpan={columnCount} className="px-3 py-4 text-center text-foreground/60">No line items yet. Add a category to start.</td>
               </tr>
-            ))}
-          </tbody>
-           <tfoot className="bg-background/80 backdrop-blur-sm sticky bottom-0 md:static">
-              <tr className="block p-4 md:p-0 md:table-row">
-                {/* Mobile Total */}
-                <td className="grid grid-cols-2 items-center md:hidden">
-                    <span className="font-bold text-foreground">Total Estimate</span>
-                    <span className="font-bold text-brand-orange dark:text-orange-400 text-lg text-left">{formatCurrency(total)}</span>
-                </td>
-                {/* Desktop Total */}
-                <td colSpan={data.headers.length - 1} className="hidden md:table-cell px-4 py-3 text-right font-bold text-foreground">Total Estimate</td>
-                <td className="hidden md:table-cell px-4 py-3 font-bold text-brand-orange dark:text-orange-400 text-lg text-left">{formatCurrency(total)}</td>
+            ) : (
+              <tr>
+                <td colSpan={2} className="px-3 py-3 font-bold text-foreground">Total</td>
+                {scenarios.map((_, i) => (
+                  <td key={i} className={`px-3 py-3 font-bold text-lg ${i === baseline ? 'text-brand-orange dark:text-orange-400' : 'text-foreground'}`}>
+                    {formatCurrency(sumPlanned(lines, i))}
+                  </td>
+                ))}
+                <td className="px-3 py-3 font-bold text-foreground">{showActuals ? formatCurrency(totalActual) : '—'}</td>
+                {showActuals && (
+                  <td className={`px-3 py-3 font-bold ${varianceClasses(totalActual - sumPlanned(lines, baseline))}`}>
+                    {formatVariance(roundMoney(totalActual - sumPlanned(lines, baseline)))}
+                  </td>
+                )}
+                <td></td>
               </tr>
+            )}
           </tfoot>
         </table>
       </div>
+
+      <div className="flex flex-wrap items-center gap-2 p-3 border-t border-surface-border">
+        <button onClick={addCategory} className={footerButtonClasses}>
+          <PlusIcon className="w-3.5 h-3.5" />
+          <span>Add category</span>
+        </button>
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          <button onClick={() => downloadFile('release-budget.csv', budgetSheetToCsv(sheet), 'text/csv')} className={footerButtonClasses}>Export CSV</button>
+          <button onClick={() => downloadFile('release-budget.json', budgetSheetToJson(sheet), 'application/json')} className={footerButtonClasses}>Export JSON</button>
+          <button onClick={() => importInputRef.current?.click()} className={footerButtonClasses}>Import</button>
+          <input ref={importInputRef} type="file" accept=".csv,.json,text/csv,application/json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+      {importError && (
+        <p className="mx-3 mb-3 p-2 rounded-md bg-red-500/10 text-sm text-red-700 dark:text-red-300">{importError}</p>
+      )}
+      {onDiscuss && (
+        <div className="px-3 pb-3">
+          <DiscussWithCoachButton onClick={() => onDiscuss(sheet)} />
+        </div>
+      )}
     </div>
   );
 };
 
-export default InteractiveBudgetTable;
\ No newline at end of file
+export default InteractiveBudgetTable;
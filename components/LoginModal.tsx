@@ -5,12 +5,14 @@ import { CloseIcon } from './icons/CloseIcon.tsx';
 interface LoginModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onLogin: (email: string) => boolean;
+  onLogin: (email: string, password: string) => Promise<string | null>;
   onSwitchToSignUp: () => void;
 }
 
 const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onLogin, onSwitchToSignUp }) => {
   const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
   if (!isOpen) return null;
@@ -22,17 +24,22 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onLogin, onSwi
     } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
       newErrors.email = 'Please enter a valid email address.';
     }
+    if (!password) {
+      newErrors.password = 'Password is required.';
+    }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!validate()) return;
+    if (!validate() || isSubmitting) return;
 
-    const success = onLogin(email);
-    if (!success) {
-        setErrors({ form: 'No account found with that email. Please sign up.' });
+    setIsSubmitting(true);
+    const loginError = await onLogin(email, password);
+    setIsSubmitting(false);
+    if (loginError) {
+        setErrors({ form: loginError });
     } else {
         setErrors({});
         handleClose();
@@ -41,6 +48,7 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onLogin, onSwi
 
   const handleClose = () => {
     setEmail('');
+    setPassword('');
     setErrors({});
     onClose();
   };
@@ -73,14 +81,19 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onLogin, onSwi
           <form onSubmit={handleSubmit} className="space-y-4" noValidate>
             <div>
               <label htmlFor="login-email" className="block text-sm font-medium text-foreground/80 mb-1">Email Address</label>
-              <input type="email" id="login-email" value={email} onChange={(e) => setEmail(e.target.value)} className={`w-full p-3 bg-background border rounded-lg focus:ring-0 text-foreground ${errors.email || errors.form ? 'border-red-500 dark:border-red-400 input-error' : 'border-surface-border'}`} aria-describedby="email-error form-error" required />
+              <input type="email" id="login-email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} className={`w-full p-3 bg-background border rounded-lg focus:ring-0 text-foreground ${errors.email || errors.form ? 'border-red-500 dark:border-red-400 input-error' : 'border-surface-border'}`} aria-describedby="email-error form-error" required />
               {errors.email && <p id="email-error" className="text-red-600 dark:text-red-400 text-xs mt-1.5">{errors.email}</p>}
             </div>
+            <div>
+              <label htmlFor="login-password" className="block text-sm font-medium text-foreground/80 mb-1">Password</label>
+              <input type="password" id="login-password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} className={`w-full p-3 bg-background border rounded-lg focus:ring-0 text-foreground ${errors.password || errors.form ? 'border-red-500 dark:border-red-400 input-error' : 'border-surface-border'}`} aria-describedby="password-error form-error" required />
+              {errors.password && <p id="password-error" className="text-red-600 dark:text-red-400 text-xs mt-1.5">{errors.password}</p>}
+            </div>
             
-            {errors.form && <p id="form-error" className="text-red-600 dark:text-red-400 text-sm text-center">{errors.form}</p>}
+            {errors.form && <p id="form-error" role="alert" className="text-red-600 dark:text-red-400 text-sm text-center">{errors.form}</p>}
 
-            <button type="submit" className="w-full brand-cta text-white font-bold py-3 px-6 rounded-lg shadow-md transform hover:scale-105 mt-2">
-              Log In
+            <button type="submit" disabled={isSubmitting} className="w-full brand-cta text-white font-bold py-3 px-6 rounded-lg shadow-md transform hover:scale-105 mt-2">
+              {isSubmitting ? 'Logging In...' : 'Log In'}
             </button>
           </form>
           
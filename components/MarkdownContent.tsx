@@ -0,0 +1,197 @@
+import React, { memo, useMemo } from 'react';
+import { InfoIcon } from './icons/InfoIcon.tsx';
+import { CheckIcon } from './icons/CheckIcon.tsx';
+import { type BlockNode, type InlineNode, type ListItemNode, type CalloutKind, parseMarkdown, safeHref } from '../utils/markdown.ts';
+
+const Inlines: React.FC<{ nodes: InlineNode[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text':
+          return <React.Fragment key={i}>{node.value}</React.Fragment>;
+        case 'strong':
+          return <strong key={i}><Inlines nodes={node.children} /></strong>;
+        case 'emphasis':
+          return <em key={i}><Inlines nodes={node.children} /></em>;
+        case 'delete':
+          return <del key={i}><Inlines nodes={node.children} /></del>;
+        case 'inlineCode':
+          return <code key={i} className="bg-background border border-surface-border rounded px-1.5 py-1 text-sm font-mono">{node.value}</code>;
+        case 'link':
+          return (
+            <a key={i} href={safeHref(node.href)} title={node.title ?? undefined} target="_blank" rel="noopener noreferrer" className="font-medium text-brand-purple dark:text-violet-400 underline underline-offset-2 hover:no-underline">
+              <Inlines nodes={node.children} />
+            </a>
+          );
+        case 'image':
+          // Images are linked rather than loaded, so a reply can't pull in arbitrary remote content.
+          return (
+            <a key={i} href={safeHref(node.src)} title={node.title ?? undefined} target="_blank" rel="noopener noreferrer" className="font-medium text-brand-purple dark:text-violet-400 underline underline-offset-2 hover:no-underline">
+              {node.alt || node.src}
+            </a>
+          );
+        case 'break':
+        case 'softBreak':
+          return <br key={i} />;
+      }
+    })}
+  </>
+);
+
+const CALLOUTS: Record<CalloutKind, { className: string; icon: React.ReactNode }> = {
+  tip: {
+    className: 'bg-brand-orange/10 dark:bg-brand-orange/20 border-brand-orange dark:border-orange-400',
+    icon: <span className="text-xl mt-1" role="img" aria-label="tip">✨</span>,
+  },
+  important: {
+    className: 'bg-blue-500/10 dark:bg-blue-400/20 border-blue-500 dark:border-blue-400',
+    icon: <InfoIcon className="w-5 h-5 text-blue-500 dark:text-blue-400 mt-0.5 shrink-0" />,
+  },
+  action: {
+    className: 'bg-brand-purple/10 dark:bg-brand-purple/20 border-brand-purple dark:border-violet-400',
+    icon: <CheckIcon className="w-5 h-5 text-brand-purple dark:text-violet-400 mt-0.5 shrink-0" />,
+  },
+};
+
+// Headings of the first three levels always lead with an emoji: the model's own, or a default.
+const HEADING_STYLES = [
+  { defaultEmoji: '🎵', className: 'flex items-start text-2xl font-extrabold mt-6 mb-4 border-b-2 pb-3 border-surface-border', emojiClassName: 'mr-3 text-2xl leading-tight' },
+  { defaultEmoji: '💡', className: 'flex items-start text-xl font-extrabold mt-6 mb-3', emojiClassName: 'mr-3 text-xl leading-tight' },
+  { defaultEmoji: '✅', className: 'flex items-start text-lg font-semibold mt-5 mb-2 text-brand-purple dark:text-violet-400', emojiClassName: 'mr-2.5 text-lg leading-tight' },
+];
+
+const Heading: React.FC<{ node: BlockNode & { type: 'heading' } }> = ({ node }) => {
+  const Tag = `h${node.depth}` as 'h1';
+  const style = HEADING_STYLES[node.depth - 1];
+  if (!style) {
+    return (
+      <Tag className="text-base font-semibold mt-4 mb-2">
+        {node.emoji && <span className="mr-2">{node.emoji}</span>}
+        <Inlines nodes={node.children} />
+      </Tag>
+    );
+  }
+  return (
+    <Tag className={style.className}>
+      <span className={style.emojiClassName}>{node.emoji ?? style.defaultEmoji}</span>
+      <span className="flex-1 leading-tight"><Inlines nodes={node.children} /></span>
+    </Tag>
+  );
+};
+
+// Items of a tight list hold their paragraphs inline, without paragraph spacing.
+const ItemContent: React.FC<{ item: ListItemNode; tight: boolean }> = ({ item, tight }) => (
+  <div className="flex-1 min-w-0 leading-relaxed">
+    {item.children.map((child, i) =>
+      tight && child.type === 'paragraph'
+        ? <div key={i}><Inlines nodes={child.children} /></div>
+        : <Block key={i} node={child} nested />,
+    )}
+  </div>
+);
+
+const List: React.FC<{ node: BlockNode & { type: 'list' }; nested?: boolean }> = ({ node, nested }) => {
+  const spacing = nested ? 'mt-2 mb-1' : 'my-4';
+  if (node.ordered) {
+    return (
+      <ol className={`${spacing} list-none`} start={node.start}>
+        {node.children.map((item, i) => (
+          <li key={i} className="flex items-start mb-2">
+            <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 rounded-full border-2 border-brand-purple text-brand-purple text-sm mr-4 mt-0.5">
+              {node.start + i}
+            </span>
+            {item.emoji && <span className="mr-2">{item.emoji}</span>}
+            <ItemContent item={item} tight={node.tight} />
+          </li>
+        ))}
+      </ol>
+    );
+  }
+  return (
+    <ul className={`${spacing} list-none`}>
+      {node.children.map((item, i) => (
+        <li key={i} className="flex items-start mb-2">
+          {item.checked !== null ? (
+            <input type="checkbox" checked={item.checked} readOnly disabled className="mr-3 mt-1.5 shrink-0 rounded border-surface-border text-brand-purple" aria-label={item.checked ? 'Done' : 'Not done'} />
+          ) : item.emoji ? (
+            <span className="mr-3 text-lg shrink-0 w-5 text-center">{item.emoji}</span>
+          ) : (
+            <span className="text-brand-orange dark:text-orange-400 mr-3 mt-1 shrink-0">{nested ? '•' : '✨'}</span>
+          )}
+          <ItemContent item={item} tight={node.tight} />
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const Block: React.FC<{ node: BlockNode; nested?: boolean }> = ({ node, nested }) => {
+  switch (node.type) {
+    case 'heading':
+      return <Heading node={node} />;
+    case 'paragraph':
+      return <p className={`leading-relaxed ${nested ? 'my-2' : 'my-5'}`}><Inlines nodes={node.children} /></p>;
+    case 'code':
+      return (
+        <pre className="my-4 p-4 rounded-lg bg-background border border-surface-border overflow-x-auto text-sm" data-language={node.lang || undefined}>
+          <code className="font-mono">{node.value}</code>
+        </pre>
+      );
+    case 'blockquote':
+      return (
+        <blockquote className="border-l-4 border-surface-border pl-4 pr-2 py-2 my-4 text-foreground/80 bg-surface rounded-r-lg">
+          {node.children.map((child, i) => <Block key={i} node={child} nested />)}
+        </blockquote>
+      );
+    case 'callout': {
+      const callout = CALLOUTS[node.kind];
+      return (
+        <div className={`my-4 p-4 rounded-lg border-l-4 flex items-start gap-3 ${callout.className}`}>
+          {callout.icon}
+          <div className="flex-1 [&>*:first-child]:mt-0 [&>*:last-child]:mb-0">
+            {node.children.map((child, i) => <Block key={i} node={child} nested />)}
+          </div>
+        </div>
+      );
+    }
+    case 'list':
+      return <List node={node} nested={nested} />;
+    case 'table':
+      return (
+        <div className="my-6 overflow-x-auto rounded-lg border border-surface-border">
+          <table className="min-w-full divide-y divide-surface-border text-sm">
+            <thead className="bg-background">
+              <tr>
+                {node.head.map((cell, i) => (
+                  <th key={i} scope="col" className="px-4 py-3 text-left font-semibold text-foreground/70 tracking-wide" style={{ textAlign: node.align[i] ?? undefined }}>
+                    <Inlines nodes={cell} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-surface-border bg-surface">
+              {node.rows.map((row, i) => (
+                <tr key={i} className="hover:bg-background/50">
+                  {row.map((cell, j) => (
+                    <td key={j} className="px-4 py-3 whitespace-normal align-top" style={{ textAlign: node.align[j] ?? undefined }}>
+                      <Inlines nodes={cell} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'thematicBreak':
+      return <hr className="my-6 border-surface-border" />;
+  }
+};
+
+// Memoized on the text, so a message re-renders only when its own text changes.
+const MarkdownContent: React.FC<{ text: string }> = memo(({ text }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <>{blocks.map((node, i) => <Block key={i} node={node} />)}</>;
+});
+
+export default MarkdownContent;
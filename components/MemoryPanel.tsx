@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { CloseIcon } from './icons/CloseIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { EditIcon } from './icons/EditIcon.tsx';
+import { type MemoryFact, MEMORY_TEXT_MAX_LENGTH } from '../types.ts';
+import { fetchMemories, createMemory, updateMemory, deleteMemory } from '../services/memoryApi.ts';
+
+interface MemoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClasses = 'flex-1 p-2.5 bg-background border border-surface-border rounded-lg focus:ring-0 text-foreground text-sm';
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ isOpen, onClose }) => {
+  const [facts, setFacts] = useState<MemoryFact[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newFact, setNewFact] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError(null);
+    fetchMemories()
+      .then(setFacts)
+      .catch(e => setError(e instanceof Error ? e.message : 'Could not load your memories.'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  // Runs a change against the server and reports failures inline instead of closing the panel.
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong. Please try again.');
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newFact.trim()) return;
+    run(async () => {
+      const fact = await createMemory(newFact);
+      setFacts(prev => [fact, ...prev]);
+      setNewFact('');
+    });
+  };
+
+  const handleSaveEdit = (id: string) => {
+    if (!editText.trim()) return;
+    run(async () => {
+      const updated = await updateMemory(id, editText);
+      setFacts(prev => [updated, ...prev.filter(fact => fact.id !== id)]);
+      setEditingId(null);
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    run(async () => {
+      await deleteMemory(id);
+      setFacts(prev => prev.filter(fact => fact.id !== id));
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="memoryPanelTitle"
+    >
+      <div className="relative bg-surface rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <button
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 rounded-full hover:bg-background"
+            aria-label="Close coach memory"
+        >
+            <CloseIcon className="w-5 h-5" />
+        </button>
+        <div className="p-8 pb-4">
+          <h2 id="memoryPanelTitle" className="text-2xl font-bold text-foreground">Coach Memory</h2>
+          <p className="text-foreground/70 mt-1 text-sm">
+            Facts your coach remembers across conversations. Say "remember that…" in a chat to add one, or manage them here.
+          </p>
+          <form onSubmit={handleAdd} className="flex gap-2 mt-4">
+            <input
+              type="text"
+              value={newFact}
+              maxLength={MEMORY_TEXT_MAX_LENGTH}
+              onChange={(e) => setNewFact(e.target.value)}
+              className={inputClasses}
+              placeholder="e.g. My single drops on June 14th"
+              aria-label="New fact"
+            />
+            <button type="submit" disabled={!newFact.trim()} className="brand-cta px-4 rounded-lg text-sm font-bold disabled:opacity-50">Add</button>
+          </form>
+          {error && <p role="alert" className="text-red-600 dark:text-red-400 text-sm mt-2">{error}</p>}
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-8 pb-8 space-y-2">
+          {isLoading && <li className="text-sm text-foreground/50">Loading…</li>}
+          {!isLoading && facts.length === 0 && (
+            <li className="text-sm text-foreground/50">Nothing remembered yet.</li>
+          )}
+          {facts.map(fact => (
+            <li key={fact.id} className="group flex items-start gap-2 p-3 bg-background rounded-lg border border-surface-border">
+              {editingId === fact.id ? (
+                <div className="flex-1 flex flex-col gap-2">
+                  <input
+                    type="text"
+                    value={editText}
+                    maxLength={MEMORY_TEXT_MAX_LENGTH}
+                    onChange={(e) => setEditText(e.target.value)}
+                    className={inputClasses}
+                    aria-label="Edit fact"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2 text-sm font-semibold">
+                    <button onClick={() => setEditingId(null)} className="px-3 py-1 rounded-md hover:bg-surface">Cancel</button>
+                    <button onClick={() => handleSaveEdit(fact.id)} disabled={!editText.trim()} className="px-3 py-1 rounded-md brand-cta disabled:opacity-50">Save</button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-foreground">{fact.text}</p>
+                    <p className="text-xs text-foreground/50 mt-1">
+                      {fact.source === 'explicit' ? 'Added by you' : 'Learned from a chat'} · {new Date(fact.updatedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => { setEditingId(fact.id); setEditText(fact.text); }}
+                    className="p-1 rounded-md text-foreground/40 hover:text-foreground hover:bg-surface flex-shrink-0"
+                    aria-label="Edit fact"
+                  >
+                    <EditIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(fact.id)}
+                    className="p-1 rounded-md text-foreground/40 hover:text-red-500 hover:bg-red-500/10 flex-shrink-0"
+                    aria-label="Delete fact"
+                  >
+                    <TrashIcon />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryPanel;
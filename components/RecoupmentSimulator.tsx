@@ -0,0 +1,206 @@
+import React, { useState, useMemo, useDeferredValue } from 'react';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import DiscussWithCoachButton from './DiscussWithCoachButton.tsx';
+import { type RecoupmentSimulatorData, type RecoupmentSimulatorState, type DealOffer, type RevenueStream, type ParticipationStream, MAX_OFFERS, MAX_MONTHS } from '../core/tools/recoupmentSimulator.ts';
+import { type ToolViewProps } from '../core/tools/types.ts';
+import { type RecoupmentResult, simulateOffers } from '../utils/recoupmentMath.ts';
+
+type RecoupmentSimulatorProps = ToolViewProps<RecoupmentSimulatorData, RecoupmentSimulatorState>;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+const inputClasses = 'w-full min-w-0 rounded-md border-surface-border bg-background py-1.5 px-2 text-sm text-foreground shadow-sm focus:border-[var(--brand-purple)] focus:ring-0';
+
+// Line colours for the first and second offer, used in the chart and on the offer cards.
+const OFFER_COLORS = ['var(--brand-purple)', 'var(--brand-orange)'];
+
+const REVENUE_LABELS: Record<RevenueStream, string> = {
+  recorded: 'Recorded music',
+  touring: 'Touring',
+  merch: 'Merch',
+  publishing: 'Publishing',
+};
+
+const PARTICIPATION_STREAMS: ParticipationStream[] = ['touring', 'merch', 'publishing'];
+
+const readNumber = (value: string) => parseFloat(value) || 0;
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void; step?: number; min?: number }> = ({ label, value, onChange, step = 1, min = 0 }) => (
+  <label className="text-xs font-medium text-foreground/70 space-y-1">
+    <span>{label}</span>
+    <input type="number" min={min} step={step} value={value} onChange={(e) => onChange(readNumber(e.target.value))} className={inputClasses} />
+  </label>
+);
+
+const recoupLabel = (result: RecoupmentResult, months: number) =>
+  result.recoupedInMonth === null ? `Not within ${months} months` : result.recoupedInMonth === 0 ? 'Nothing to recoup' : `Month ${result.recoupedInMonth}`;
+
+const CashChart: React.FC<{ results: RecoupmentResult[] }> = ({ results }) => {
+  const width = 480;
+  const height = 200;
+  const padding = 10;
+  const months = Math.max(1, ...results.map(result => result.months.length));
+  const values = results.flatMap(result => result.months.map(month => month.artistCash));
+  const maxValue = Math.max(1, ...values);
+  const minValue = Math.min(0, ...values);
+  const range = maxValue - minValue || 1;
+
+  const x = (month: number) => padding + ((month - 1) / Math.max(1, months - 1)) * (width - padding * 2);
+  const y = (value: number) => padding + ((maxValue - value) / range) * (height - padding * 2);
+
+  return (
+    <div className="bg-background p-4 rounded-lg">
+      <h4 className="font-bold text-center text-foreground mb-2">Cash in Your Pocket Over Time</h4>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Cumulative artist cash by month for each offer">
+        {results.map((result, index) => (
+          <g key={index}>
+            {result.recoupedInMonth !== null && result.recoupedInMonth > 0 && (
+              <line x1={x(result.recoupedInMonth)} x2={x(result.recoupedInMonth)} y1={padding} y2={height - padding} stroke={OFFER_COLORS[index]} strokeDasharray="3 4" strokeWidth="1.5" />
+            )}
+            <polyline
+              points={result.months.map(month => `${x(month.month).toFixed(1)},${y(month.artistCash).toFixed(1)}`).join(' ')}
+              fill="none"
+              stroke={OFFER_COLORS[index]}
+              strokeWidth="2.5"
+              strokeLinejoin="round"
+            />
+          </g>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-foreground/60 mt-1">
+        <span>Month 1</span>
+        <span>Dashed lines mark each offer's recoupment month</span>
+        <span>Month {months}</span>
+      </div>
+    </div>
+  );
+};
+
+const RecoupmentSimulator: React.FC<RecoupmentSimulatorProps> = ({ data, state, onStateChange, onDiscuss }) => {
+  const [simulation, setSimulation] = useState<RecoupmentSimulatorState>(() => state ?? data);
+
+  const deferredSimulation = useDeferredValue(simulation);
+  const results = useMemo(() => simulateOffers(deferredSimulation), [deferredSimulation]);
+  const months = Math.min(Math.max(1, Math.floor(deferredSimulation.months)), MAX_MONTHS);
+
+  const commit = (next: RecoupmentSimulatorState) => {
+    setSimulation(next);
+    onStateChange?.(next);
+  };
+
+  const updateOffer = (index: number, changes: Partial<DealOffer>) => {
+    commit({ ...simulation, offers: simulation.offers.map((offer, i) => (i === index ? { ...offer, ...changes } : offer)) });
+  };
+
+  const addOffer = () => {
+    const [first] = simulation.offers;
+    commit({ ...simulation, offers: [...simulation.offers, { ...first, name: 'Offer B', participation: { ...first.participation } }] });
+  };
+
+  const best = results.length > 1 ? results.reduce((a, b) => (b.totalArtistCash > a.totalArtistCash ? b : a)) : null;
+
+  return (
+    <div className="my-6 p-4 md:p-6 rounded-lg border border-surface-border bg-surface">
+      <h3 className="text-lg font-bold text-foreground mb-1">Recoupment Simulator</h3>
+      <p className="text-sm text-foreground/70 mb-6">See when an advance pays back, what actually reaches you, and how two offers compare.</p>
+
+      <div className="bg-background p-4 rounded-lg mb-6">
+        <h4 className="font-bold text-base text-foreground mb-3">Projected Monthly Revenue</h4>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {(Object.keys(REVENUE_LABELS) as RevenueStream[]).map(stream => (
+            <NumberField
+              key={stream}
+              label={`${REVENUE_LABELS[stream]} ($/month)`}
+              value={simulation.monthlyRevenue[stream]}
+              step={100}
+              onChange={(value) => commit({ ...simulation, monthlyRevenue: { ...simulation.monthlyRevenue, [stream]: value } })}
+            />
+          ))}
+          <NumberField label="Monthly change (%)" value={simulation.monthlyChangePercent} min={-100} step={0.5} onChange={(value) => commit({ ...simulation, monthlyChangePercent: value })} />
+          <NumberField label={`Months to project (max ${MAX_MONTHS})`} value={simulation.months} min={1} onChange={(value) => commit({ ...simulation, months: value })} />
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4 mb-6">
+        {simulation.offers.map((offer, index) => (
+          <div key={index} className="bg-background p-4 rounded-lg border-t-4" style={{ borderTopColor: OFFER_COLORS[index] }}>
+            <div className="flex items-center gap-2 mb-3">
+              <input value={offer.name} onChange={(e) => updateOffer(index, { name: e.target.value })} className={`${inputClasses} font-bold`} aria-label={`Offer ${index + 1} name`} />
+              {simulation.offers.length > 1 && (
+                <button onClick={() => commit({ ...simulation, offers: simulation.offers.filter((_, i) => i !== index) })} className="p-1 rounded-md text-foreground/50 hover:text-red-500 hover:bg-red-500/10" aria-label={`Remove ${offer.name}`}>
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField label="Advance ($)" value={offer.advance} step={1000} onChange={(value) => updateOffer(index, { advance: value })} />
+              <NumberField label="Recoupable costs ($)" value={offer.recoupableCosts} step={1000} onChange={(value) => updateOffer(index, { recoupableCosts: value })} />
+              <NumberField label="Your royalty (%)" value={offer.royaltyPercent} step={0.5} onChange={(value) => updateOffer(index, { royaltyPercent: value })} />
+              {PARTICIPATION_STREAMS.map(stream => (
+                <NumberField
+                  key={stream}
+                  label={`Label's cut of ${REVENUE_LABELS[stream].toLowerCase()} (%)`}
+                  value={offer.participation[stream]}
+                  onChange={(value) => updateOffer(index, { participation: { ...offer.participation, [stream]: value } })}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+        {simulation.offers.length < MAX_OFFERS && (
+          <button onClick={addOffer} className="flex flex-col items-center justify-center gap-2 p-4 rounded-lg border-2 border-dashed border-surface-border text-sm font-semibold text-foreground/60 hover:bg-background">
+            <PlusIcon className="w-5 h-5" />
+            <span>Add an offer to compare</span>
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-surface-border mb-4">
+        <table className="min-w-full text-sm">
+          <thead className="bg-background text-left">
+            <tr>
+              <th scope="col" className="px-4 py-3 font-semibold text-foreground/70"><span className="sr-only">Metric</span></th>
+              {results.map((result, index) => (
+                <th key={index} scope="col" className="px-4 py-3 font-bold" style={{ color: OFFER_COLORS[index] }}>
+                  {result.offer.name || `Offer ${index + 1}`}{best === result && <span className="ml-2 text-xs font-semibold text-green-600 dark:text-green-400">Best for you</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-surface-border bg-surface">
+            <tr>
+              <th scope="row" className="px-4 py-2 text-left font-medium text-foreground/80">Recoups in</th>
+              {results.map((result, index) => <td key={index} className="px-4 py-2 font-semibold text-foreground">{recoupLabel(result, months)}</td>)}
+            </tr>
+            <tr>
+              <th scope="row" className="px-4 py-2 text-left font-medium text-foreground/80">Still unrecouped after {months} months</th>
+              {results.map((result, index) => <td key={index} className="px-4 py-2 text-foreground">{formatCurrency(result.months[result.months.length - 1]?.unrecouped ?? 0)}</td>)}
+            </tr>
+            <tr>
+              <th scope="row" className="px-4 py-2 text-left font-medium text-foreground/80">Your total cash after {months} months</th>
+              {results.map((result, index) => <td key={index} className="px-4 py-2 font-bold text-green-600 dark:text-green-400">{formatCurrency(result.totalArtistCash)}</td>)}
+            </tr>
+            <tr>
+              <th scope="row" className="px-4 py-2 text-left font-medium text-foreground/80">Label's net take</th>
+              {results.map((result, index) => <td key={index} className="px-4 py-2 text-foreground">{formatCurrency(result.totalLabelTake)}</td>)}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <CashChart results={results} />
+      <p className="text-xs text-foreground/50 mt-3">A simplified model for comparing offers. Real contracts differ in what's recoupable and how royalties are calculated. This is for educational purposes only and is not legal advice.</p>
+      {onDiscuss && <DiscussWithCoachButton label="Discuss these offers with my coach" onClick={() => onDiscuss(simulation)} />}
+    </div>
+  );
+};
+
+export default RecoupmentSimulator;
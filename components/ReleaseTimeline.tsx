@@ -0,0 +1,128 @@
+import React, { useState, useMemo } from 'react';
+import { CheckIcon } from './icons/CheckIcon.tsx';
+import DiscussWithCoachButton from './DiscussWithCoachButton.tsx';
+import { type ReleaseTimelineData, type ReleaseTimelineState, type ReleaseTask, type MilestoneCategory } from '../core/tools/releaseTimeline.ts';
+import { type ToolViewProps } from '../core/tools/types.ts';
+import { addDays, daysFrom, formatDay, todayIso } from '../utils/dates.ts';
+import { downloadFile } from '../utils/download.ts';
+import { createReleaseTimeline, relativeDayLabel, releaseTimelineFilename, releaseTimelineToIcs } from '../utils/releaseTimeline.ts';
+
+type ReleaseTimelineProps = ToolViewProps<ReleaseTimelineData, ReleaseTimelineState>;
+
+const inputClasses = 'w-full min-w-0 rounded-md border-surface-border bg-background py-1.5 px-2 text-sm text-foreground shadow-sm focus:border-[var(--brand-purple)] focus:ring-0';
+const buttonClasses = 'flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-surface-border text-xs font-semibold text-foreground/80 hover:bg-background';
+
+const CATEGORY_STYLES: Record<MilestoneCategory, { label: string; className: string }> = {
+  distribution: { label: 'Distribution', className: 'bg-blue-500/10 text-blue-700 dark:text-blue-300' },
+  pitching: { label: 'Pitching', className: 'bg-[var(--brand-purple)]/10 text-[var(--brand-purple)]' },
+  promotion: { label: 'Promotion', className: 'bg-brand-orange/10 text-brand-orange dark:text-orange-400' },
+  content: { label: 'Content', className: 'bg-teal-500/10 text-teal-700 dark:text-teal-300' },
+  admin: { label: 'Admin', className: 'bg-gray-500/10 text-foreground/70' },
+};
+
+const ReleaseTimeline: React.FC<ReleaseTimelineProps> = ({ data, state, onStateChange, onDiscuss }) => {
+  const [timeline, setTimeline] = useState<ReleaseTimelineState>(() => state ?? createReleaseTimeline(data));
+  const today = todayIso();
+
+  // Tasks in date order, keeping each one's position in the saved state.
+  const ordered = useMemo(
+    () => timeline.tasks.map((task, index) => ({ task, index })).sort((a, b) => a.task.offsetDays - b.task.offsetDays),
+    [timeline.tasks],
+  );
+  const doneCount = timeline.tasks.filter(task => task.done).length;
+  const daysToRelease = daysFrom(today, timeline.releaseDate);
+
+  const commit = (next: ReleaseTimelineState) => {
+    setTimeline(next);
+    onStateChange?.(next);
+  };
+
+  const updateTask = (index: number, changes: Partial<ReleaseTask>) => {
+    commit({ ...timeline, tasks: timeline.tasks.map((task, i) => (i === index ? { ...task, ...changes } : task)) });
+  };
+
+  const moveTask = (index: number, date: string) => {
+    if (!date) return;
+    updateTask(index, { offsetDays: daysFrom(timeline.releaseDate, date) });
+  };
+
+  const exportCalendar = () => {
+    downloadFile(releaseTimelineFilename(timeline), releaseTimelineToIcs(timeline), 'text/calendar;charset=utf-8');
+  };
+
+  const countdown = Number.isNaN(daysToRelease)
+    ? ''
+    : daysToRelease > 0 ? `${daysToRelease} day${daysToRelease === 1 ? '' : 's'} to go` : daysToRelease === 0 ? 'Out today' : 'Released';
+
+  return (
+    <div className="my-6 p-4 md:p-6 rounded-lg border border-surface-border bg-surface">
+      <h3 className="text-lg font-bold text-foreground mb-1">Release Timeline</h3>
+      <p className="text-sm text-foreground/70 mb-6">Every step is dated from your release day. Change the date and the whole plan moves with it.</p>
+
+      <div className="grid md:grid-cols-3 gap-3 mb-4">
+        <label className="md:col-span-2 text-xs font-medium text-foreground/70 space-y-1">
+          <span>Release</span>
+          <input value={timeline.releaseTitle} onChange={(e) => commit({ ...timeline, releaseTitle: e.target.value })} className={inputClasses} />
+        </label>
+        <label className="text-xs font-medium text-foreground/70 space-y-1">
+          <span>Release date</span>
+          <input type="date" value={timeline.releaseDate} onChange={(e) => e.target.value && commit({ ...timeline, releaseDate: e.target.value })} className={inputClasses} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex-1 min-w-[12rem]">
+          <div className="flex justify-between text-xs font-semibold text-foreground/70 mb-1">
+            <span>{doneCount} of {timeline.tasks.length} done</span>
+            <span>{countdown}</span>
+          </div>
+          <div className="h-2 rounded-full bg-background overflow-hidden">
+            <div className="h-full bg-green-500 transition-all" style={{ width: `${timeline.tasks.length ? (doneCount / timeline.tasks.length) * 100 : 0}%` }} />
+          </div>
+        </div>
+        <button onClick={exportCalendar} className={buttonClasses}>Add to calendar (.ics)</button>
+      </div>
+
+      <ol className="relative border-l-2 border-surface-border ml-3 space-y-4">
+        {ordered.map(({ task, index }) => {
+          const date = addDays(timeline.releaseDate, task.offsetDays);
+          const isOverdue = !task.done && date < today;
+          const category = CATEGORY_STYLES[task.category];
+          return (
+            <li key={index} className="ml-6">
+              <button
+                onClick={() => updateTask(index, { done: !task.done })}
+                className={`absolute -left-[11px] flex items-center justify-center w-5 h-5 rounded-full border-2 ${task.done ? 'bg-green-500 border-green-500 text-white' : 'bg-surface border-surface-border hover:border-green-500'}`}
+                role="checkbox"
+                aria-checked={task.done}
+                aria-label={`Mark "${task.title}" as ${task.done ? 'not done' : 'done'}`}
+              >
+                {task.done && <CheckIcon className="w-3 h-3" />}
+              </button>
+              <div className={`p-3 rounded-lg ${task.offsetDays === 0 ? 'bg-brand-orange/10' : 'bg-background'}`}>
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <input
+                    type="date"
+                    value={date}
+                    onChange={(e) => moveTask(index, e.target.value)}
+                    className="rounded-md border-surface-border bg-surface py-0.5 px-1.5 text-xs text-foreground focus:border-[var(--brand-purple)] focus:ring-0"
+                    aria-label={`Date for ${task.title}`}
+                    title={formatDay(date)}
+                  />
+                  <span className="text-xs text-foreground/60">{relativeDayLabel(task.offsetDays)}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider ${category.className}`}>{category.label}</span>
+                  {isOverdue && <span className="text-xs font-semibold text-red-600 dark:text-red-400">Overdue</span>}
+                </div>
+                <p className={`font-semibold text-sm ${task.done ? 'line-through text-foreground/50' : 'text-foreground'}`}>{task.title}</p>
+                {task.description && <p className="text-sm text-foreground/70">{task.description}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      {onDiscuss && <DiscussWithCoachButton label="Discuss my release plan with my coach" onClick={() => onDiscuss(timeline)} />}
+    </div>
+  );
+};
+
+export default ReleaseTimeline;
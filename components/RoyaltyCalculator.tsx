@@ -0,0 +1,181 @@
+import React, { useState, useMemo, useDeferredValue } from 'react';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import DiscussWithCoachButton from './DiscussWithCoachButton.tsx';
+import { type RoyaltyCalculatorData, type RoyaltyCalculatorState, type RoyaltyDealTerms, type RoyaltyStreamLine } from '../core/tools/royaltyCalculator.ts';
+import { type ToolViewProps } from '../core/tools/types.ts';
+import { STREAMING_RATES, STREAMING_RATES_UPDATED, findPlatformRate } from '../core/royaltyRates.ts';
+import { calculateRoyalties, createRoyaltyState, newStreamLine } from '../utils/royaltyMath.ts';
+
+type RoyaltyCalculatorProps = ToolViewProps<RoyaltyCalculatorData, RoyaltyCalculatorState>;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const inputClasses = 'w-full min-w-0 rounded-md border-surface-border bg-background py-1.5 px-2 text-sm text-foreground shadow-sm focus:border-[var(--brand-purple)] focus:ring-0';
+const buttonClasses = 'flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-surface-border text-xs font-semibold text-foreground/80 hover:bg-background disabled:opacity-40 disabled:cursor-not-allowed';
+
+const TERM_INPUTS: { key: keyof RoyaltyDealTerms; label: string; hint: string }[] = [
+  { key: 'distributorFeePercent', label: 'Distributor Fee', hint: '0% for flat-fee distributors' },
+  { key: 'artistRoyaltyPercent', label: 'Your Master Royalty', hint: '100% if you own your masters' },
+  { key: 'producerPoints', label: 'Producer Points', hint: 'Paid from your royalty' },
+  { key: 'publishingSharePercent', label: 'Your Publishing Share', hint: 'After your publisher’s cut' },
+];
+
+const readNumber = (value: string) => parseFloat(value) || 0;
+
+const RoyaltyCalculator: React.FC<RoyaltyCalculatorProps> = ({ data, state, onStateChange, onDiscuss }) => {
+  const [calculator, setCalculator] = useState<RoyaltyCalculatorState>(() => state ?? createRoyaltyState(data));
+
+  const deferredCalculator = useDeferredValue(calculator);
+  const breakdown = useMemo(() => calculateRoyalties(deferredCalculator), [deferredCalculator]);
+
+  const commit = (next: RoyaltyCalculatorState) => {
+    setCalculator(next);
+    onStateChange?.(next);
+  };
+
+  const updateLine = (index: number, changes: Partial<RoyaltyStreamLine>) => {
+    commit({ ...calculator, streams: calculator.streams.map((line, i) => (i === index ? { ...line, ...changes } : line)) });
+  };
+
+  const unusedPlatform = STREAMING_RATES.find(rate => !calculator.streams.some(line => line.platform === rate.id));
+
+  const resetRates = () => {
+    commit({ ...calculator, streams: calculator.streams.map(line => newStreamLine(line.platform, line.monthlyStreams)) });
+  };
+
+  const grossTotal = breakdown.masterGross + breakdown.publishingGross;
+  const segments = [
+    { label: 'Distributor', value: breakdown.distributorFee, className: 'bg-gray-400' },
+    { label: 'Label', value: breakdown.labelShare, className: 'bg-gray-600' },
+    { label: 'Producer', value: breakdown.producerShare, className: 'bg-blue-500' },
+    { label: 'You (master)', value: breakdown.artistMaster, className: 'bg-[var(--brand-purple)]' },
+    { label: 'Publisher & co-writers', value: breakdown.publisherShare, className: 'bg-teal-500' },
+    { label: 'You (publishing)', value: breakdown.artistPublishing, className: 'bg-brand-orange' },
+  ].filter(segment => segment.value > 0);
+  const maxPlatformIncome = Math.max(0, ...breakdown.platforms.map(platform => platform.master + platform.publishing));
+
+  return (
+    <div className="my-6 p-4 md:p-6 rounded-lg border border-surface-border bg-surface">
+      <h3 className="text-lg font-bold text-foreground mb-1">Streaming Royalty Calculator</h3>
+      <p className="text-sm text-foreground/70 mb-6">Project your monthly streaming income and see who takes a cut along the way.</p>
+
+      <div className="grid md:grid-cols-2 gap-6 md:gap-8">
+        {/* Inputs Column */}
+        <div className="space-y-6">
+          <div>
+            <h4 className="font-bold text-base text-foreground mb-3">Monthly Streams</h4>
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_5rem_5rem_auto] gap-2 text-xs font-semibold text-foreground/60">
+                <span>Platform</span>
+                <span>Streams / month</span>
+                <span title="Paid to the recording's owner per stream">Master $</span>
+                <span title="Paid on the song per stream">Publishing $</span>
+                <span className="w-6"></span>
+              </div>
+              {calculator.streams.map((line, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_5rem_5rem_auto] gap-2 items-center">
+                  <select
+                    value={line.platform}
+                    onChange={(e) => updateLine(index, newStreamLine(e.target.value, line.monthlyStreams))}
+                    className={inputClasses}
+                    aria-label="Platform"
+                  >
+                    {STREAMING_RATES.map(rate => <option key={rate.id} value={rate.id}>{rate.name}</option>)}
+                  </select>
+                  <input type="number" min={0} step={1000} value={line.monthlyStreams} onChange={(e) => updateLine(index, { monthlyStreams: readNumber(e.target.value) })} className={inputClasses} aria-label={`Monthly streams on ${findPlatformRate(line.platform)?.name ?? line.platform}`} />
+                  <input type="number" min={0} step={0.0001} value={line.masterRate} onChange={(e) => updateLine(index, { masterRate: readNumber(e.target.value) })} className={inputClasses} aria-label="Master rate per stream" />
+                  <input type="number" min={0} step={0.0001} value={line.publishingRate} onChange={(e) => updateLine(index, { publishingRate: readNumber(e.target.value) })} className={inputClasses} aria-label="Publishing rate per stream" />
+                  <button onClick={() => commit({ ...calculator, streams: calculator.streams.filter((_, i) => i !== index) })} className="p-1 rounded-md text-foreground/50 hover:text-red-500 hover:bg-red-500/10" aria-label="Remove platform">
+                    <TrashIcon className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2 mt-3">
+              <button onClick={() => unusedPlatform && commit({ ...calculator, streams: [...calculator.streams, newStreamLine(unusedPlatform.id)] })} disabled={!unusedPlatform} className={buttonClasses}>
+                <PlusIcon className="w-3.5 h-3.5" />
+                <span>Add platform</span>
+              </button>
+              <button onClick={resetRates} className={buttonClasses}>Reset to {STREAMING_RATES_UPDATED} average rates</button>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-bold text-base text-foreground mb-3">Deal Terms</h4>
+            <div className="grid grid-cols-2 gap-3">
+              {TERM_INPUTS.map(({ key, label, hint }) => (
+                <label key={key} className="text-xs font-medium text-foreground/70 space-y-1">
+                  <span>{label} (%)</span>
+                  <input type="number" min={0} max={100} step={0.5} value={calculator[key]} onChange={(e) => commit({ ...calculator, [key]: readNumber(e.target.value) })} className={inputClasses} />
+                  <span className="block font-normal text-foreground/50">{hint}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Outputs Column */}
+        <div className="space-y-4">
+          <div className="p-4 rounded-lg text-center bg-green-500/10">
+            <h4 className="text-sm font-bold uppercase tracking-wider text-green-800 dark:text-green-300">Your Monthly Income</h4>
+            <p className="text-4xl font-extrabold my-2 text-green-600 dark:text-green-400">{formatCurrency(breakdown.artistTotal)}</p>
+            <p className="text-xs text-foreground/60">
+              {formatCurrency(breakdown.artistMaster)} master + {formatCurrency(breakdown.artistPublishing)} publishing · {formatCurrency(breakdown.artistTotal * 12)} a year
+            </p>
+          </div>
+
+          <div className="bg-background p-4 rounded-lg space-y-3">
+            <h4 className="font-bold text-center text-foreground mb-2">Where the Money Goes</h4>
+            <p className="text-xs text-center text-foreground/60">{formatCurrency(grossTotal)} paid out on {breakdown.totalStreams.toLocaleString('en-US')} streams</p>
+            <div className="flex h-4 w-full rounded-full overflow-hidden bg-surface" role="img" aria-label="Breakdown of monthly streaming income">
+              {grossTotal > 0 && segments.map(segment => (
+                <div key={segment.label} className={segment.className} style={{ width: `${(segment.value / grossTotal) * 100}%` }} title={`${segment.label}: ${formatCurrency(segment.value)}`} />
+              ))}
+            </div>
+            <div className="space-y-1.5">
+              {segments.map(segment => (
+                <div key={segment.label} className="flex justify-between items-center text-sm">
+                  <span className="flex items-center gap-2 text-foreground/80">
+                    <span className={`w-3 h-3 rounded-sm ${segment.className}`} />
+                    {segment.label}
+                  </span>
+                  <span className="font-semibold text-foreground">{formatCurrency(segment.value)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-background p-4 rounded-lg space-y-2">
+            <h4 className="font-bold text-center text-foreground mb-2">By Platform</h4>
+            {breakdown.platforms.map((platform, index) => {
+              const income = platform.master + platform.publishing;
+              return (
+                <div key={index} className="text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-foreground/80">{platform.name}</span>
+                    <span className="font-semibold text-foreground">{formatCurrency(income)}</span>
+                  </div>
+                  <div className="h-2 mt-1 rounded-full bg-surface overflow-hidden">
+                    <div className="h-full bg-[var(--brand-purple)]" style={{ width: `${maxPlatformIncome > 0 ? (income / maxPlatformIncome) * 100 : 0}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-foreground/50 mt-4">Per-stream rates are {STREAMING_RATES_UPDATED} averages and vary by country and subscription tier. Adjust them to match your own statements.</p>
+      {onDiscuss && <DiscussWithCoachButton onClick={() => onDiscuss(calculator)} />}
+    </div>
+  );
+};
+
+export default RoyaltyCalculator;
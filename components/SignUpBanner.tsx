@@ -1,14 +1,23 @@
 
 import React from 'react';
+import { type QuotaStatus } from '../types.ts';
 
 interface SignUpBannerProps {
   onSignUp: () => void;
+  quota?: QuotaStatus | null;
 }
 
-const SignUpBanner: React.FC<SignUpBannerProps> = ({ onSignUp }) => {
+const SignUpBanner: React.FC<SignUpBannerProps> = ({ onSignUp, quota }) => {
+  const resetTime = quota?.resetAt
+    ? new Date(quota.resetAt).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })
+    : null;
+
   return (
     <div className="text-center p-3 bg-brand-orange/10 dark:bg-brand-orange/20 rounded-xl mb-3 border border-brand-orange/20 dark:border-brand-orange/30 animate-fade-in-up">
-      <p className="text-sm text-foreground font-medium mb-2">You've reached your free message limit.</p>
+      <p className="text-sm text-foreground font-medium mb-2">
+        {quota ? `You've used all ${quota.limit} free messages.` : "You've reached your free message limit."}
+        {resetTime && <span className="block text-xs text-foreground/60 mt-1">More messages unlock {resetTime}, or sign up now to keep going.</span>}
+      </p>
       <button
         onClick={onSignUp}
         className="brand-cta text-white font-bold py-2 px-4 rounded-lg text-sm"
@@ -19,4 +28,4 @@ const SignUpBanner: React.FC<SignUpBannerProps> = ({ onSignUp }) => {
   );
 };
 
-export default SignUpBanner;
\ No newline at end of file
+export default SignUpBanner;
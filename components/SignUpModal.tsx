@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { LogoIcon } from './icons/LogoIcon.tsx';
-import { type User } from '../types.ts';
+import { type SignUpDetails } from '../types.ts';
 import { CloseIcon } from './icons/CloseIcon.tsx';
 
+const MIN_PASSWORD_LENGTH = 8;
+
 interface SignUpModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSignUp: (userData: User) => string | null;
+  onSignUp: (details: SignUpDetails) => Promise<string | null>;
   onSwitchToLogin: () => void;
 }
 
@@ -14,6 +16,9 @@ const SignUpModal: React.FC<SignUpModalProps> = ({ isOpen, onClose, onSignUp, on
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
   const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
   if (!isOpen) return null;
@@ -37,19 +42,34 @@ const SignUpModal: React.FC<SignUpModalProps> = ({ isOpen, onClose, onSignUp, on
     } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
       newErrors.email = 'Please enter a valid email address.';
     }
+
+    if (!password) {
+      newErrors.password = 'Password is required.';
+    } else if (password.length < MIN_PASSWORD_LENGTH) {
+      newErrors.password = `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+    }
+
+    if (confirmPassword !== password) {
+      newErrors.confirmPassword = 'Passwords do not match.';
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!validate()) return;
+    if (!validate() || isSubmitting) return;
     
     setErrors({});
-    const signUpError = onSignUp({ firstName, lastName, email });
+    setIsSubmitting(true);
+    const signUpError = await onSignUp({ firstName, lastName, email, password });
+    setIsSubmitting(false);
     if (signUpError) {
       setErrors({ form: signUpError });
+    } else {
+      setPassword('');
+      setConfirmPassword('');
     }
   };
   
@@ -57,6 +77,8 @@ const SignUpModal: React.FC<SignUpModalProps> = ({ isOpen, onClose, onSignUp, on
     setFirstName('');
     setLastName('');
     setEmail('');
+    setPassword('');
+    setConfirmPassword('');
     setErrors({});
     onClose();
   };
@@ -104,11 +126,21 @@ const SignUpModal: React.FC<SignUpModalProps> = ({ isOpen, onClose, onSignUp, on
               <input type="email" id="email" value={email} onChange={(e) => setEmail(e.target.value)} className={`w-full p-3 bg-background border rounded-lg focus:ring-0 text-foreground ${errors.email ? 'border-red-500 dark:border-red-400 input-error' : 'border-surface-border'}`} aria-describedby="email-error" required />
               {errors.email && <p id="email-error" className="text-red-600 dark:text-red-400 text-xs mt-1.5">{errors.email}</p>}
             </div>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-foreground/80 mb-1">Password</label>
+              <input type="password" id="password" autoComplete="new-password" value={password} onChange={(e) => setPassword(e.target.value)} className={`w-full p-3 bg-background border rounded-lg focus:ring-0 text-foreground ${errors.password ? 'border-red-500 dark:border-red-400 input-error' : 'border-surface-border'}`} aria-describedby="password-error" required />
+              {errors.password && <p id="password-error" className="text-red-600 dark:text-red-400 text-xs mt-1.5">{errors.password}</p>}
+            </div>
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-foreground/80 mb-1">Confirm Password</label>
+              <input type="password" id="confirmPassword" autoComplete="new-password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={`w-full p-3 bg-background border rounded-lg focus:ring-0 text-foreground ${errors.confirmPassword ? 'border-red-500 dark:border-red-400 input-error' : 'border-surface-border'}`} aria-describedby="confirmPassword-error" required />
+              {errors.confirmPassword && <p id="confirmPassword-error" className="text-red-600 dark:text-red-400 text-xs mt-1.5">{errors.confirmPassword}</p>}
+            </div>
             
-            {errors.form && <p className="text-red-600 dark:text-red-400 text-sm text-center">{errors.form}</p>}
+            {errors.form && <p role="alert" className="text-red-600 dark:text-red-400 text-sm text-center">{errors.form}</p>}
 
-            <button type="submit" className="w-full brand-cta text-white font-bold py-3 px-6 rounded-lg shadow-md transform hover:scale-105 mt-2">
-              Create Account
+            <button type="submit" disabled={isSubmitting} className="w-full brand-cta text-white font-bold py-3 px-6 rounded-lg shadow-md transform hover:scale-105 mt-2">
+              {isSubmitting ? 'Creating Account...' : 'Create Account'}
             </button>
           </form>
           
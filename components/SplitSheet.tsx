@@ -0,0 +1,184 @@
+import React, { useState, useMemo } from 'react';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { CheckIcon } from './icons/CheckIcon.tsx';
+import DiscussWithCoachButton from './DiscussWithCoachButton.tsx';
+import { type SplitSheetData, type SplitSheetState, type SplitContributor, PRO_SUGGESTIONS, sumShares, isFullTotal } from '../core/tools/splitSheet.ts';
+import { type ToolViewProps } from '../core/tools/types.ts';
+import { validateSplitSheet, evenShares, isValidIpi, renderSplitSheetHtml } from '../utils/splitSheet.ts';
+import { downloadFile, printHtml } from '../utils/download.ts';
+
+type SplitSheetProps = ToolViewProps<SplitSheetData, SplitSheetState>;
+
+const inputClasses = 'w-full rounded-md border-surface-border bg-background py-1.5 px-2 text-sm text-foreground shadow-sm focus:border-[var(--brand-purple)] focus:ring-0 disabled:opacity-70';
+const buttonClasses = 'flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-surface-border text-xs font-semibold text-foreground/80 hover:bg-background disabled:opacity-40 disabled:cursor-not-allowed';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyContributor = (): SplitContributor => ({
+  name: '', role: 'Songwriter', pro: '', ipi: '', writerShare: 0, publisher: '', publisherPro: '', publisherIpi: '', publisherShare: 0,
+});
+
+const Field: React.FC<{ label: string; children: React.ReactNode; className?: string }> = ({ label, children, className = '' }) => (
+  <label className={`text-xs font-medium text-foreground/70 space-y-1 ${className}`}>
+    <span>{label}</span>
+    {children}
+  </label>
+);
+
+const TotalBadge: React.FC<{ label: string; total: number }> = ({ label, total }) => {
+  const ok = isFullTotal(total);
+  return (
+    <span className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-semibold ${ok ? 'bg-green-500/10 text-green-700 dark:text-green-400' : 'bg-red-500/10 text-red-700 dark:text-red-400'}`}>
+      {ok && <CheckIcon className="w-3.5 h-3.5" />}
+      {label}: {Number(total.toFixed(2))}%
+    </span>
+  );
+};
+
+const SplitSheet: React.FC<SplitSheetProps> = ({ data, state, onStateChange, onDiscuss }) => {
+  const [sheet, setSheet] = useState<SplitSheetState>(() => state ?? { ...data, date: today() });
+  const [printBlocked, setPrintBlocked] = useState(false);
+
+  const issues = useMemo(() => validateSplitSheet(sheet), [sheet]);
+  const isFinal = sheet.finalizedAt !== undefined;
+
+  const commit = (next: SplitSheetState) => {
+    setSheet(next);
+    onStateChange?.(next);
+  };
+
+  const updateContributor = (index: number, changes: Partial<SplitContributor>) => {
+    commit({ ...sheet, contributors: sheet.contributors.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+  };
+
+  const splitEvenly = (key: 'writerShare' | 'publisherShare') => {
+    const shares = evenShares(sheet.contributors.length);
+    commit({ ...sheet, contributors: sheet.contributors.map((c, i) => ({ ...c, [key]: shares[i] })) });
+  };
+
+  const finalize = () => {
+    if (issues.length > 0) return;
+    commit({ ...sheet, finalizedAt: Date.now() });
+  };
+
+  const unlock = () => {
+    const { finalizedAt: _finalizedAt, ...draft } = sheet;
+    commit(draft);
+  };
+
+  const fileName = `split-sheet-${(sheet.songTitle.trim() || 'untitled').toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+
+  return (
+    <div className="my-6 p-4 md:p-6 rounded-lg border border-surface-border bg-surface">
+      <div className="flex flex-wrap items-start justify-between gap-2 mb-1">
+        <h3 className="text-lg font-bold text-foreground">Split Sheet</h3>
+        <span className={`px-2.5 py-1 rounded-full text-xs font-bold uppercase tracking-wider ${isFinal ? 'bg-green-500/10 text-green-700 dark:text-green-400' : 'bg-brand-orange/10 text-brand-orange dark:text-orange-400'}`}>
+          {isFinal ? `Finalized ${new Date(sheet.finalizedAt!).toLocaleDateString()}` : 'Draft'}
+        </span>
+      </div>
+      <p className="text-sm text-foreground/70 mb-6">Record who wrote what and who publishes it. Writer and publisher shares must each total 100% before you finalize.</p>
+
+      <div className="grid md:grid-cols-3 gap-3 mb-6">
+        <Field label="Song title" className="md:col-span-2">
+          <input value={sheet.songTitle} onChange={(e) => commit({ ...sheet, songTitle: e.target.value })} disabled={isFinal} className={inputClasses} />
+        </Field>
+        <Field label="Date">
+          <input type="date" value={sheet.date} onChange={(e) => commit({ ...sheet, date: e.target.value })} disabled={isFinal} className={inputClasses} />
+        </Field>
+      </div>
+
+      <datalist id="split-sheet-pros">
+        {PRO_SUGGESTIONS.map(pro => <option key={pro} value={pro} />)}
+      </datalist>
+
+      <div className="space-y-4">
+        {sheet.contributors.map((contributor, index) => (
+          <div key={index} className="bg-background p-4 rounded-lg">
+            <div className="flex justify-between items-center mb-3">
+              <h4 className="font-bold text-sm text-foreground">{contributor.name.trim() || `Writer ${index + 1}`}</h4>
+              {!isFinal && (
+                <button
+                  onClick={() => commit({ ...sheet, contributors: sheet.contributors.filter((_, i) => i !== index) })}
+                  className="p-1 rounded-md text-foreground/50 hover:text-red-500 hover:bg-red-500/10"
+                  aria-label={`Remove ${contributor.name || `writer ${index + 1}`}`}
+                >
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <Field label="Writer name">
+                <input value={contributor.name} onChange={(e) => updateContributor(index, { name: e.target.value })} disabled={isFinal} className={inputClasses} />
+              </Field>
+              <Field label="Role">
+                <input value={contributor.role} onChange={(e) => updateContributor(index, { role: e.target.value })} disabled={isFinal} className={inputClasses} placeholder="Songwriter" />
+              </Field>
+              <Field label="PRO">
+                <input list="split-sheet-pros" value={contributor.pro} onChange={(e) => updateContributor(index, { pro: e.target.value })} disabled={isFinal} className={inputClasses} />
+              </Field>
+              <Field label="IPI #">
+                <input value={contributor.ipi} onChange={(e) => updateContributor(index, { ipi: e.target.value })} disabled={isFinal} className={`${inputClasses} ${isValidIpi(contributor.ipi) ? '' : 'border-red-500'}`} inputMode="numeric" />
+              </Field>
+              <Field label="Writer share (%)">
+                <input type="number" min={0} max={100} step={0.01} value={contributor.writerShare} onChange={(e) => updateContributor(index, { writerShare: parseFloat(e.target.value) || 0 })} disabled={isFinal} className={inputClasses} />
+              </Field>
+              <Field label="Publisher" className="md:col-span-2">
+                <input value={contributor.publisher} onChange={(e) => updateContributor(index, { publisher: e.target.value })} disabled={isFinal} className={inputClasses} placeholder="Self-published" />
+              </Field>
+              <Field label="Publisher PRO">
+                <input list="split-sheet-pros" value={contributor.publisherPro} onChange={(e) => updateContributor(index, { publisherPro: e.target.value })} disabled={isFinal} className={inputClasses} />
+              </Field>
+              <Field label="Publisher IPI #">
+                <input value={contributor.publisherIpi} onChange={(e) => updateContributor(index, { publisherIpi: e.target.value })} disabled={isFinal} className={`${inputClasses} ${isValidIpi(contributor.publisherIpi) ? '' : 'border-red-500'}`} inputMode="numeric" />
+              </Field>
+              <Field label="Publisher share (%)">
+                <input type="number" min={0} max={100} step={0.01} value={contributor.publisherShare} onChange={(e) => updateContributor(index, { publisherShare: parseFloat(e.target.value) || 0 })} disabled={isFinal} className={inputClasses} />
+              </Field>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-4">
+        <TotalBadge label="Writers" total={sumShares(sheet.contributors, 'writerShare')} />
+        <TotalBadge label="Publishers" total={sumShares(sheet.contributors, 'publisherShare')} />
+        {!isFinal && (
+          <div className="flex flex-wrap gap-2 ml-auto">
+            <button onClick={() => commit({ ...sheet, contributors: [...sheet.contributors, emptyContributor()] })} className={buttonClasses}>
+              <PlusIcon className="w-3.5 h-3.5" />
+              <span>Add writer</span>
+            </button>
+            <button onClick={() => splitEvenly('writerShare')} disabled={sheet.contributors.length === 0} className={buttonClasses}>Split writers evenly</button>
+            <button onClick={() => splitEvenly('publisherShare')} disabled={sheet.contributors.length === 0} className={buttonClasses}>Split publishing evenly</button>
+          </div>
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="mt-4 p-3 rounded-lg bg-red-500/10 text-sm text-red-700 dark:text-red-300 list-disc list-inside space-y-0.5">
+          {issues.map(issue => <li key={issue}>{issue}</li>)}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-surface-border">
+        {isFinal ? (
+          <button onClick={unlock} className={buttonClasses}>Unlock to edit</button>
+        ) : (
+          <button onClick={finalize} disabled={issues.length > 0} className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold brand-cta disabled:opacity-40 disabled:cursor-not-allowed">
+            <CheckIcon className="w-3.5 h-3.5" />
+            <span>Finalize & save</span>
+          </button>
+        )}
+        <button onClick={() => setPrintBlocked(!printHtml(renderSplitSheetHtml(sheet)))} className={buttonClasses}>Print / Save as PDF</button>
+        <button onClick={() => downloadFile(`${fileName}.html`, renderSplitSheetHtml(sheet), 'text/html')} className={buttonClasses}>Download HTML</button>
+        {printBlocked && <span className="text-xs text-red-600 dark:text-red-400">Your browser blocked the print window. Allow pop-ups for this site and try again.</span>}
+      </div>
+      <p className="text-xs text-foreground/50 mt-3">This is for educational purposes only and is not legal advice.</p>
+
+      {onDiscuss && <DiscussWithCoachButton label="Discuss these splits with my coach" onClick={() => onDiscuss(sheet)} />}
+    </div>
+  );
+};
+
+export default SplitSheet;
@@ -1,21 +1,37 @@
 import React, { useState, useMemo, ChangeEvent, useDeferredValue } from 'react';
+import DiscussWithCoachButton from './DiscussWithCoachButton.tsx';
+import { type TicketEstimatorData, type TicketEstimatorInputs, type TicketEstimatorState, type TicketDeal, type DealType, DEFAULT_DEAL } from '../core/tools/ticketEstimator.ts';
+import { type ToolViewProps } from '../core/tools/types.ts';
+import { calculateShow, breakEvenTickets, profitCurve, sensitivityPrices, SENSITIVITY_SELL_THROUGH } from '../utils/showMath.ts';
 
-interface TicketEstimatorData {
-  defaults: {
-    ticketPrice: number;
-    venueCapacity: number;
-    sellThroughRate: number;
-    merchSpendPerGuest: number;
-    venueFeePercent: number;
-    venueCostFixed: number;
-    marketingCost: number;
-    crewCost: number;
-  };
-}
+type TicketEstimatorProps = ToolViewProps<TicketEstimatorData, TicketEstimatorState>;
 
-interface TicketEstimatorProps {
-  data: TicketEstimatorData;
-}
+type InputValues = Record<keyof TicketEstimatorInputs, string>;
+
+const toInputValues = (inputs: TicketEstimatorInputs): InputValues =>
+  Object.fromEntries(Object.entries(inputs).map(([key, value]) => [key, value.toString()])) as InputValues;
+
+const toNumbers = (values: InputValues): TicketEstimatorInputs =>
+  Object.fromEntries(Object.entries(values).map(([key, value]) => [key, parseFloat(value) || 0])) as unknown as TicketEstimatorInputs;
+
+type DealAmountKey = Exclude<keyof TicketDeal, 'type'>;
+type DealValues = Record<DealAmountKey, string>;
+
+const toDealValues = ({ type: _type, ...amounts }: TicketDeal): DealValues =>
+  Object.fromEntries(Object.entries(amounts).map(([key, value]) => [key, value.toString()])) as DealValues;
+
+const toDeal = (type: DealType, values: DealValues): TicketDeal => ({
+  type,
+  ...(Object.fromEntries(Object.entries(values).map(([key, value]) => [key, parseFloat(value) || 0])) as Record<DealAmountKey, number>),
+});
+
+const DEAL_OPTIONS: { type: DealType; label: string; description: string }[] = [
+  { type: 'self', label: 'Self-Promoted', description: 'You rent the room, keep the door and pay every cost.' },
+  { type: 'guarantee', label: 'Guarantee', description: 'A flat fee from the promoter, however many tickets sell.' },
+  { type: 'door', label: 'Door Deal', description: 'A share of the door after the house takes its expenses.' },
+  { type: 'versus', label: 'Versus', description: 'The guarantee or your door share, whichever is higher.' },
+  { type: 'bonus', label: 'Bonus Over Gross', description: 'The guarantee plus a bonus on ticket gross above a threshold.' },
+];
 
 const formatCurrency = (value: number) => {
   return new Intl.NumberFormat('en-US', {
@@ -90,56 +106,123 @@ const SimpleInputRow: React.FC<{
   </div>
 );
 
+interface ProfitPoint {
+  tickets: number;
+  profit: number;
+}
+
+const ProfitChart: React.FC<{ points: ProfitPoint[]; current: ProfitPoint; breakEven: number | null }> = ({ points, current, breakEven }) => {
+  const width = 320;
+  const height = 160;
+  const padding = 8;
+  const maxTickets = Math.max(1, points[points.length - 1]?.tickets ?? 1);
+  const profits = [...points.map(point => point.profit), current.profit];
+  const maxProfit = Math.max(0, ...profits);
+  const minProfit = Math.min(0, ...profits);
+  const range = maxProfit - minProfit || 1;
 
-const TicketEstimator: React.FC<TicketEstimatorProps> = ({ data }) => {
-  const { defaults } = data;
-  
+  const x = (tickets: number) => padding + (tickets / maxTickets) * (width - padding * 2);
+  const y = (profit: number) => padding + ((maxProfit - profit) / range) * (height - padding * 2);
+  const line = points.map(point => `${x(point.tickets).toFixed(1)},${y(point.profit).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="bg-background p-4 rounded-lg">
+      <h4 className="font-bold text-center text-foreground mb-2">Profit by Attendance</h4>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Net profit from an empty room to a sell-out">
+        <line x1={padding} x2={width - padding} y1={y(0)} y2={y(0)} className="stroke-current text-foreground/30" strokeDasharray="4 3" />
+        {breakEven !== null && (
+          <line x1={x(breakEven)} x2={x(breakEven)} y1={padding} y2={height - padding} className="stroke-current text-brand-orange" strokeDasharray="2 3" />
+        )}
+        <polyline points={line} fill="none" stroke="var(--brand-purple)" strokeWidth="2.5" strokeLinejoin="round" />
+        <circle cx={x(current.tickets)} cy={y(current.profit)} r="4" fill="var(--brand-purple)" />
+      </svg>
+      <div className="flex justify-between text-xs text-foreground/60 mt-1">
+        <span>0 guests</span>
+        {breakEven !== null && <span className="text-brand-orange dark:text-orange-400">Break-even: {breakEven}</span>}
+        <span>{maxTickets} guests</span>
+      </div>
+    </div>
+  );
+};
+
+const SensitivityGrid: React.FC<{ inputs: TicketEstimatorInputs; deal: TicketDeal }> = ({ inputs, deal }) => {
+  const prices = sensitivityPrices(inputs.ticketPrice);
+  return (
+    <div className="bg-background p-4 rounded-lg">
+      <h4 className="font-bold text-center text-foreground mb-1">What If?</h4>
+      <p className="text-xs text-center text-foreground/60 mb-3">Net profit by ticket price and sell-through</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-center">
+          <thead>
+            <tr>
+              <th scope="col" className="p-1 text-foreground/60 font-semibold">Price</th>
+              {SENSITIVITY_SELL_THROUGH.map(rate => <th key={rate} scope="col" className="p-1 text-foreground/60 font-semibold">{rate}%</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {prices.map(price => (
+              <tr key={price} className={price === Math.round(inputs.ticketPrice) ? 'font-bold' : ''}>
+                <th scope="row" className="p-1 text-foreground/80">{formatCurrency(price)}</th>
+                {SENSITIVITY_SELL_THROUGH.map(rate => {
+                  const { netProfit } = calculateShow({ ...inputs, ticketPrice: price, sellThroughRate: rate }, deal);
+                  return (
+                    <td key={rate} className={`p-1 rounded ${netProfit >= 0 ? 'bg-green-500/10 text-green-700 dark:text-green-400' : 'bg-red-500/10 text-red-700 dark:text-red-400'}`}>
+                      {formatCurrency(netProfit)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const TicketEstimator: React.FC<TicketEstimatorProps> = ({ data, state, onStateChange, onDiscuss }) => {
   // State is stored as strings to provide a smoother input experience and prevent keyboard collapse.
-  const [ticketPrice, setTicketPrice] = useState(defaults.ticketPrice.toString());
-  const [venueCapacity, setVenueCapacity] = useState(defaults.venueCapacity.toString());
-  const [sellThroughRate, setSellThroughRate] = useState(defaults.sellThroughRate.toString());
-  const [merchSpendPerGuest, setMerchSpendPerGuest] = useState(defaults.merchSpendPerGuest.toString());
-  const [venueFeePercent, setVenueFeePercent] = useState(defaults.venueFeePercent.toString());
-  const [venueCostFixed, setVenueCostFixed] = useState(defaults.venueCostFixed.toString());
-  const [marketingCost, setMarketingCost] = useState(defaults.marketingCost.toString());
-  const [crewCost, setCrewCost] = useState(defaults.crewCost.toString());
+  const [values, setValues] = useState<InputValues>(() => toInputValues(state?.inputs ?? data.defaults));
+  const initialDeal: TicketDeal = state?.deal ?? { ...DEFAULT_DEAL, ...data.deal };
+  const [dealType, setDealType] = useState<DealType>(initialDeal.type);
+  const [dealValues, setDealValues] = useState<DealValues>(() => toDealValues(initialDeal));
 
   // Defer calculation-heavy updates to keep the sliders and inputs responsive.
-  const deferredTicketPrice = useDeferredValue(ticketPrice);
-  const deferredVenueCapacity = useDeferredValue(venueCapacity);
-  const deferredSellThroughRate = useDeferredValue(sellThroughRate);
-  const deferredMerchSpendPerGuest = useDeferredValue(merchSpendPerGuest);
-  const deferredVenueFeePercent = useDeferredValue(venueFeePercent);
-  const deferredVenueCostFixed = useDeferredValue(venueCostFixed);
-  const deferredMarketingCost = useDeferredValue(marketingCost);
-  const deferredCrewCost = useDeferredValue(crewCost);
-
+  const deferredValues = useDeferredValue(values);
+  const deferredDealValues = useDeferredValue(dealValues);
+  const deferredInputs = useMemo(() => toNumbers(deferredValues), [deferredValues]);
+  const deferredDeal = useMemo(() => toDeal(dealType, deferredDealValues), [dealType, deferredDealValues]);
 
   const calculations = useMemo(() => {
-    const numTicketPrice = parseFloat(deferredTicketPrice) || 0;
-    const numVenueCapacity = parseFloat(deferredVenueCapacity) || 0;
-    const numSellThroughRate = parseFloat(deferredSellThroughRate) || 0;
-    const numMerchSpendPerGuest = parseFloat(deferredMerchSpendPerGuest) || 0;
-    const numVenueFeePercent = parseFloat(deferredVenueFeePercent) || 0;
-    const numVenueCostFixed = parseFloat(deferredVenueCostFixed) || 0;
-    const numMarketingCost = parseFloat(deferredMarketingCost) || 0;
-    const numCrewCost = parseFloat(deferredCrewCost) || 0;
-
-    const ticketsSold = Math.floor(numVenueCapacity * (numSellThroughRate / 100));
-    const grossTicketRevenue = ticketsSold * numTicketPrice;
-    const grossMerchRevenue = ticketsSold * numMerchSpendPerGuest;
-    const totalGrossRevenue = grossTicketRevenue + grossMerchRevenue;
-
-    const venueCutCost = grossTicketRevenue * (numVenueFeePercent / 100);
-    const totalCosts = venueCutCost + numVenueCostFixed + numMarketingCost + numCrewCost;
-    
-    const netProfit = totalGrossRevenue - totalCosts;
-
-    return { ticketsSold, grossTicketRevenue, grossMerchRevenue, totalGrossRevenue, venueCutCost, totalCosts, netProfit };
-  }, [deferredTicketPrice, deferredVenueCapacity, deferredSellThroughRate, deferredMerchSpendPerGuest, deferredVenueFeePercent, deferredVenueCostFixed, deferredMarketingCost, deferredCrewCost]);
-
-  const handleInputChange = (setter: React.Dispatch<React.SetStateAction<string>>) => (e: ChangeEvent<HTMLInputElement>) => {
-    setter(e.target.value);
+    const show = calculateShow(deferredInputs, deferredDeal);
+    const breakEven = breakEvenTickets(deferredInputs, deferredDeal);
+    const curve = profitCurve(deferredInputs, deferredDeal);
+    return { ...show, breakEven, curve };
+  }, [deferredInputs, deferredDeal]);
+
+  const isSelfPromoted = dealType === 'self';
+  const dealOption = DEAL_OPTIONS.find(option => option.type === dealType) ?? DEAL_OPTIONS[0];
+
+  const reportState = (nextValues: InputValues, nextType: DealType, nextDealValues: DealValues) => {
+    onStateChange?.({ inputs: toNumbers(nextValues), deal: toDeal(nextType, nextDealValues) });
+  };
+
+  const handleInputChange = (key: keyof TicketEstimatorInputs) => (e: ChangeEvent<HTMLInputElement>) => {
+    const newValues = { ...values, [key]: e.target.value };
+    setValues(newValues);
+    reportState(newValues, dealType, dealValues);
+  };
+
+  const handleDealValueChange = (key: DealAmountKey) => (e: ChangeEvent<HTMLInputElement>) => {
+    const newDealValues = { ...dealValues, [key]: e.target.value };
+    setDealValues(newDealValues);
+    reportState(values, dealType, newDealValues);
+  };
+
+  const handleDealTypeChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const newType = e.target.value as DealType;
+    setDealType(newType);
+    reportState(values, newType, dealValues);
   };
   
   return (
@@ -151,11 +234,37 @@ const TicketEstimator: React.FC<TicketEstimatorProps> = ({ data }) => {
         
         {/* Inputs Column */}
         <div className="space-y-8">
+            <div>
+                <h4 className="font-bold text-base text-foreground mb-4">Deal Structure</h4>
+                <div className="space-y-4">
+                    <select
+                        value={dealType}
+                        onChange={handleDealTypeChange}
+                        className="w-full rounded-md border-surface-border bg-background py-2 px-3 text-foreground shadow-sm focus:border-[var(--brand-purple)] focus:ring-0"
+                        aria-label="Deal structure"
+                    >
+                        {DEAL_OPTIONS.map(option => <option key={option.type} value={option.type}>{option.label}</option>)}
+                    </select>
+                    <p className="text-xs text-foreground/60">{dealOption.description}</p>
+                    {(dealType === 'guarantee' || dealType === 'versus' || dealType === 'bonus') && (
+                        <SimpleInputRow id="dealGuarantee" label="Guarantee" value={dealValues.guarantee} onChange={handleDealValueChange('guarantee')} />
+                    )}
+                    {(dealType === 'door' || dealType === 'versus') && (
+                        <InputRow label="Your Share of Net Door" ariaLabel="Your share of the net door" value={dealValues.doorPercent} onChange={handleDealValueChange('doorPercent')} min={0} max={100} step={1} unit="%" />
+                    )}
+                    {dealType === 'bonus' && (
+                        <>
+                            <SimpleInputRow id="dealBonusThreshold" label="Bonus Starts at Gross" value={dealValues.bonusThreshold} onChange={handleDealValueChange('bonusThreshold')} />
+                            <InputRow label="Bonus on Gross Above" ariaLabel="Bonus percentage of gross above the threshold" value={dealValues.bonusPercent} onChange={handleDealValueChange('bonusPercent')} min={0} max={100} step={1} unit="%" />
+                        </>
+                    )}
+                </div>
+            </div>
             <div>
                 <h4 className="font-bold text-base text-foreground mb-4">Show Details</h4>
                 <div className="space-y-4">
-                    <InputRow label="Ticket Price" ariaLabel="Ticket price" value={ticketPrice} onChange={handleInputChange(setTicketPrice)} min={0} max={200} step={1} unit="$" />
-                    <InputRow label="Venue Capacity" ariaLabel="Venue capacity" value={venueCapacity} onChange={handleInputChange(setVenueCapacity)} min={0} max={5000} step={10} />
+                    <InputRow label="Ticket Price" ariaLabel="Ticket price" value={values.ticketPrice} onChange={handleInputChange('ticketPrice')} min={0} max={200} step={1} unit="$" />
+                    <InputRow label="Venue Capacity" ariaLabel="Venue capacity" value={values.venueCapacity} onChange={handleInputChange('venueCapacity')} min={0} max={5000} step={10} />
                     <InputRow
                         label={
                         <div className="flex items-baseline gap-1.5">
@@ -166,8 +275,8 @@ const TicketEstimator: React.FC<TicketEstimatorProps> = ({ data }) => {
                         </div>
                         }
                         ariaLabel="Sell-through rate"
-                        value={sellThroughRate}
-                        onChange={handleInputChange(setSellThroughRate)}
+                        value={values.sellThroughRate}
+                        onChange={handleInputChange('sellThroughRate')}
                         min={0}
                         max={100}
                         step={1}
@@ -178,16 +287,19 @@ const TicketEstimator: React.FC<TicketEstimatorProps> = ({ data }) => {
             <div>
                  <h4 className="font-bold text-base text-foreground mb-4">Revenue Streams</h4>
                  <div className="space-y-4">
-                    <InputRow label="Merch Spend per Guest" ariaLabel="Merch spend per guest" value={merchSpendPerGuest} onChange={handleInputChange(setMerchSpendPerGuest)} min={0} max={100} step={1} unit="$" />
+                    <InputRow label="Merch Spend per Guest" ariaLabel="Merch spend per guest" value={values.merchSpendPerGuest} onChange={handleInputChange('merchSpendPerGuest')} min={0} max={100} step={1} unit="$" />
                  </div>
             </div>
              <div>
-                 <h4 className="font-bold text-base text-foreground mb-4">Expenses</h4>
-                 <div className="space-y-4">
-                    <InputRow label="Venue's Cut of Tickets" ariaLabel="Venue's cut of tickets percentage" value={venueFeePercent} onChange={handleInputChange(setVenueFeePercent)} min={0} max={100} step={1} unit="%" />
-                    <SimpleInputRow id="venueCostFixed" label="Venue Cost (Fixed Fee)" value={venueCostFixed} onChange={handleInputChange(setVenueCostFixed)} />
-                    <SimpleInputRow id="marketingCost" label="Marketing & Promotion" value={marketingCost} onChange={handleInputChange(setMarketingCost)} />
-                    <SimpleInputRow id="crewCost" label="Crew & Staff" value={crewCost} onChange={handleInputChange(setCrewCost)} />
+                 <h4 className="font-bold text-base text-foreground mb-1">Expenses</h4>
+                 {!isSelfPromoted && (
+                    <p className="text-xs text-foreground/60">On a promoter deal the venue and marketing costs come out of the door before it's split. You pay your crew.</p>
+                 )}
+                 <div className="space-y-4 mt-4">
+                    <InputRow label="Venue's Cut of Tickets" ariaLabel="Venue's cut of tickets percentage" value={values.venueFeePercent} onChange={handleInputChange('venueFeePercent')} min={0} max={100} step={1} unit="%" />
+                    <SimpleInputRow id="venueCostFixed" label="Venue Cost (Fixed Fee)" value={values.venueCostFixed} onChange={handleInputChange('venueCostFixed')} />
+                    <SimpleInputRow id="marketingCost" label="Marketing & Promotion" value={values.marketingCost} onChange={handleInputChange('marketingCost')} />
+                    <SimpleInputRow id="crewCost" label="Crew & Staff" value={values.crewCost} onChange={handleInputChange('crewCost')} />
                  </div>
             </div>
         </div>
@@ -204,49 +316,92 @@ const TicketEstimator: React.FC<TicketEstimatorProps> = ({ data }) => {
                 </p>
             </div>
             
+            <div className="bg-background p-4 rounded-lg text-center">
+                <h4 className="text-sm font-bold text-foreground">Break-Even Point</h4>
+                {calculations.breakEven === null ? (
+                    <p className="text-sm text-red-600 dark:text-red-400 mt-1">This show doesn't break even, even at a sell-out.</p>
+                ) : (
+                    <p className="text-sm text-foreground/80 mt-1">
+                        <span className="text-2xl font-extrabold text-brand-orange dark:text-orange-400">{calculations.breakEven}</span> tickets
+                        {deferredInputs.venueCapacity > 0 && <span className="text-foreground/60"> ({Math.round((calculations.breakEven / deferredInputs.venueCapacity) * 100)}% of capacity)</span>}
+                    </p>
+                )}
+            </div>
+
             <div className="bg-background p-4 rounded-lg space-y-3">
                 <h4 className="font-bold text-center text-foreground mb-2">Revenue Sources</h4>
-                 <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium text-foreground/80">Ticket Sales (Gross)</span>
-                    <span className="font-semibold text-foreground text-left">{formatCurrency(calculations.grossTicketRevenue)}</span>
-                </div>
+                {isSelfPromoted ? (
+                    <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium text-foreground/80">Ticket Sales (Gross)</span>
+                        <span className="font-semibold text-foreground text-left">{formatCurrency(calculations.grossTicketRevenue)}</span>
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex justify-between items-center text-foreground/60">
+                            <span className="text-sm">Door: {formatCurrency(calculations.grossTicketRevenue)} gross, {formatCurrency(calculations.netDoor)} net</span>
+                        </div>
+                        <div className="flex justify-between items-center">
+                            <span className="text-sm font-medium text-foreground/80">Your {dealOption.label} Payout</span>
+                            <span className="font-semibold text-foreground text-left">{formatCurrency(calculations.dealPayout)}</span>
+                        </div>
+                    </>
+                )}
                  <div className="flex justify-between items-center">
                     <span className="text-sm font-medium text-foreground/80">Merch Sales (Gross)</span>
                     <span className="font-semibold text-foreground text-left">{formatCurrency(calculations.grossMerchRevenue)}</span>
                 </div>
                 <div className="border-t border-surface-border my-1"></div>
                 <div className="flex justify-between items-center">
-                    <span className="text-sm font-bold text-foreground">Total Gross Revenue</span>
+                    <span className="text-sm font-bold text-foreground">Total Revenue</span>
                     <span className="font-bold text-foreground text-left">{formatCurrency(calculations.totalGrossRevenue)}</span>
                 </div>
             </div>
 
             <div className="bg-background p-4 rounded-lg space-y-3">
                 <h4 className="font-bold text-center text-foreground mb-2">Cost Breakdown</h4>
-                <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium text-foreground/80">Venue's Cut ({parseFloat(deferredVenueFeePercent) || 0}%)</span>
-                    <span className="font-semibold text-foreground text-left">{formatCurrency(calculations.venueCutCost)}</span>
-                </div>
-                <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium text-foreground/80">Venue Cost (Fixed)</span>
-                    <span className="font-semibold text-foreground text-left">{formatCurrency(parseFloat(deferredVenueCostFixed) || 0)}</span>
-                </div>
-                <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium text-foreground/80">Marketing & Promotion</span>
-                    <span className="font-semibold text-foreground text-left">{formatCurrency(parseFloat(deferredMarketingCost) || 0)}</span>
-                </div>
+                {isSelfPromoted ? (
+                    <>
+                        <div className="flex justify-between items-center">
+                            <span className="text-sm font-medium text-foreground/80">Venue's Cut ({deferredInputs.venueFeePercent}%)</span>
+                            <span className="font-semibold text-foreground text-left">{formatCurrency(calculations.venueCutCost)}</span>
+                        </div>
+                        <div className="flex justify-between items-center">
+                            <span className="text-sm font-medium text-foreground/80">Venue Cost (Fixed)</span>
+                            <span className="font-semibold text-foreground text-left">{formatCurrency(deferredInputs.venueCostFixed)}</span>
+                        </div>
+                        <div className="flex justify-between items-center">
+                            <span className="text-sm font-medium text-foreground/80">Marketing & Promotion</span>
+                            <span className="font-semibold text-foreground text-left">{formatCurrency(deferredInputs.marketingCost)}</span>
+                        </div>
+                    </>
+                ) : (
+                    <div className="flex justify-between items-center text-foreground/60">
+                        <span className="text-sm">House Expenses (paid from the door)</span>
+                        <span className="text-sm text-left">{formatCurrency(calculations.houseExpenses)}</span>
+                    </div>
+                )}
                 <div className="flex justify-between items-center">
                     <span className="text-sm font-medium text-foreground/80">Crew & Staff</span>
-                    <span className="font-semibold text-foreground text-left">{formatCurrency(parseFloat(deferredCrewCost) || 0)}</span>
+                    <span className="font-semibold text-foreground text-left">{formatCurrency(deferredInputs.crewCost)}</span>
                 </div>
                 <div className="border-t border-surface-border my-1"></div>
                  <div className="flex justify-between items-center">
-                    <span className="text-sm font-bold text-foreground">Total Costs</span>
+                    <span className="text-sm font-bold text-foreground">Your Total Costs</span>
                     <span className="font-bold text-foreground text-left">{formatCurrency(calculations.totalCosts)}</span>
                 </div>
             </div>
         </div>
       </div>
+
+      <div className="grid md:grid-cols-2 gap-4 mt-6">
+        <ProfitChart
+          points={calculations.curve}
+          current={{ tickets: calculations.ticketsSold, profit: calculations.netProfit }}
+          breakEven={calculations.breakEven}
+        />
+        <SensitivityGrid inputs={deferredInputs} deal={deferredDeal} />
+      </div>
+      {onDiscuss && <DiscussWithCoachButton onClick={() => onDiscuss({ inputs: toNumbers(values), deal: toDeal(dealType, dealValues) })} />}
     </div>
   );
 };
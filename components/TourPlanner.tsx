@@ -0,0 +1,245 @@
+import React, { useState, useMemo, useDeferredValue } from 'react';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import DiscussWithCoachButton from './DiscussWithCoachButton.tsx';
+import { type TourPlannerData, type TourPlannerState, type TourShow, type TourDailyCosts } from '../core/tools/tourPlanner.ts';
+import { type DealType } from '../core/tools/ticketEstimator.ts';
+import { type ToolViewProps } from '../core/tools/types.ts';
+import { calculateTour, dailyCostTotal, nextShowDate } from '../utils/tourMath.ts';
+
+type TourPlannerProps = ToolViewProps<TourPlannerData, TourPlannerState>;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+const profitClasses = (value: number) => (value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400');
+
+const DEAL_LABELS: Record<DealType, string> = {
+  self: 'Self-Promoted',
+  guarantee: 'Guarantee',
+  door: 'Door',
+  versus: 'Versus',
+  bonus: 'Bonus',
+};
+
+const DAILY_COST_INPUTS: { key: keyof TourDailyCosts; label: string }[] = [
+  { key: 'van', label: 'Van / day' },
+  { key: 'hotel', label: 'Hotel / night' },
+  { key: 'perDiem', label: 'Per diem / person' },
+  { key: 'crew', label: 'Crew / day' },
+  { key: 'partySize', label: 'Party size' },
+  { key: 'fuelPerMile', label: 'Fuel / mile' },
+];
+
+const cellInputClasses = 'w-full min-w-0 rounded-md border-surface-border bg-background py-1.5 px-2 text-sm text-foreground shadow-sm focus:border-[var(--brand-purple)] focus:ring-0';
+
+const readNumber = (value: string) => parseFloat(value) || 0;
+
+const SummaryCard: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = 'text-foreground' }) => (
+  <div className="bg-background p-3 rounded-lg text-center">
+    <p className="text-xs font-semibold uppercase tracking-wider text-foreground/60">{label}</p>
+    <p className={`text-xl font-extrabold mt-1 ${className}`}>{value}</p>
+  </div>
+);
+
+const TourPlanner: React.FC<TourPlannerProps> = ({ data, state, onStateChange, onDiscuss }) => {
+  const [plan, setPlan] = useState<TourPlannerState>(() => state ?? data);
+
+  // Defer the tour totals so typing in the table stays responsive on long runs.
+  const deferredPlan = useDeferredValue(plan);
+  const tour = useMemo(() => calculateTour(deferredPlan), [deferredPlan]);
+
+  const commit = (next: TourPlannerState) => {
+    setPlan(next);
+    onStateChange?.(next);
+  };
+
+  const updateShow = (index: number, changes: Partial<TourShow>) => {
+    commit({ ...plan, shows: plan.shows.map((show, i) => (i === index ? { ...show, ...changes } : show)) });
+  };
+
+  const updateDailyCost = (key: keyof TourDailyCosts, value: string) => {
+    commit({ ...plan, dailyCosts: { ...plan.dailyCosts, [key]: readNumber(value) } });
+  };
+
+  const addShow = () => {
+    const last = plan.shows[plan.shows.length - 1];
+    const show: TourShow = {
+      date: nextShowDate(plan.shows),
+      city: '',
+      venue: '',
+      capacity: last?.capacity ?? 200,
+      ticketPrice: last?.ticketPrice ?? 15,
+      sellThroughRate: last?.sellThroughRate ?? 60,
+      dealType: last?.dealType ?? 'guarantee',
+      guarantee: last?.guarantee ?? 0,
+      doorPercent: last?.doorPercent ?? 0,
+      distance: 0,
+    };
+    commit({ ...plan, shows: [...plan.shows, show] });
+  };
+
+  const removeShow = (index: number) => {
+    commit({ ...plan, shows: plan.shows.filter((_, i) => i !== index) });
+  };
+
+  const numberCell = (index: number, key: keyof TourShow, value: number, label: string, step = 1) => (
+    <td className="px-1.5 py-1.5">
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={value === 0 ? '' : value}
+        placeholder="0"
+        onChange={(e) => updateShow(index, { [key]: readNumber(e.target.value) })}
+        className={`${cellInputClasses} w-20`}
+        aria-label={label}
+      />
+    </td>
+  );
+
+  return (
+    <div className="my-6 p-4 md:p-6 rounded-lg border border-surface-border bg-surface">
+      <h3 className="text-lg font-bold text-foreground mb-1">Tour Planner</h3>
+      <p className="text-sm text-foreground/70 mb-6">Edit the routing, deals and road costs to see what each show nets and where the tour's cash stands.</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        <SummaryCard label="Tour Net" value={formatCurrency(tour.net)} className={profitClasses(tour.net)} />
+        <SummaryCard label="Shows / Days" value={`${plan.shows.length} / ${tour.tourDays}`} />
+        <SummaryCard label="Miles" value={Math.round(tour.totalMiles).toLocaleString('en-US')} />
+        <SummaryCard
+          label="Float Needed"
+          value={formatCurrency(Math.abs(tour.lowestCash))}
+          className={tour.lowestCash < 0 ? 'text-brand-orange dark:text-orange-400' : 'text-foreground'}
+        />
+      </div>
+
+      <div className="bg-background p-4 rounded-lg mb-6">
+        <div className="flex flex-wrap justify-between items-baseline gap-2 mb-3">
+          <h4 className="font-bold text-base text-foreground">Road Costs</h4>
+          <span className="text-sm text-foreground/70">Daily burn: <span className="font-semibold text-foreground">{formatCurrency(dailyCostTotal(plan.dailyCosts))}</span></span>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {DAILY_COST_INPUTS.map(({ key, label }) => (
+            <label key={key} className="text-xs font-medium text-foreground/70 space-y-1">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={0}
+                step={key === 'fuelPerMile' ? 0.01 : 1}
+                value={plan.dailyCosts[key] === 0 ? '' : plan.dailyCosts[key]}
+                placeholder="0"
+                onChange={(e) => updateDailyCost(key, e.target.value)}
+                className={cellInputClasses}
+              />
+            </label>
+          ))}
+          <label className="text-xs font-medium text-foreground/70 space-y-1">
+            <span>Merch / guest</span>
+            <input
+              type="number"
+              min={0}
+              value={plan.merchSpendPerGuest === 0 ? '' : plan.merchSpendPerGuest}
+              placeholder="0"
+              onChange={(e) => commit({ ...plan, merchSpendPerGuest: readNumber(e.target.value) })}
+              className={cellInputClasses}
+            />
+          </label>
+          <label className="text-xs font-medium text-foreground/70 space-y-1">
+            <span>Venue cut of tickets (%)</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={plan.venueFeePercent === 0 ? '' : plan.venueFeePercent}
+              placeholder="0"
+              onChange={(e) => commit({ ...plan, venueFeePercent: readNumber(e.target.value) })}
+              className={cellInputClasses}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-surface-border">
+        <table className="min-w-full text-sm">
+          <thead className="bg-background text-left text-xs">
+            <tr>
+              {['Date', 'City', 'Venue', 'Cap.', 'Price', 'Sold %', 'Deal', 'Guarantee', 'Door %', 'Miles', 'Show', 'Road', 'Net', 'Cash'].map(header => (
+                <th key={header} scope="col" className="px-1.5 py-2 font-semibold text-foreground/70 tracking-wide whitespace-nowrap">{header}</th>
+              ))}
+              <th scope="col" className="px-1.5 py-2"><span className="sr-only">Actions</span></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-surface-border">
+            {plan.shows.map((show, index) => {
+              const leg = tour.legs[index];
+              return (
+                <tr key={index} className="hover:bg-background/30">
+                  <td className="px-1.5 py-1.5">
+                    <input type="date" value={show.date} onChange={(e) => updateShow(index, { date: e.target.value })} className={`${cellInputClasses} w-36`} aria-label={`Show ${index + 1} date`} />
+                  </td>
+                  <td className="px-1.5 py-1.5">
+                    <input value={show.city} onChange={(e) => updateShow(index, { city: e.target.value })} className={`${cellInputClasses} w-32`} placeholder="City" aria-label={`Show ${index + 1} city`} />
+                  </td>
+                  <td className="px-1.5 py-1.5">
+                    <input value={show.venue} onChange={(e) => updateShow(index, { venue: e.target.value })} className={`${cellInputClasses} w-32`} placeholder="Venue" aria-label={`Show ${index + 1} venue`} />
+                  </td>
+                  {numberCell(index, 'capacity', show.capacity, `Show ${index + 1} capacity`, 10)}
+                  {numberCell(index, 'ticketPrice', show.ticketPrice, `Show ${index + 1} ticket price`)}
+                  {numberCell(index, 'sellThroughRate', show.sellThroughRate, `Show ${index + 1} sell-through rate`)}
+                  <td className="px-1.5 py-1.5">
+                    <select value={show.dealType} onChange={(e) => updateShow(index, { dealType: e.target.value as DealType })} className={`${cellInputClasses} w-28`} aria-label={`Show ${index + 1} deal`}>
+                      {(Object.keys(DEAL_LABELS) as DealType[]).map(type => <option key={type} value={type}>{DEAL_LABELS[type]}</option>)}
+                    </select>
+                  </td>
+                  {numberCell(index, 'guarantee', show.guarantee, `Show ${index + 1} guarantee`, 50)}
+                  {numberCell(index, 'doorPercent', show.doorPercent, `Show ${index + 1} door percentage`)}
+                  {numberCell(index, 'distance', show.distance, `Show ${index + 1} miles from previous stop`, 10)}
+                  <td className="px-1.5 py-1.5 whitespace-nowrap text-foreground/80">{leg && formatCurrency(leg.result.netProfit)}</td>
+                  <td className="px-1.5 py-1.5 whitespace-nowrap text-foreground/60" title={leg ? `${leg.days} day(s) on the road` : undefined}>{leg && `-${formatCurrency(leg.roadCosts)}`}</td>
+                  <td className={`px-1.5 py-1.5 whitespace-nowrap font-semibold ${leg ? profitClasses(leg.net) : ''}`}>{leg && formatCurrency(leg.net)}</td>
+                  <td className={`px-1.5 py-1.5 whitespace-nowrap font-semibold ${leg ? profitClasses(leg.cumulative) : ''}`}>{leg && formatCurrency(leg.cumulative)}</td>
+                  <td className="px-1.5 py-1.5">
+                    <button onClick={() => removeShow(index)} className="p-1 rounded-md text-foreground/50 hover:text-red-500 hover:bg-red-500/10" aria-label={`Remove show ${index + 1}`}>
+                      <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot className="bg-background border-t-2 border-surface-border font-bold">
+            <tr>
+              <td colSpan={3} className="px-1.5 py-2 text-foreground">Tour Total</td>
+              <td colSpan={2} className="px-1.5 py-2 text-foreground/70 font-medium whitespace-nowrap">{tour.totalTickets.toLocaleString('en-US')} tickets</td>
+              <td colSpan={5} className="px-1.5 py-2 text-foreground/70 font-medium whitespace-nowrap">{formatCurrency(tour.totalGross)} ticket gross</td>
+              <td className="px-1.5 py-2 whitespace-nowrap text-foreground">{formatCurrency(tour.totalIncome)}</td>
+              <td className="px-1.5 py-2 whitespace-nowrap text-foreground/70">-{formatCurrency(tour.totalRoadCosts)}</td>
+              <td colSpan={2} className={`px-1.5 py-2 whitespace-nowrap ${profitClasses(tour.net)}`}>{formatCurrency(tour.net)}</td>
+              <td></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-4">
+        <button onClick={addShow} className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-surface-border text-xs font-semibold text-foreground/80 hover:bg-background">
+          <PlusIcon className="w-3.5 h-3.5" />
+          <span>Add date</span>
+        </button>
+        {tour.lowestCash < 0 && (
+          <p className="text-xs text-foreground/60">The tour's cash dips to {formatCurrency(tour.lowestCash)} along the way. Have that much on hand before you leave.</p>
+        )}
+      </div>
+      {onDiscuss && <DiscussWithCoachButton label="Discuss this tour with my coach" onClick={() => onDiscuss(plan)} />}
+    </div>
+  );
+};
+
+export default TourPlanner;
@@ -1,65 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { SparklesIcon } from './icons/SparklesIcon.tsx';
 import { LoadingIcon } from './icons/LoadingIcon.tsx';
+import { sessionHeaders, readSessionResponse, toApiError } from '../services/apiClient.ts';
+import DiscussWithCoachButton from './DiscussWithCoachButton.tsx';
+import { type BrandingData, type BrandingState, BRANDING_FONTS } from '../core/tools/brandingGuide.ts';
+import { type ToolViewProps } from '../core/tools/types.ts';
 
-interface BrandingData {
-  aesthetic: {
-    name: string;
-    description: string;
-  };
-  palette: {
-    role: 'Primary' | 'Secondary' | 'Accent';
-    hex: string;
-    name: string;
-  }[];
-  typography: {
-    headline: {
-      name: string;
-      sample: string;
-    };
-    body: {
-      name: string;
-      sample: string;
-    };
-  };
-  application: {
-    emoji: string;
-    title: string;
-    description: string;
-  }[];
-}
+type VisualBrandingGuideProps = ToolViewProps<BrandingData, BrandingState>;
 
-interface VisualBrandingGuideProps {
-  data: BrandingData;
-}
+// The model may suggest a font we don't load; keep it selectable so the dropdown reflects the guide.
+const fontOptions = (current: string): string[] =>
+  (BRANDING_FONTS as readonly string[]).includes(current) ? [...BRANDING_FONTS] : [current, ...BRANDING_FONTS];
 
-const FONT_OPTIONS = [
-  { name: 'Oswald', family: "'Oswald', sans-serif" },
-  { name: 'Montserrat', family: "'Montserrat', sans-serif" },
-  { name: 'Playfair Display', family: "'Playfair Display', serif" },
-  { name: 'Lato', family: "'Lato', sans-serif" },
-  { name: 'Inter', family: "'Inter', sans-serif" },
-];
-
-const VisualBrandingGuide: React.FC<VisualBrandingGuideProps> = ({ data }) => {
+const VisualBrandingGuide: React.FC<VisualBrandingGuideProps> = ({ data, state, onStateChange, onDiscuss }) => {
   const { aesthetic, application } = data;
-  const [palette, setPalette] = useState(data.palette);
-  const [typography, setTypography] = useState(data.typography);
+  const [palette, setPalette] = useState(state?.palette ?? data.palette);
+  const [typography, setTypography] = useState(state?.typography ?? data.typography);
   
-  const [logoText, setLogoText] = useState('Your Artist Name');
+  const [logoText, setLogoText] = useState(state?.logoText ?? 'Your Artist Name');
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [generationError, setGenerationError] = useState<string | null>(null);
 
+  const isFirstRender = useRef(true);
   useEffect(() => {
-    setPalette(data.palette);
-    setTypography(data.typography);
-  }, [data]);
+    // Report edits only; the initial values are already what's saved (or the model's defaults).
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    onStateChange?.({ palette, typography, logoText });
+  }, [palette, typography, logoText]);
 
   const handlePaletteChange = (index: number, newHex: string) => {
-    const updatedPalette = [...palette];
-    updatedPalette[index].hex = newHex;
-    setPalette(updatedPalette);
+    setPalette(prev => prev.map((color, i) => (i === index ? { ...color, hex: newHex } : color)));
   };
 
   const handleTypographyChange = (type: 'headline' | 'body', newFontName: string) => {
@@ -104,13 +78,13 @@ const VisualBrandingGuide: React.FC<VisualBrandingGuideProps> = ({ data }) => {
     try {
         const response = await fetch('/api/generate-image', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...sessionHeaders() },
             body: JSON.stringify({ prompt: fullPrompt }),
         });
 
+        readSessionResponse(response);
         if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`API Error: ${response.statusText} - ${errorText}`);
+            throw await toApiError(response);
         }
 
         const result = await response.json();
@@ -181,8 +155,8 @@ const VisualBrandingGuide: React.FC<VisualBrandingGuideProps> = ({ data }) => {
                         className="w-full mt-2 p-2 bg-background border border-surface-border rounded-md text-sm text-foreground focus:ring-1 focus:ring-brand-purple focus:border-brand-purple"
                         aria-label="Select headline font"
                     >
-                        {FONT_OPTIONS.map(font => (
-                            <option key={font.name} value={font.name}>{font.name}</option>
+                        {fontOptions(typography.headline.name).map(font => (
+                            <option key={font} value={font}>{font}</option>
                         ))}
                     </select>
                </div>
@@ -197,8 +171,8 @@ const VisualBrandingGuide: React.FC<VisualBrandingGuideProps> = ({ data }) => {
                         className="w-full mt-2 p-2 bg-background border border-surface-border rounded-md text-sm text-foreground focus:ring-1 focus:ring-brand-purple focus:border-brand-purple"
                         aria-label="Select body font"
                     >
-                        {FONT_OPTIONS.map(font => (
-                            <option key={font.name} value={font.name}>{font.name}</option>
+                        {fontOptions(typography.body.name).map(font => (
+                            <option key={font} value={font}>{font}</option>
                         ))}
                     </select>
                </div>
@@ -267,6 +241,12 @@ const VisualBrandingGuide: React.FC<VisualBrandingGuideProps> = ({ data }) => {
             )}
         </div>
       </div>
+      {onDiscuss && (
+        <DiscussWithCoachButton
+          label="Discuss this look with my coach"
+          onClick={() => onDiscuss({ palette, typography, logoText })}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,7 @@
+import React from 'react';
+
+export const StopIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="currentColor" {...props}>
+    <rect x="6" y="6" width="12" height="12" rx="2"></rect>
+  </svg>
+);
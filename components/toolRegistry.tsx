@@ -0,0 +1,48 @@
+import React from 'react';
+import { type ToolTag, type ToolData, type ToolState, TOOL_DEFINITIONS, TOOL_TAGS } from '../core/tools/registry.ts';
+import { type ToolViewProps } from '../core/tools/types.ts';
+import InteractiveBudgetTable from './InteractiveBudgetTable.tsx';
+import TicketEstimator from './TicketEstimator.tsx';
+import TourPlanner from './TourPlanner.tsx';
+import VisualBrandingGuide from './VisualBrandingGuide.tsx';
+import SplitSheet from './SplitSheet.tsx';
+import RoyaltyCalculator from './RoyaltyCalculator.tsx';
+import RecoupmentSimulator from './RecoupmentSimulator.tsx';
+import ReleaseTimeline from './ReleaseTimeline.tsx';
+import ContentCalendar from './ContentCalendar.tsx';
+import { CalculatorIcon } from './icons/CalculatorIcon.tsx';
+import { TicketIcon } from './icons/TicketIcon.tsx';
+import { RouteIcon } from './icons/RouteIcon.tsx';
+import { BrandingIcon } from './icons/BrandingIcon.tsx';
+import { LegalIcon } from './icons/LegalIcon.tsx';
+import { PublishingIcon } from './icons/PublishingIcon.tsx';
+import { RecordDealIcon } from './icons/RecordDealIcon.tsx';
+import { MarketingIcon } from './icons/MarketingIcon.tsx';
+import { CalendarIcon } from './icons/CalendarIcon.tsx';
+
+interface ToolView<T, S> {
+  component: React.ComponentType<ToolViewProps<T, S>>;
+  icon: React.FC<React.SVGProps<SVGSVGElement>>;
+}
+
+// The UI half of the tool registry (see core/tools/registry.ts). Typed over every ToolTag, so a tool
+// without a component fails the type-check.
+export const TOOL_VIEWS: { [Tag in ToolTag]: ToolView<ToolData<Tag>, ToolState<Tag>> } = {
+  BUDGET_TABLE: { component: InteractiveBudgetTable, icon: CalculatorIcon },
+  TICKET_ESTIMATOR: { component: TicketEstimator, icon: TicketIcon },
+  TOUR_PLANNER: { component: TourPlanner, icon: RouteIcon },
+  ROYALTY_CALCULATOR: { component: RoyaltyCalculator, icon: PublishingIcon },
+  RECOUPMENT_SIMULATOR: { component: RecoupmentSimulator, icon: RecordDealIcon },
+  BRANDING_GUIDE: { component: VisualBrandingGuide, icon: BrandingIcon },
+  RELEASE_TIMELINE: { component: ReleaseTimeline, icon: MarketingIcon },
+  CONTENT_CALENDAR: { component: ContentCalendar, icon: CalendarIcon },
+  SPLIT_SHEET: { component: SplitSheet, icon: LegalIcon },
+};
+
+// Entries for the "Interactive Tools" grid on the welcome screen.
+export const INTERACTIVE_TOOLS = TOOL_TAGS.map(tag => ({
+  tag,
+  title: TOOL_DEFINITIONS[tag].title,
+  icon: TOOL_VIEWS[tag].icon,
+  prompts: TOOL_DEFINITIONS[tag].suggestionPrompts,
+}));
@@ -4,8 +4,6 @@ import { BusinessIcon } from './components/icons/BusinessIcon.tsx';
 import { ManagementIcon } from './components/icons/ManagementIcon.tsx';
 import { MarketingIcon } from './components/icons/MarketingIcon.tsx';
 import { LegalIcon } from './components/icons/LegalIcon.tsx';
-import { TicketIcon } from './components/icons/TicketIcon.tsx';
-import { CalculatorIcon } from './components/icons/CalculatorIcon.tsx';
 import { SYSTEM_INSTRUCTION, ALL_ABOUT_MUSIC_BUSINESS_SUMMARY } from './core/prompts.ts';
 
 // Re-export the imported constants so other frontend components can still access them from here.
@@ -68,19 +66,3 @@ export const TOPIC_SUGGESTIONS = [
   }
 ];
 
-export const TOOL_SUGGESTIONS = [
-    {
-        icon: TicketIcon,
-        title: "Ticket Sale Estimator",
-        prompts: [
-            "Create a ticket sale estimator tool for my next concert.",
-        ]
-    },
-    {
-        icon: CalculatorIcon,
-        title: "Release Budget Calculator",
-        prompts: [
-            "Create a sample budget for a self-funded single release.",
-        ]
-    }
-];
\ No newline at end of file
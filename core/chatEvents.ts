@@ -0,0 +1,19 @@
+import { type TokenUsage } from './types.ts';
+
+// /api/chat streams newline-delimited JSON: one ChatStreamEvent per line, always ending with `done`
+// (or `error` followed by `done` if the model call fails after the response has started).
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+export type ChatStreamEvent =
+  // Visible answer text. Never contains the [SUGGESTIONS] tag.
+  | { type: 'delta'; text: string }
+  // Follow-up prompts parsed from the [SUGGESTIONS] tag.
+  | { type: 'suggestions'; suggestions: string[] }
+  // Emitted once per interactive block (e.g. [BUDGET_TABLE]) when its closing tag arrives. The block
+  // markup itself is part of the delta text; `valid` says whether its JSON body matched the tool's schema.
+  | { type: 'tool_block'; tag: string; index: number; valid: boolean }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+export const encodeChatEvent = (event: ChatStreamEvent): string => `${JSON.stringify(event)}\n`;
@@ -0,0 +1,56 @@
+// A small subset of JSON Schema, enough to describe the payloads of the interactive tool blocks
+// without pulling a validator library into both the browser bundle and the API.
+export type JsonSchema =
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: readonly string[] }
+  | { type: 'array'; items: JsonSchema; minItems?: number; maxItems?: number }
+  | { type: 'string'; enum?: readonly string[]; pattern?: string; minLength?: number }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number }
+  | { type: 'boolean' };
+
+const describe = (path: string) => path || 'value';
+
+// Returns a readable description of the first problem found, or null if `value` matches `schema`.
+export const validateJson = (schema: JsonSchema, value: unknown, path = ''): string | null => {
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return `${describe(path)} must be an object`;
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) return `${path ? `${path}.` : ''}${key} is missing`;
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] === undefined) continue;
+        const error = validateJson(propertySchema, record[key], path ? `${path}.${key}` : key);
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return `${describe(path)} must be a list`;
+      if (schema.minItems !== undefined && value.length < schema.minItems) return `${describe(path)} needs at least ${schema.minItems} item(s)`;
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) return `${describe(path)} allows at most ${schema.maxItems} item(s)`;
+      for (let index = 0; index < value.length; index++) {
+        const error = validateJson(schema.items, value[index], `${path}[${index}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'string': {
+      if (typeof value !== 'string') return `${describe(path)} must be text`;
+      if (schema.enum && !schema.enum.includes(value)) return `${describe(path)} must be one of ${schema.enum.join(', ')}`;
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) return `${describe(path)} has an invalid format`;
+      if (schema.minLength !== undefined && value.length < schema.minLength) return `${describe(path)} is too short`;
+      return null;
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${describe(path)} must be a number`;
+      if (schema.type === 'integer' && !Number.isInteger(value)) return `${describe(path)} must be a whole number`;
+      if (schema.minimum !== undefined && value < schema.minimum) return `${describe(path)} must be at least ${schema.minimum}`;
+      if (schema.maximum !== undefined && value > schema.maximum) return `${describe(path)} must be at most ${schema.maximum}`;
+      return null;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${describe(path)} must be true or false`;
+  }
+};
@@ -0,0 +1,27 @@
+// Average per-stream payouts used by the royalty calculator, in USD. These move every quarter and vary
+// by country and subscription tier, so they are kept here, apart from the calculator, to be updated on
+// their own. `masterRate` is what the platform pays the recording's owner per stream; `publishingRate`
+// is the mechanical and performance money paid on the song itself, before the publisher's cut.
+export interface PlatformRate {
+  id: string;
+  name: string;
+  masterRate: number;
+  publishingRate: number;
+}
+
+export const STREAMING_RATES_UPDATED = '2024';
+
+export const STREAMING_RATES: PlatformRate[] = [
+  { id: 'spotify', name: 'Spotify', masterRate: 0.0035, publishingRate: 0.0006 },
+  { id: 'apple_music', name: 'Apple Music', masterRate: 0.0076, publishingRate: 0.0012 },
+  { id: 'youtube_music', name: 'YouTube Music', masterRate: 0.0020, publishingRate: 0.0004 },
+  { id: 'amazon_music', name: 'Amazon Music', masterRate: 0.0040, publishingRate: 0.0007 },
+  { id: 'tidal', name: 'Tidal', masterRate: 0.0125, publishingRate: 0.0020 },
+  { id: 'deezer', name: 'Deezer', masterRate: 0.0064, publishingRate: 0.0010 },
+  { id: 'soundcloud', name: 'SoundCloud', masterRate: 0.0030, publishingRate: 0.0005 },
+  { id: 'tiktok', name: 'TikTok', masterRate: 0.0003, publishingRate: 0.0001 },
+];
+
+export const STREAMING_PLATFORM_IDS = STREAMING_RATES.map(rate => rate.id);
+
+export const findPlatformRate = (id: string): PlatformRate | undefined => STREAMING_RATES.find(rate => rate.id === id);
@@ -0,0 +1,121 @@
+import { type ToolDefinition } from './types.ts';
+
+// Fonts loaded in index.html. The prompt asks the model to pick from these so previews render correctly.
+export const BRANDING_FONTS = ['Oswald', 'Montserrat', 'Playfair Display', 'Lato', 'Inter'] as const;
+
+export const PALETTE_ROLES = ['Primary', 'Secondary', 'Accent'] as const;
+export type PaletteRole = typeof PALETTE_ROLES[number];
+
+export interface BrandingData {
+  aesthetic: {
+    name: string;
+    description: string;
+  };
+  palette: {
+    role: PaletteRole;
+    hex: string;
+    name: string;
+  }[];
+  typography: {
+    headline: {
+      name: string;
+      sample: string;
+    };
+    body: {
+      name: string;
+      sample: string;
+    };
+  };
+  application: {
+    emoji: string;
+    title: string;
+    description: string;
+  }[];
+}
+
+// The palette and fonts after the user's tweaks, plus the name last used for logo generation.
+export interface BrandingState {
+  palette: BrandingData['palette'];
+  typography: BrandingData['typography'];
+  logoText: string;
+}
+
+const fontSample = {
+  type: 'object',
+  required: ['name', 'sample'],
+  properties: { name: { type: 'string' }, sample: { type: 'string' } },
+} as const;
+
+const paletteSchema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    required: ['role', 'hex', 'name'],
+    properties: {
+      role: { type: 'string', enum: PALETTE_ROLES },
+      hex: { type: 'string', pattern: '^#[0-9a-fA-F]{6}$' },
+      name: { type: 'string' },
+    },
+  },
+} as const;
+
+const typographySchema = {
+  type: 'object',
+  required: ['headline', 'body'],
+  properties: { headline: fontSample, body: fontSample },
+} as const;
+
+export const brandingGuideTool: ToolDefinition<BrandingData, 'BRANDING_GUIDE', BrandingState> = {
+  tag: 'BRANDING_GUIDE',
+  title: 'Visual Branding Guide',
+  schema: {
+    type: 'object',
+    required: ['aesthetic', 'palette', 'typography', 'application'],
+    properties: {
+      aesthetic: {
+        type: 'object',
+        required: ['name', 'description'],
+        properties: { name: { type: 'string' }, description: { type: 'string' } },
+      },
+      palette: paletteSchema,
+      typography: typographySchema,
+      application: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['emoji', 'title', 'description'],
+          properties: { emoji: { type: 'string' }, title: { type: 'string' }, description: { type: 'string' } },
+        },
+      },
+    },
+  },
+  example: {
+    aesthetic: { name: 'Neon Noir', description: 'Moody, cinematic visuals with electric accents.' },
+    palette: [
+      { role: 'Primary', hex: '#1A1A2E', name: 'Midnight' },
+      { role: 'Secondary', hex: '#E94560', name: 'Signal Red' },
+      { role: 'Accent', hex: '#0FF0FC', name: 'Electric Cyan' },
+    ],
+    typography: {
+      headline: { name: 'Oswald', sample: 'NEW SINGLE OUT NOW' },
+      body: { name: 'Inter', sample: 'Catch the band live this summer.' },
+    },
+    application: [{ emoji: '📸', title: 'Press Photos', description: 'How to apply the look.' }],
+  },
+  promptTrigger: 'When a user asks for a visual branding guide, brand identity, color palette or logo direction, you MUST format it as an interactive branding guide.',
+  promptRules: `Palette roles must be Primary, Secondary or Accent, hex codes must be six-digit (#RRGGBB), and both fonts must be one of: ${BRANDING_FONTS.join(', ')}.`,
+  suggestionPrompts: [
+    'Create a visual branding guide for my music project.',
+  ],
+  stateSchema: {
+    type: 'object',
+    required: ['palette', 'typography', 'logoText'],
+    properties: {
+      // Hex values are free text while the user types, so only their type is checked here.
+      palette: { type: 'array', items: { type: 'object', required: ['role', 'hex', 'name'], properties: { role: { type: 'string', enum: PALETTE_ROLES }, hex: { type: 'string' }, name: { type: 'string' } } } },
+      typography: typographySchema,
+      logoText: { type: 'string' },
+    },
+  },
+};
@@ -0,0 +1,122 @@
+import { type ToolDefinition } from './types.ts';
+
+export interface BudgetRow {
+  item: string;
+  category?: string;
+  low: number;
+  high: number;
+  estimate: number;
+}
+
+export interface BudgetTableData {
+  headers: string[];
+  rows: BudgetRow[];
+}
+
+// One line of the user's working sheet. `planned` holds one amount per scenario, in scenario order;
+// `actual` is what has really been spent so far, if the user has entered it.
+export interface BudgetLine {
+  id: string;
+  category: string;
+  item: string;
+  low: number;
+  high: number;
+  planned: number[];
+  actual?: number;
+}
+
+// The user's working copy of the model's table: their own lines, grouped by category, planned under one or
+// more named scenarios (e.g. "Lean" vs "Full release"). `baseline` is the scenario actuals are tracked against.
+export interface BudgetTableState {
+  scenarios: string[];
+  lines: BudgetLine[];
+  baseline: number;
+}
+
+export const DEFAULT_BUDGET_CATEGORY = 'General';
+
+// The sheet a table starts as before the user edits it: one line per row of the model's table, planned at its estimate.
+export const createBudgetSheet = (data: BudgetTableData): BudgetTableState => ({
+  scenarios: [data.headers[3] || 'My Estimate'],
+  lines: data.rows.map((row, index) => ({
+    id: `row-${index}`,
+    category: row.category?.trim() || DEFAULT_BUDGET_CATEGORY,
+    item: row.item,
+    low: row.low,
+    high: row.high,
+    planned: [row.estimate],
+  })),
+  baseline: 0,
+});
+
+// Edits saved before the table became a sheet were one estimate per row of the model's table.
+const migrateEstimates = (state: unknown, data: BudgetTableData): BudgetTableState | undefined => {
+  const estimates = (state as { estimates?: unknown } | null)?.estimates;
+  if (!Array.isArray(estimates)) return undefined;
+  const sheet = createBudgetSheet(data);
+  return {
+    ...sheet,
+    lines: sheet.lines.map((line, index) => typeof estimates[index] === 'number' ? { ...line, planned: [estimates[index]] } : line),
+  };
+};
+
+export const budgetTableTool: ToolDefinition<BudgetTableData, 'BUDGET_TABLE', BudgetTableState> = {
+  tag: 'BUDGET_TABLE',
+  title: 'Release Budget Calculator',
+  schema: {
+    type: 'object',
+    required: ['headers', 'rows'],
+    properties: {
+      headers: { type: 'array', items: { type: 'string' } },
+      rows: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['item', 'low', 'high', 'estimate'],
+          properties: {
+            item: { type: 'string' },
+            category: { type: 'string' },
+            low: { type: 'number', minimum: 0 },
+            high: { type: 'number', minimum: 0 },
+            estimate: { type: 'number', minimum: 0 },
+          },
+        },
+      },
+    },
+  },
+  example: {
+    headers: ['Item', 'Industry Low End', 'Industry High End', 'My Example Estimate'],
+    rows: [{ item: 'Line Item Name', category: 'Category Name', low: 100, high: 500, estimate: 250 }],
+  },
+  promptTrigger: 'When a user asks for a budget, you MUST format it as an interactive budget table.',
+  promptRules: 'Give every row a short "category" (e.g. "Recording", "Marketing", "Visuals") so related line items are grouped with a subtotal. Amounts may include cents.',
+  suggestionPrompts: [
+    'Create a sample budget for a self-funded single release.',
+  ],
+  migrateState: migrateEstimates,
+  stateSchema: {
+    type: 'object',
+    required: ['scenarios', 'lines', 'baseline'],
+    properties: {
+      scenarios: { type: 'array', minItems: 1, items: { type: 'string' } },
+      lines: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'category', 'item', 'low', 'high', 'planned'],
+          properties: {
+            id: { type: 'string' },
+            category: { type: 'string' },
+            item: { type: 'string' },
+            low: { type: 'number' },
+            high: { type: 'number' },
+            planned: { type: 'array', items: { type: 'number' } },
+            actual: { type: 'number' },
+          },
+        },
+      },
+      baseline: { type: 'integer', minimum: 0 },
+    },
+  },
+};
@@ -0,0 +1,91 @@
+import { type ToolDefinition } from './types.ts';
+
+export const CALENDAR_VIEWS = ['week', 'month'] as const;
+export type CalendarView = typeof CALENDAR_VIEWS[number];
+
+export const POST_STATUSES = ['idea', 'draft', 'scheduled', 'posted'] as const;
+export type PostStatus = typeof POST_STATUSES[number];
+
+// One planned post. `day` counts from the first day of the plan (0 is the start date), so the model can
+// lay out a plan without knowing the calendar date and the user can move the whole plan at once.
+export interface ContentPost {
+  day: number;
+  time: string; // HH:MM, or empty when it isn't decided yet
+  platform: string;
+  pillar: string;
+  format: string;
+  caption: string;
+  status: PostStatus;
+}
+
+export interface ContentCalendarData {
+  title: string;
+  view: CalendarView;
+  // YYYY-MM-DD. Only set when the user named a date; otherwise the plan starts today.
+  startDate?: string;
+  posts: ContentPost[];
+}
+
+// The calendar as the user last arranged it.
+export interface ContentCalendarState {
+  title: string;
+  view: CalendarView;
+  startDate: string;
+  posts: ContentPost[];
+}
+
+const DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}$';
+const TIME_PATTERN = '^(\\d{2}:\\d{2})?$';
+
+const postSchema = (day: { type: 'integer'; minimum?: number; maximum?: number }) => ({
+  type: 'object',
+  required: ['day', 'time', 'platform', 'pillar', 'format', 'caption', 'status'],
+  properties: {
+    day,
+    time: { type: 'string', pattern: TIME_PATTERN },
+    platform: { type: 'string' },
+    pillar: { type: 'string' },
+    format: { type: 'string' },
+    caption: { type: 'string' },
+    status: { type: 'string', enum: POST_STATUSES },
+  },
+} as const);
+
+export const contentCalendarTool: ToolDefinition<ContentCalendarData, 'CONTENT_CALENDAR', ContentCalendarState> = {
+  tag: 'CONTENT_CALENDAR',
+  title: 'Content Calendar',
+  schema: {
+    type: 'object',
+    required: ['title', 'view', 'posts'],
+    properties: {
+      title: { type: 'string' },
+      view: { type: 'string', enum: CALENDAR_VIEWS },
+      startDate: { type: 'string', pattern: DATE_PATTERN },
+      posts: { type: 'array', minItems: 1, items: postSchema({ type: 'integer', minimum: 0, maximum: 41 }) },
+    },
+  },
+  example: {
+    title: 'Release Week: Midnight Drive',
+    view: 'week',
+    posts: [
+      { day: 0, time: '18:00', platform: 'TikTok', pillar: 'Behind the Scenes', format: 'Short video', caption: 'The 3am voice memo that became Midnight Drive 🌙', status: 'draft' },
+      { day: 2, time: '12:00', platform: 'Instagram', pillar: 'Release', format: 'Carousel', caption: 'Midnight Drive is out now. Link in bio.', status: 'idea' },
+    ],
+  },
+  promptTrigger: 'When a user asks for a content plan, posting schedule or social rollout, you MUST format it as an interactive content calendar.',
+  promptRules: '"day" counts from the first day of the plan (0 is day one); use "view": "week" for plans up to 7 days and "month" for longer ones. Only include "startDate" (YYYY-MM-DD) when the user gave an actual date. "time" is HH:MM or empty. "status" is one of idea, draft, scheduled or posted.',
+  suggestionPrompts: [
+    'Give me a 7-day content plan for the week my new song drops.',
+    'Plan a month of TikTok and Instagram posts around my content pillars.',
+  ],
+  stateSchema: {
+    type: 'object',
+    required: ['title', 'view', 'startDate', 'posts'],
+    properties: {
+      title: { type: 'string' },
+      view: { type: 'string', enum: CALENDAR_VIEWS },
+      startDate: { type: 'string', pattern: DATE_PATTERN },
+      posts: { type: 'array', items: postSchema({ type: 'integer' }) },
+    },
+  },
+};
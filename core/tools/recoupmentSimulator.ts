@@ -0,0 +1,99 @@
+import { type JsonSchema } from '../jsonSchema.ts';
+import { type ToolDefinition } from './types.ts';
+
+// The revenue streams the simulator projects. Recorded music is collected by the label and credited to
+// the artist at their royalty rate; the others are the artist's own income, of which a 360 deal takes a cut.
+export const REVENUE_STREAMS = ['recorded', 'touring', 'merch', 'publishing'] as const;
+export type RevenueStream = typeof REVENUE_STREAMS[number];
+
+export type ParticipationStream = Exclude<RevenueStream, 'recorded'>;
+
+export interface DealOffer {
+  name: string;
+  advance: number;
+  // Recording, video and tour support costs charged against the artist's royalties on top of the advance.
+  recoupableCosts: number;
+  royaltyPercent: number;
+  // The label's 360 share of each non-recorded stream; 0 when the deal isn't a 360.
+  participation: Record<ParticipationStream, number>;
+}
+
+export interface RecoupmentSimulatorData {
+  offers: DealOffer[];
+  // Projected monthly revenue per stream in the first month, before any deal.
+  monthlyRevenue: Record<RevenueStream, number>;
+  // Month-over-month change applied to every stream; negative for a catalog that tails off.
+  monthlyChangePercent: number;
+  months: number;
+}
+
+export type RecoupmentSimulatorState = RecoupmentSimulatorData;
+
+export const MAX_OFFERS = 2;
+export const MAX_MONTHS = 120;
+
+const amount = { type: 'number', minimum: 0 } as const;
+const percent = { type: 'number', minimum: 0, maximum: 100 } as const;
+const anyNumber = { type: 'number' } as const;
+
+// The model's payload is range-checked; the saved state accepts whatever the user typed.
+const streamsSchema = (number: JsonSchema): JsonSchema => ({
+  type: 'object',
+  required: REVENUE_STREAMS,
+  properties: Object.fromEntries(REVENUE_STREAMS.map(stream => [stream, number])),
+});
+
+const offerSchema = (number: JsonSchema, share: JsonSchema): JsonSchema => ({
+  type: 'object',
+  required: ['name', 'advance', 'recoupableCosts', 'royaltyPercent', 'participation'],
+  properties: {
+    name: { type: 'string' },
+    advance: number,
+    recoupableCosts: number,
+    royaltyPercent: share,
+    participation: {
+      type: 'object',
+      required: ['touring', 'merch', 'publishing'],
+      properties: { touring: share, merch: share, publishing: share },
+    },
+  },
+});
+
+export const recoupmentSimulatorTool: ToolDefinition<RecoupmentSimulatorData, 'RECOUPMENT_SIMULATOR', RecoupmentSimulatorState> = {
+  tag: 'RECOUPMENT_SIMULATOR',
+  title: 'Recoupment Simulator',
+  schema: {
+    type: 'object',
+    required: ['offers', 'monthlyRevenue', 'monthlyChangePercent', 'months'],
+    properties: {
+      offers: { type: 'array', minItems: 1, maxItems: MAX_OFFERS, items: offerSchema(amount, percent) },
+      monthlyRevenue: streamsSchema(amount),
+      monthlyChangePercent: { type: 'number', minimum: -100, maximum: 100 },
+      months: { type: 'integer', minimum: 1, maximum: MAX_MONTHS },
+    },
+  },
+  example: {
+    offers: [
+      { name: 'Major Label 360', advance: 100000, recoupableCosts: 50000, royaltyPercent: 18, participation: { touring: 20, merch: 25, publishing: 10 } },
+      { name: 'Indie Label', advance: 25000, recoupableCosts: 15000, royaltyPercent: 50, participation: { touring: 0, merch: 0, publishing: 0 } },
+    ],
+    monthlyRevenue: { recorded: 15000, touring: 8000, merch: 3000, publishing: 2000 },
+    monthlyChangePercent: -2,
+    months: 36,
+  },
+  promptTrigger: 'When a user asks about a record deal offer, advances, recoupment or 360 deals in numbers, you MUST format it as an interactive recoupment simulator.',
+  promptRules: `Include one or two offers to compare. "recorded" revenue is the label's receipts from the recordings; royalty and participation values are percentages; "months" is at most ${MAX_MONTHS}.`,
+  suggestionPrompts: [
+    'I have two record deal offers. Show me when each one would recoup and what I would actually earn.',
+  ],
+  stateSchema: {
+    type: 'object',
+    required: ['offers', 'monthlyRevenue', 'monthlyChangePercent', 'months'],
+    properties: {
+      offers: { type: 'array', minItems: 1, maxItems: MAX_OFFERS, items: offerSchema(anyNumber, anyNumber) },
+      monthlyRevenue: streamsSchema(anyNumber),
+      monthlyChangePercent: anyNumber,
+      months: anyNumber,
+    },
+  },
+};
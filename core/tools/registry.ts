@@ -0,0 +1,117 @@
+import { validateJson } from '../jsonSchema.ts';
+import type { ToolPart } from '../types.ts';
+import { type ToolDefinition, type ToolParseResult } from './types.ts';
+import { budgetTableTool } from './budgetTable.ts';
+import { ticketEstimatorTool } from './ticketEstimator.ts';
+import { tourPlannerTool } from './tourPlanner.ts';
+import { brandingGuideTool } from './brandingGuide.ts';
+import { splitSheetTool } from './splitSheet.ts';
+import { royaltyCalculatorTool } from './royaltyCalculator.ts';
+import { recoupmentSimulatorTool } from './recoupmentSimulator.ts';
+import { releaseTimelineTool } from './releaseTimeline.ts';
+import { contentCalendarTool } from './contentCalendar.ts';
+
+// Every interactive tool block the coach can emit, in the order they appear in the prompt and on the
+// "Interactive Tools" grid. The system prompt, the chat stream parser, the markdown renderer and the
+// grid are all driven from this list, so adding a tool means adding a definition here and a
+// component in components/toolRegistry.tsx.
+const TOOLS = [ticketEstimatorTool, tourPlannerTool, budgetTableTool, royaltyCalculatorTool, recoupmentSimulatorTool, brandingGuideTool, releaseTimelineTool, contentCalendarTool, splitSheetTool] as const;
+
+type RegisteredTool = typeof TOOLS[number];
+export type ToolTag = RegisteredTool['tag'];
+export type ToolData<Tag extends ToolTag> = Extract<RegisteredTool, { tag: Tag }> extends ToolDefinition<infer T, Tag, unknown> ? T : never;
+export type ToolState<Tag extends ToolTag> = Extract<RegisteredTool, { tag: Tag }> extends ToolDefinition<unknown, Tag, infer S> ? S : never;
+
+export const TOOL_DEFINITIONS = Object.fromEntries(TOOLS.map(tool => [tool.tag, tool])) as { [Tag in ToolTag]: Extract<RegisteredTool, { tag: Tag }> };
+
+export const TOOL_TAGS: ToolTag[] = TOOLS.map(tool => tool.tag);
+
+export const isToolTag = (tag: string): tag is ToolTag => Object.prototype.hasOwnProperty.call(TOOL_DEFINITIONS, tag);
+
+// Matches one complete block: [TAG]body[/TAG]. Group 1 is the tag, group 2 the JSON body.
+export const createToolBlockRegex = () => new RegExp(`\\[(${TOOL_TAGS.join('|')})\\]([\\s\\S]*?)\\[\\/\\1\\]`, 'g');
+
+export type MessageSegment =
+  | { type: 'markdown'; text: string }
+  | { type: 'tool'; tag: ToolTag; body: string }
+  // A block whose closing tag hasn't arrived yet (streaming only).
+  | { type: 'pendingTool'; tag: ToolTag };
+
+// Splits message text into markdown and complete tool blocks, in order.
+export const splitToolBlocks = (text: string): MessageSegment[] => {
+  const segments: MessageSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(createToolBlockRegex())) {
+    if (match.index! > lastIndex) segments.push({ type: 'markdown', text: text.slice(lastIndex, match.index) });
+    segments.push({ type: 'tool', tag: match[1] as ToolTag, body: match[2] });
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ type: 'markdown', text: text.slice(lastIndex) });
+  return segments;
+};
+
+// Like splitToolBlocks, for a reply that is still streaming: a trailing block that has opened but not yet
+// closed becomes a pendingTool segment, and a tag that is only partly written is held back.
+export const splitStreamingToolBlocks = (text: string): MessageSegment[] => {
+  const segments = splitToolBlocks(text);
+  const last = segments[segments.length - 1];
+  if (last?.type !== 'markdown') return segments;
+
+  const open = last.text.match(new RegExp(`\\[(${TOOL_TAGS.join('|')})\\]`));
+  if (open) {
+    const before = last.text.slice(0, open.index);
+    return [...segments.slice(0, -1), ...(before ? [{ type: 'markdown' as const, text: before }] : []), { type: 'pendingTool', tag: open[1] as ToolTag }];
+  }
+  const partialTag = last.text.match(/\[[A-Z_]*$/);
+  if (partialTag && TOOL_TAGS.some(tag => `[${tag}]`.startsWith(partialTag[0]))) {
+    const before = last.text.slice(0, partialTag.index);
+    return [...segments.slice(0, -1), ...(before ? [{ type: 'markdown' as const, text: before }] : [])];
+  }
+  return segments;
+};
+
+export const parseToolBlock = <Tag extends ToolTag>(tag: Tag, body: string): ToolParseResult<ToolData<Tag>> => {
+  const definition = TOOL_DEFINITIONS[tag] as unknown as ToolDefinition<ToolData<Tag>>;
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return { ok: false, error: 'The tool data was not valid JSON.' };
+  }
+  const schemaError = validateJson(definition.schema, data);
+  if (schemaError) {
+    return { ok: false, error: `The tool data didn't match the expected format: ${schemaError}.` };
+  }
+  const checkError = definition.check?.(data as ToolData<Tag>);
+  if (checkError) {
+    return { ok: false, error: checkError };
+  }
+  return { ok: true, data: data as ToolData<Tag> };
+};
+
+// The MARKDOWN RULES lines that teach the model each tool's tag and structure.
+export const buildToolPromptRules = (): string =>
+  TOOLS.map((definition: ToolDefinition<unknown>) => {
+    const rules = definition.promptRules ? ` ${definition.promptRules}` : '';
+    return `- ${definition.promptTrigger} Wrap a valid JSON object with [${definition.tag}] and [/${definition.tag}] tags. The JSON object MUST have this exact structure: ${JSON.stringify(definition.example)}${rules}`;
+  }).join('\n');
+
+export const isValidToolState = (tag: string, state: unknown): boolean =>
+  isToolTag(tag) && validateJson(TOOL_DEFINITIONS[tag].stateSchema, state) === null;
+
+// Saved state for a tool block in the tool's current shape: as saved while it matches the stateSchema,
+// converted when the tool can migrate it given the block's `body`, otherwise undefined.
+export const currentToolState = (tag: string, state: unknown, body: string | undefined): unknown => {
+  if (isValidToolState(tag, state)) return state;
+  if (!isToolTag(tag) || body === undefined) return undefined;
+  const { migrateState } = TOOL_DEFINITIONS[tag] as unknown as ToolDefinition<unknown>;
+  const parsed = migrateState ? parseToolBlock(tag, body) : null;
+  const migrated = parsed?.ok ? migrateState!(state, parsed.data) : undefined;
+  return isValidToolState(tag, migrated) ? migrated : undefined;
+};
+
+// How a shared tool state is presented to the model: labelled JSON it can reason about.
+export const describeToolPart = (part: ToolPart): string => {
+  const title = isToolTag(part.tool) ? TOOL_DEFINITIONS[part.tool].title : part.tool;
+  return `[The user's current values in the ${title} (${part.tool} block #${part.blockIndex + 1} of your earlier reply), as JSON]\n${JSON.stringify(part.state)}`;
+};
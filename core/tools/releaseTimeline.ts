@@ -0,0 +1,90 @@
+import { type ToolDefinition } from './types.ts';
+
+export const MILESTONE_CATEGORIES = ['distribution', 'pitching', 'promotion', 'content', 'admin'] as const;
+export type MilestoneCategory = typeof MILESTONE_CATEGORIES[number];
+
+// A step of the rollout, dated relative to release day: -28 is four weeks before, 0 is release day and
+// positive offsets follow the release.
+export interface ReleaseMilestone {
+  title: string;
+  description: string;
+  offsetDays: number;
+  category: MilestoneCategory;
+}
+
+export interface ReleaseTimelineData {
+  releaseTitle: string;
+  // YYYY-MM-DD. Only set when the user named a date; otherwise the timeline picks one the earliest milestone still fits before.
+  releaseDate?: string;
+  milestones: ReleaseMilestone[];
+}
+
+export interface ReleaseTask extends ReleaseMilestone {
+  done: boolean;
+}
+
+// The plan as the user last edited it: the release date they settled on and the tasks they've checked off.
+export interface ReleaseTimelineState {
+  releaseTitle: string;
+  releaseDate: string;
+  tasks: ReleaseTask[];
+}
+
+const DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}$';
+
+const milestoneProperties = {
+  title: { type: 'string' },
+  description: { type: 'string' },
+  offsetDays: { type: 'integer', minimum: -365, maximum: 365 },
+  category: { type: 'string', enum: MILESTONE_CATEGORIES },
+} as const;
+
+export const releaseTimelineTool: ToolDefinition<ReleaseTimelineData, 'RELEASE_TIMELINE', ReleaseTimelineState> = {
+  tag: 'RELEASE_TIMELINE',
+  title: 'Release Timeline',
+  schema: {
+    type: 'object',
+    required: ['releaseTitle', 'milestones'],
+    properties: {
+      releaseTitle: { type: 'string' },
+      releaseDate: { type: 'string', pattern: DATE_PATTERN },
+      milestones: {
+        type: 'array',
+        minItems: 1,
+        items: { type: 'object', required: ['title', 'description', 'offsetDays', 'category'], properties: milestoneProperties },
+      },
+    },
+  },
+  example: {
+    releaseTitle: 'Midnight Drive',
+    milestones: [
+      { title: 'Master and artwork final', description: 'Approve the final master and 3000x3000 cover art.', offsetDays: -42, category: 'admin' },
+      { title: 'Upload to distributor', description: 'Deliver audio, artwork and metadata so stores have it in time.', offsetDays: -35, category: 'distribution' },
+      { title: 'Pitch to Spotify editorial', description: 'Submit the unreleased track in Spotify for Artists.', offsetDays: -28, category: 'pitching' },
+      { title: 'Launch pre-save', description: 'Share the pre-save link everywhere.', offsetDays: -21, category: 'promotion' },
+      { title: 'Teaser clip', description: 'Post a 15-second hook clip on short-form video.', offsetDays: -7, category: 'content' },
+      { title: 'Release day', description: 'Go live on every channel and thank early listeners.', offsetDays: 0, category: 'promotion' },
+    ],
+  },
+  promptTrigger: 'When a user asks for a release plan or rollout for a single, EP or album, you MUST format it as an interactive release timeline.',
+  promptRules: '"offsetDays" counts days from release day (negative before it, 0 on it). List milestones in date order. Only include "releaseDate" (YYYY-MM-DD) when the user gave an actual date.',
+  suggestionPrompts: [
+    'I have a new single coming out in 2 months. Give me a step-by-step release plan.',
+  ],
+  stateSchema: {
+    type: 'object',
+    required: ['releaseTitle', 'releaseDate', 'tasks'],
+    properties: {
+      releaseTitle: { type: 'string' },
+      releaseDate: { type: 'string', pattern: DATE_PATTERN },
+      tasks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['title', 'description', 'offsetDays', 'category', 'done'],
+          properties: { ...milestoneProperties, offsetDays: { type: 'integer' }, done: { type: 'boolean' } },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,90 @@
+import { type ToolDefinition } from './types.ts';
+import { STREAMING_PLATFORM_IDS } from '../royaltyRates.ts';
+
+export interface RoyaltyDealTerms {
+  distributorFeePercent: number;
+  // The artist's royalty on master income; 100 when the artist owns their masters.
+  artistRoyaltyPercent: number;
+  // Producer points, as a percentage of master income, paid out of the artist's royalty.
+  producerPoints: number;
+  // The songwriter's share of publishing income, after the publisher's cut.
+  publishingSharePercent: number;
+}
+
+export interface RoyaltyCalculatorData extends RoyaltyDealTerms {
+  streams: { platform: string; monthlyStreams: number }[];
+}
+
+// A platform row with the rates the user is projecting with, which start out as the shared defaults.
+export interface RoyaltyStreamLine {
+  platform: string;
+  monthlyStreams: number;
+  masterRate: number;
+  publishingRate: number;
+}
+
+export interface RoyaltyCalculatorState extends RoyaltyDealTerms {
+  streams: RoyaltyStreamLine[];
+}
+
+const percent = { type: 'number', minimum: 0, maximum: 100 } as const;
+const TERM_FIELDS = ['distributorFeePercent', 'artistRoyaltyPercent', 'producerPoints', 'publishingSharePercent'] as const;
+
+export const royaltyCalculatorTool: ToolDefinition<RoyaltyCalculatorData, 'ROYALTY_CALCULATOR', RoyaltyCalculatorState> = {
+  tag: 'ROYALTY_CALCULATOR',
+  title: 'Streaming Royalty Calculator',
+  schema: {
+    type: 'object',
+    required: ['streams', ...TERM_FIELDS],
+    properties: {
+      streams: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['platform', 'monthlyStreams'],
+          properties: {
+            platform: { type: 'string', enum: STREAMING_PLATFORM_IDS },
+            monthlyStreams: { type: 'number', minimum: 0 },
+          },
+        },
+      },
+      distributorFeePercent: percent,
+      artistRoyaltyPercent: percent,
+      producerPoints: percent,
+      publishingSharePercent: percent,
+    },
+  },
+  example: {
+    streams: [{ platform: 'spotify', monthlyStreams: 50000 }, { platform: 'apple_music', monthlyStreams: 10000 }],
+    distributorFeePercent: 15,
+    artistRoyaltyPercent: 100,
+    producerPoints: 3,
+    publishingSharePercent: 50,
+  },
+  promptTrigger: 'When a user asks how much they could earn from streaming, or about streaming royalties and income projections, you MUST format it as an interactive royalty calculator.',
+  promptRules: `"platform" must be one of ${STREAMING_PLATFORM_IDS.join(', ')}. Use 100 for "artistRoyaltyPercent" when the artist is independent, and 0 for "distributorFeePercent" on flat-fee distributors. Per-stream rates are filled in by the app; do not include them.`,
+  suggestionPrompts: [
+    'How much could I earn from 100,000 monthly streams? Build me a royalty calculator.',
+  ],
+  stateSchema: {
+    type: 'object',
+    required: ['streams', ...TERM_FIELDS],
+    properties: {
+      streams: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['platform', 'monthlyStreams', 'masterRate', 'publishingRate'],
+          properties: {
+            platform: { type: 'string' },
+            monthlyStreams: { type: 'number' },
+            masterRate: { type: 'number' },
+            publishingRate: { type: 'number' },
+          },
+        },
+      },
+      ...Object.fromEntries(TERM_FIELDS.map(key => [key, { type: 'number' }])),
+    },
+  },
+};
@@ -0,0 +1,117 @@
+import { type ToolDefinition } from './types.ts';
+
+// Common performing rights organizations, offered as suggestions. Any other name is accepted.
+export const PRO_SUGGESTIONS = ['ASCAP', 'BMI', 'SESAC', 'GMR', 'SOCAN', 'PRS', 'APRA AMCOS', 'GEMA', 'SACEM', 'JASRAC'];
+
+// One writer and the publisher administering their share. Shares are percentages of the writer's side
+// and of the publisher's side of the song respectively; each side must total 100.
+export interface SplitContributor {
+  name: string;
+  role: string;
+  pro: string;
+  ipi: string;
+  writerShare: number;
+  publisher: string;
+  publisherPro: string;
+  publisherIpi: string;
+  publisherShare: number;
+}
+
+export interface SplitSheetData {
+  songTitle: string;
+  contributors: SplitContributor[];
+}
+
+// The sheet as the user last edited it. `finalizedAt` is set when the user locks it as the agreed version.
+export interface SplitSheetState extends SplitSheetData {
+  date: string; // YYYY-MM-DD
+  finalizedAt?: number;
+}
+
+// Shares are compared to 100 with a small tolerance so thirds (33.33 + 33.33 + 33.34) add up.
+export const SHARE_TOLERANCE = 0.01;
+
+export const sumShares = (contributors: SplitContributor[], key: 'writerShare' | 'publisherShare') =>
+  contributors.reduce((total, contributor) => total + contributor[key], 0);
+
+export const isFullTotal = (total: number) => Math.abs(total - 100) <= SHARE_TOLERANCE;
+
+const share = { type: 'number', minimum: 0, maximum: 100 } as const;
+
+const CONTRIBUTOR_FIELDS = ['name', 'role', 'pro', 'ipi', 'writerShare', 'publisher', 'publisherPro', 'publisherIpi', 'publisherShare'] as const;
+
+export const splitSheetTool: ToolDefinition<SplitSheetData, 'SPLIT_SHEET', SplitSheetState> = {
+  tag: 'SPLIT_SHEET',
+  title: 'Split Sheet Builder',
+  schema: {
+    type: 'object',
+    required: ['songTitle', 'contributors'],
+    properties: {
+      songTitle: { type: 'string' },
+      contributors: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: CONTRIBUTOR_FIELDS,
+          properties: {
+            name: { type: 'string' },
+            role: { type: 'string' },
+            pro: { type: 'string' },
+            ipi: { type: 'string' },
+            writerShare: share,
+            publisher: { type: 'string' },
+            publisherPro: { type: 'string' },
+            publisherIpi: { type: 'string' },
+            publisherShare: share,
+          },
+        },
+      },
+    },
+  },
+  example: {
+    songTitle: 'Song Title',
+    contributors: [
+      { name: 'Writer Name', role: 'Songwriter', pro: 'ASCAP', ipi: '', writerShare: 50, publisher: 'Publisher Name', publisherPro: 'ASCAP', publisherIpi: '', publisherShare: 50 },
+      { name: 'Producer Name', role: 'Producer', pro: 'BMI', ipi: '', writerShare: 50, publisher: '', publisherPro: '', publisherIpi: '', publisherShare: 50 },
+    ],
+  },
+  promptTrigger: 'When a user asks for a split sheet or wants to divide songwriting and publishing splits, you MUST format it as an interactive split sheet.',
+  promptRules: 'Writer shares must total exactly 100 and publisher shares must total exactly 100. Leave IPI numbers and unknown names as empty strings rather than inventing them; a writer without a publisher has an empty "publisher" and keeps their publisher share.',
+  suggestionPrompts: [
+    'Help me build a split sheet for a song I co-wrote with a producer.',
+  ],
+  check: data => {
+    if (!isFullTotal(sumShares(data.contributors, 'writerShare'))) return 'The writer shares in this split sheet do not add up to 100%.';
+    if (!isFullTotal(sumShares(data.contributors, 'publisherShare'))) return 'The publisher shares in this split sheet do not add up to 100%.';
+    return null;
+  },
+  // Shares and text are whatever the user typed; totals are checked in the UI before finalizing.
+  stateSchema: {
+    type: 'object',
+    required: ['songTitle', 'date', 'contributors'],
+    properties: {
+      songTitle: { type: 'string' },
+      date: { type: 'string' },
+      contributors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: CONTRIBUTOR_FIELDS,
+          properties: {
+            name: { type: 'string' },
+            role: { type: 'string' },
+            pro: { type: 'string' },
+            ipi: { type: 'string' },
+            writerShare: { type: 'number' },
+            publisher: { type: 'string' },
+            publisherPro: { type: 'string' },
+            publisherIpi: { type: 'string' },
+            publisherShare: { type: 'number' },
+          },
+        },
+      },
+      finalizedAt: { type: 'number' },
+    },
+  },
+};
@@ -0,0 +1,114 @@
+import { type ToolDefinition } from './types.ts';
+
+export interface TicketEstimatorInputs {
+  ticketPrice: number;
+  venueCapacity: number;
+  sellThroughRate: number;
+  merchSpendPerGuest: number;
+  venueFeePercent: number;
+  venueCostFixed: number;
+  marketingCost: number;
+  crewCost: number;
+}
+
+// How the artist gets paid for the show:
+// - self: self-promoted / venue hire. The artist keeps the door and pays every cost.
+// - guarantee: a flat fee from the promoter, whatever sells.
+// - door: a percentage of the net door (ticket gross minus the venue's cut, fixed fee and marketing).
+// - versus: the guarantee or the door percentage, whichever is higher.
+// - bonus: the guarantee plus a percentage of ticket gross above a threshold.
+export const DEAL_TYPES = ['self', 'guarantee', 'door', 'versus', 'bonus'] as const;
+export type DealType = typeof DEAL_TYPES[number];
+
+export interface TicketDeal {
+  type: DealType;
+  guarantee: number;
+  doorPercent: number;
+  bonusPercent: number;
+  bonusThreshold: number;
+}
+
+export const DEFAULT_DEAL: TicketDeal = { type: 'self', guarantee: 0, doorPercent: 80, bonusPercent: 15, bonusThreshold: 0 };
+
+export interface TicketEstimatorData {
+  defaults: TicketEstimatorInputs;
+  deal?: Partial<TicketDeal>;
+}
+
+// The inputs and deal terms as the user last left them.
+export interface TicketEstimatorState {
+  inputs: TicketEstimatorInputs;
+  deal?: TicketDeal;
+}
+
+const amount = { type: 'number', minimum: 0 } as const;
+const percent = { type: 'number', minimum: 0, maximum: 100 } as const;
+
+const inputsSchema = {
+  type: 'object',
+  required: ['ticketPrice', 'venueCapacity', 'sellThroughRate', 'merchSpendPerGuest', 'venueFeePercent', 'venueCostFixed', 'marketingCost', 'crewCost'],
+  properties: {
+    ticketPrice: amount,
+    venueCapacity: { type: 'integer', minimum: 1 },
+    sellThroughRate: percent,
+    merchSpendPerGuest: amount,
+    venueFeePercent: percent,
+    venueCostFixed: amount,
+    marketingCost: amount,
+    crewCost: amount,
+  },
+} as const;
+
+export const ticketEstimatorTool: ToolDefinition<TicketEstimatorData, 'TICKET_ESTIMATOR', TicketEstimatorState> = {
+  tag: 'TICKET_ESTIMATOR',
+  title: 'Ticket Sale Estimator',
+  schema: {
+    type: 'object',
+    required: ['defaults'],
+    properties: {
+      defaults: inputsSchema,
+      deal: {
+        type: 'object',
+        required: ['type'],
+        properties: {
+          type: { type: 'string', enum: DEAL_TYPES },
+          guarantee: amount,
+          doorPercent: percent,
+          bonusPercent: percent,
+          bonusThreshold: amount,
+        },
+      },
+    },
+  },
+  example: {
+    defaults: { ticketPrice: 20, venueCapacity: 200, sellThroughRate: 75, merchSpendPerGuest: 10, venueFeePercent: 15, venueCostFixed: 500, marketingCost: 200, crewCost: 300 },
+  },
+  promptTrigger: 'When a user asks for a ticket sale estimator, you MUST format it as an interactive ticket estimator.',
+  promptRules: `If the user mentions their offer, add a "deal" object with "type" set to one of ${DEAL_TYPES.join(', ')} ("self" means self-promoted or a venue hire), plus whichever of "guarantee", "doorPercent", "bonusPercent" and "bonusThreshold" apply.`,
+  suggestionPrompts: [
+    'Create a ticket sale estimator tool for my next concert.',
+  ],
+  // Any number is accepted here: the inputs are whatever the user typed, not model output.
+  stateSchema: {
+    type: 'object',
+    required: ['inputs'],
+    properties: {
+      inputs: {
+        type: 'object',
+        required: inputsSchema.required,
+        properties: Object.fromEntries(inputsSchema.required.map(key => [key, { type: 'number' }])),
+      },
+      deal: {
+        type: 'object',
+        required: ['type', 'guarantee', 'doorPercent', 'bonusPercent', 'bonusThreshold'],
+        properties: {
+          type: { type: 'string', enum: DEAL_TYPES },
+          guarantee: { type: 'number' },
+          doorPercent: { type: 'number' },
+          bonusPercent: { type: 'number' },
+          bonusThreshold: { type: 'number' },
+        },
+      },
+    },
+  },
+};
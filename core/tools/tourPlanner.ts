@@ -0,0 +1,133 @@
+import { type ToolDefinition } from './types.ts';
+import { type DealType, DEAL_TYPES } from './ticketEstimator.ts';
+
+export interface TourShow {
+  date: string; // YYYY-MM-DD
+  city: string;
+  venue: string;
+  capacity: number;
+  ticketPrice: number;
+  sellThroughRate: number;
+  dealType: DealType;
+  guarantee: number;
+  doorPercent: number;
+  distance: number; // miles driven from the previous stop
+}
+
+// Costs of keeping the party on the road, charged for every tour day including days off.
+export interface TourDailyCosts {
+  van: number;
+  hotel: number;
+  perDiem: number; // per person
+  crew: number;
+  partySize: number;
+  fuelPerMile: number;
+}
+
+export interface TourPlannerData {
+  shows: TourShow[];
+  dailyCosts: TourDailyCosts;
+  merchSpendPerGuest: number;
+  venueFeePercent: number;
+}
+
+// The whole plan as the user last edited it.
+export type TourPlannerState = TourPlannerData;
+
+const amount = { type: 'number', minimum: 0 } as const;
+const percent = { type: 'number', minimum: 0, maximum: 100 } as const;
+
+const SHOW_FIELDS = ['date', 'city', 'venue', 'capacity', 'ticketPrice', 'sellThroughRate', 'dealType', 'guarantee', 'doorPercent', 'distance'] as const;
+const DAILY_COST_FIELDS = ['van', 'hotel', 'perDiem', 'crew', 'partySize', 'fuelPerMile'] as const;
+
+export const tourPlannerTool: ToolDefinition<TourPlannerData, 'TOUR_PLANNER', TourPlannerState> = {
+  tag: 'TOUR_PLANNER',
+  title: 'Tour Planner',
+  schema: {
+    type: 'object',
+    required: ['shows', 'dailyCosts', 'merchSpendPerGuest', 'venueFeePercent'],
+    properties: {
+      shows: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: SHOW_FIELDS,
+          properties: {
+            date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+            city: { type: 'string' },
+            venue: { type: 'string' },
+            capacity: { type: 'integer', minimum: 1 },
+            ticketPrice: amount,
+            sellThroughRate: percent,
+            dealType: { type: 'string', enum: DEAL_TYPES },
+            guarantee: amount,
+            doorPercent: percent,
+            distance: amount,
+          },
+        },
+      },
+      dailyCosts: {
+        type: 'object',
+        required: DAILY_COST_FIELDS,
+        properties: {
+          van: amount,
+          hotel: amount,
+          perDiem: amount,
+          crew: amount,
+          partySize: { type: 'integer', minimum: 1 },
+          fuelPerMile: amount,
+        },
+      },
+      merchSpendPerGuest: amount,
+      venueFeePercent: percent,
+    },
+  },
+  example: {
+    shows: [
+      { date: '2025-03-01', city: 'Chicago, IL', venue: 'Venue Name', capacity: 300, ticketPrice: 20, sellThroughRate: 70, dealType: 'versus', guarantee: 500, doorPercent: 80, distance: 0 },
+      { date: '2025-03-02', city: 'Milwaukee, WI', venue: 'Venue Name', capacity: 250, ticketPrice: 18, sellThroughRate: 60, dealType: 'guarantee', guarantee: 400, doorPercent: 0, distance: 92 },
+    ],
+    dailyCosts: { van: 120, hotel: 150, perDiem: 25, crew: 200, partySize: 4, fuelPerMile: 0.35 },
+    merchSpendPerGuest: 8,
+    venueFeePercent: 10,
+  },
+  promptTrigger: 'When a user asks to plan a tour or a run of shows, you MUST format it as an interactive tour planner.',
+  promptRules: `List the shows in date order. "dealType" is one of ${DEAL_TYPES.join(', ')}, and "distance" is the drive in miles from the previous show (0 for the first).`,
+  suggestionPrompts: [
+    'Plan a 10-date regional tour for my band and estimate what we would make.',
+  ],
+  // Any number is accepted here: the values are whatever the user typed, not model output.
+  stateSchema: {
+    type: 'object',
+    required: ['shows', 'dailyCosts', 'merchSpendPerGuest', 'venueFeePercent'],
+    properties: {
+      shows: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: SHOW_FIELDS,
+          properties: {
+            date: { type: 'string' },
+            city: { type: 'string' },
+            venue: { type: 'string' },
+            capacity: { type: 'number' },
+            ticketPrice: { type: 'number' },
+            sellThroughRate: { type: 'number' },
+            dealType: { type: 'string', enum: DEAL_TYPES },
+            guarantee: { type: 'number' },
+            doorPercent: { type: 'number' },
+            distance: { type: 'number' },
+          },
+        },
+      },
+      dailyCosts: {
+        type: 'object',
+        required: DAILY_COST_FIELDS,
+        properties: Object.fromEntries(DAILY_COST_FIELDS.map(key => [key, { type: 'number' }])),
+      },
+      merchSpendPerGuest: { type: 'number' },
+      venueFeePercent: { type: 'number' },
+    },
+  },
+};
@@ -0,0 +1,37 @@
+import { type JsonSchema } from '../jsonSchema.ts';
+
+// Everything the app needs to know about an interactive tool block, e.g. [BUDGET_TABLE]{...}[/BUDGET_TABLE],
+// except its React component (see components/toolRegistry.tsx). `T` is the payload the model produces and
+// `S` the user's edits to it, which are saved in the owning message as a ToolPart.
+export interface ToolDefinition<T, Tag extends string = string, S = unknown> {
+  tag: Tag;
+  // Label on the "Interactive Tools" grid.
+  title: string;
+  schema: JsonSchema;
+  // Shown to the model as the exact structure to produce. Must itself match `schema`.
+  example: T;
+  // When the model should use the tool, e.g. "When a user asks for a budget, you MUST format it as an interactive budget table."
+  promptTrigger: string;
+  // Extra constraints the schema can't express in the example, appended to the prompt snippet.
+  promptRules?: string;
+  // Prompts behind the tool's button on the "Interactive Tools" grid; one is picked at random.
+  suggestionPrompts: string[];
+  // Checks beyond the schema. Returns an error description, or null when the data is usable.
+  check?: (data: T) => string | null;
+  // Shape of `S`. Saved state is re-validated on load and ignored if it no longer matches.
+  stateSchema: JsonSchema;
+  // Converts state saved under an earlier `stateSchema`, so edits survive a change to it. Returns undefined
+  // for a shape it doesn't know.
+  migrateState?: (state: unknown, data: T) => S | undefined;
+}
+
+// Props every tool component receives. `state` is the last saved edit, if any; components report
+// edits through `onStateChange` and offer `onDiscuss` to send them to the coach.
+export interface ToolViewProps<T, S> {
+  data: T;
+  state?: S;
+  onStateChange?: (state: S) => void;
+  onDiscuss?: (state: S) => void;
+}
+
+export type ToolParseResult<T> = { ok: true; data: T } | { ok: false; error: string };
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { Role, type ChatRequest, type Message, type StoredChatSession, type ToolPart, isChatRequest, isMessage, isStoredChatSession, normalizeChatSession } from './types.ts';
+import { encodeChatEvent, type ChatStreamEvent } from './chatEvents.ts';
+import { currentToolState, parseToolBlock, splitToolBlocks } from './tools/registry.ts';
+import { type BudgetTableState, createBudgetSheet } from './tools/budgetTable.ts';
+import { createMockProvider } from '../server/llm/mock.ts';
+import { createChatEventParser } from '../server/chatStream.ts';
+import { readChatEvents } from '../services/chatApi.ts';
+import { createChatSession } from '../utils/chatSessions.ts';
+
+// Payloads cross the wire as JSON, so everything is checked after a round trip, the way the other side sees it.
+const overTheWire = (value: unknown): unknown => JSON.parse(JSON.stringify(value));
+
+const userMessage = (text: string): Message => ({ role: Role.User, parts: [{ type: 'text', text }], timestamp: Date.now() });
+
+// Runs a question through the mock provider and the /api/chat event encoding, and reads the stream back
+// with the client's reader, so both ends of the protocol are the real ones.
+const streamReply = async (messages: Message[]): Promise<ChatStreamEvent[]> => {
+  const parser = createChatEventParser();
+  const lines: string[] = [];
+  const send = (events: ChatStreamEvent[]) => events.forEach(event => lines.push(encodeChatEvent(event)));
+  for await (const chunk of createMockProvider().streamChat({ messages })) {
+    if (chunk.text) send(parser.push(chunk.text));
+    if (chunk.usage) send([{ type: 'usage', usage: chunk.usage }]);
+  }
+  send(parser.flush());
+  send([{ type: 'done' }]);
+
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatEvents(new Response(lines.join('')))) events.push(event);
+  return events;
+};
+
+// Builds the coach's message from the stream the way App does once the reply is complete.
+const assembleReply = (events: ChatStreamEvent[]): Message => {
+  const text = events.map(event => event.type === 'delta' ? event.text : '').join('');
+  const usage = events.find(event => event.type === 'usage');
+  return { role: Role.AI, parts: [{ type: 'text', text }], timestamp: Date.now(), ...(usage?.type === 'usage' ? { usage: usage.usage } : {}) };
+};
+
+// The state the budget table saves on the message after the user edits it.
+const budgetStatePart = (reply: Message): ToolPart => {
+  const text = reply.parts[0].type === 'text' ? reply.parts[0].text : '';
+  const block = splitToolBlocks(text).find(segment => segment.type === 'tool');
+  if (block?.type !== 'tool' || block.tag !== 'BUDGET_TABLE') throw new Error('Expected a budget table in the reply.');
+  const result = parseToolBlock(block.tag, block.body);
+  if (result.ok === false) throw new Error(result.error);
+  return { type: 'tool', tool: block.tag, blockIndex: 0, state: createBudgetSheet(result.data) };
+};
+
+describe('wire types', () => {
+  it('streams a reply the client can assemble into a valid message', async () => {
+    const events = await streamReply([userMessage('What should my release budget be?')]);
+
+    expect(events[events.length - 1]).toEqual({ type: 'done' });
+    expect(events).toContainEqual({ type: 'tool_block', tag: 'BUDGET_TABLE', index: 0, valid: true });
+    expect(events.some(event => event.type === 'suggestions')).toBe(true);
+    expect(events.some(event => event.type === 'usage')).toBe(true);
+
+    const reply = assembleReply(events);
+    expect(isMessage(overTheWire(reply))).toBe(true);
+    expect(isMessage(overTheWire({ ...reply, parts: [...reply.parts, budgetStatePart(reply)] }))).toBe(true);
+  });
+
+  it('accepts a chat request as the client sends it', async () => {
+    const question = userMessage('What should my release budget be?');
+    const reply = assembleReply(await streamReply([question]));
+    const toolState = budgetStatePart(reply);
+    const regenerated = assembleReply(await streamReply([question]));
+
+    const request: ChatRequest = {
+      promptId: 'release-budget',
+      messages: [
+        {
+          role: Role.User,
+          parts: [
+            { type: 'text', text: 'Here is my cover art.' },
+            { type: 'file', file: { name: 'cover.png', mimeType: 'image/png', data: 'iVBORw0KGgo=' } },
+          ],
+          timestamp: Date.now(),
+        },
+        { ...reply, branches: [[reply], [regenerated]], branchIndex: 0 },
+        { role: Role.User, parts: [{ type: 'text', text: 'Can I afford this?' }, toolState], timestamp: Date.now() },
+      ],
+    };
+    expect(isChatRequest(overTheWire(request))).toBe(true);
+  });
+
+  it('round-trips a saved chat through history storage', async () => {
+    const question = userMessage('What should my release budget be?');
+    const reply = assembleReply(await streamReply([question]));
+    const session = { ...createChatSession('1700000000000', 'Release budget', [question, reply]), folder: 'Midnight Drive EP', tags: ['budget'] };
+
+    const stored = overTheWire(session);
+    expect(isStoredChatSession(stored)).toBe(true);
+    expect(normalizeChatSession(stored as typeof session)).toEqual(session);
+  });
+
+  it('fills in what sessions saved before folders and tags existed lack', () => {
+    const legacy = overTheWire({ id: '1700000000000', title: 'Old chat', messages: [userMessage('Hi')] });
+    expect(isStoredChatSession(legacy)).toBe(true);
+
+    const session = normalizeChatSession(legacy as { id: string; title: string; messages: Message[] });
+    expect(session).toMatchObject({ createdAt: 1700000000000, tags: [], pinned: false });
+    expect(isStoredChatSession(session)).toBe(true);
+  });
+
+  it('keeps a chat with outdated tool state saveable, dropping the state', async () => {
+    const question = userMessage('What should my release budget be?');
+    const reply = assembleReply(await streamReply([question]));
+    const withPart = (part: ToolPart): Message => ({ ...reply, parts: [...reply.parts, part] });
+    const edited = withPart(budgetStatePart(reply));
+    const stale = withPart({ type: 'tool', tool: 'BUDGET_TABLE', blockIndex: 0, state: { rows: [] } });
+    const removedTool = { ...withPart({ type: 'tool', tool: 'NOT_A_TOOL', blockIndex: 0, state: {} }), branches: [[stale]], branchIndex: 1 };
+    const stored = overTheWire(createChatSession('1', 'Release budget', [question, edited, question, stale, question, removedTool]));
+
+    expect(isStoredChatSession(stored)).toBe(true);
+    const { messages } = normalizeChatSession(stored as StoredChatSession);
+    expect(messages[1]).toEqual(overTheWire(edited));
+    expect(messages[3].parts).toEqual(reply.parts);
+    expect(messages[5].parts).toEqual(reply.parts);
+    expect(messages[5].branches?.[0][0].parts).toEqual(reply.parts);
+  });
+
+  it('converts budget edits saved before the table became a sheet', async () => {
+    const question = userMessage('What should my release budget be?');
+    const reply = assembleReply(await streamReply([question]));
+    const legacyState = { estimates: [650, 300] };
+    const edited: Message = { ...reply, parts: [...reply.parts, { type: 'tool', tool: 'BUDGET_TABLE', blockIndex: 0, state: legacyState }] };
+    const shared: Message = { ...question, parts: [...question.parts, { type: 'tool', tool: 'BUDGET_TABLE', blockIndex: 0, state: legacyState }] };
+    const stored = overTheWire(createChatSession('1', 'Release budget', [question, edited, shared]));
+
+    expect(isStoredChatSession(stored)).toBe(true);
+    const { messages } = normalizeChatSession(stored as StoredChatSession);
+    const sheet = (messages[1].parts[1] as ToolPart).state as BudgetTableState;
+    expect(sheet.lines.map(line => line.planned)).toEqual([[650], [300], [49.99], [600]]);
+    expect(sheet.lines[0]).toMatchObject({ item: 'Mixing & Mastering', category: 'Recording', low: 300, high: 1500 });
+    // A shared copy has no block to convert against, so it is dropped.
+    expect(messages[2].parts).toEqual(question.parts);
+
+    // The chat view converts state that hasn't been through the server yet the same way.
+    const body = (splitToolBlocks((reply.parts[0] as { text: string }).text).find(segment => segment.type === 'tool') as { body: string }).body;
+    expect(currentToolState('BUDGET_TABLE', legacyState, body)).toEqual(sheet);
+    expect(currentToolState('BUDGET_TABLE', { estimates: 'lots' }, body)).toBeUndefined();
+  });
+
+  it('rejects payloads that have drifted from the shared types', () => {
+    const message = userMessage('Hi');
+    const invalid: unknown[] = [
+      { ...message, role: 'assistant' },
+      { ...message, timestamp: '2024-01-01' },
+      { ...message, parts: [{ type: 'image', url: 'cover.png' }] },
+      { ...message, parts: [{ type: 'text', content: 'Hi' }] },
+      { ...message, parts: [{ type: 'file', file: { mimeType: 'image/png', data: '' } }] },
+      { ...message, parts: [{ type: 'tool', tool: 42, blockIndex: 0, state: {} }] },
+      { ...message, parts: [{ type: 'tool', tool: 'BUDGET_TABLE', blockIndex: -1, state: {} }] },
+      { ...message, branches: [[{ ...message, parts: 'Hi' }]] },
+    ];
+    invalid.forEach(value => {
+      expect(isMessage(value)).toBe(false);
+      expect(isChatRequest({ messages: [value] })).toBe(false);
+    });
+    expect(isChatRequest({ messages: 'Hi' })).toBe(false);
+    expect(isChatRequest({ messages: [message], promptId: 42 })).toBe(false);
+    expect(isStoredChatSession({ id: '', title: 'Untitled', messages: [] })).toBe(false);
+    expect(isStoredChatSession({ id: '1', title: 'Tagged', messages: [], tags: 'budget' })).toBe(false);
+  });
+});
@@ -0,0 +1,267 @@
+// Types shared by the Vite app and the Vercel functions in api/. Anything that crosses the wire lives here,
+// so the request and response shapes can't drift between the two sides.
+
+import { currentToolState, splitToolBlocks } from './tools/registry.ts';
+
+export enum Role {
+  User = 'user',
+  AI = 'model',
+}
+
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface FilePart {
+  type: 'file';
+  file: {
+    name: string;
+    mimeType: string;
+    data: string; // base64 encoded
+  };
+}
+
+// The user's edits to an interactive tool block, e.g. changed budget estimates. Saved on the message
+// containing the block so they survive reloads, and sent on a user message to share them with the coach.
+export interface ToolPart {
+  type: 'tool';
+  tool: string; // block tag, e.g. 'BUDGET_TABLE'
+  blockIndex: number; // position among the tool blocks in the message text
+  state: unknown;
+}
+
+export type AppPart = TextPart | FilePart | ToolPart;
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+}
+
+export interface Message {
+  role: Role;
+  parts: AppPart[];
+  timestamp: number;
+  usage?: TokenUsage;
+  // Hidden alternate versions of the conversation from this message onward, created by regenerating
+  // or editing. Each branch is a full tail (this message and everything after it); `branchIndex` is
+  // where the visible tail sits among them when the versions are listed in order.
+  branches?: Message[][];
+  branchIndex?: number;
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  messages: Message[];
+  createdAt: number;
+  // Last time the conversation itself changed; renaming or filing a chat doesn't count as activity.
+  updatedAt: number;
+  // Unfiled when missing. Folders have no record of their own: a folder exists while a chat is filed in it.
+  folder?: string;
+  tags: string[];
+  pinned: boolean;
+  // A short recap written by the model, covering the first `summarizedCount` messages. Shown as a preview in
+  // the sidebar and sent in place of those messages once a chat gets long.
+  summary?: string;
+  summarizedCount?: number;
+  // Timestamp of the last summarized message, so a summary of messages that were since edited, regenerated
+  // or switched to another branch isn't used.
+  summarizedThrough?: number;
+}
+
+// A session as it may be stored: chats saved before folders, tags and timestamps existed have none of them.
+export type StoredChatSession = Pick<ChatSession, 'id' | 'title' | 'messages'> & Partial<Omit<ChatSession, 'id' | 'title' | 'messages'>>;
+
+export interface User {
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface SignUpDetails extends User {
+  password: string;
+}
+
+export type UserTier = 'free' | 'pro';
+
+export const CAREER_STAGES = ['beginner', 'emerging', 'advanced'] as const;
+export type CareerStage = typeof CAREER_STAGES[number];
+
+export const ARTIST_ROLES = ['artist', 'producer', 'manager', 'songwriter'] as const;
+export type ArtistRole = typeof ARTIST_ROLES[number];
+
+export const BUDGET_RANGES = ['under-500', '500-2000', '2000-10000', 'over-10000'] as const;
+export type BudgetRange = typeof BUDGET_RANGES[number];
+
+// What the coach knows about the artist. Every field is optional so the profile can be filled in gradually.
+export interface ArtistProfile {
+  genre?: string;
+  careerStage?: CareerStage;
+  role?: ArtistRole;
+  location?: string;
+  goals?: string;
+  currentReleases?: string;
+  monthlyListeners?: number;
+  budgetRange?: BudgetRange;
+}
+
+// Upper bound for free-text profile fields, so a profile can't crowd out the rest of the system instruction.
+export const PROFILE_TEXT_MAX_LENGTH = 500;
+
+export type QuotaScope = 'guest' | 'ip' | 'user';
+
+// Sent by /api/chat and /api/quota so the UI can show how many messages are left.
+export interface QuotaStatus {
+  scope: QuotaScope;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+export type MemorySource = 'explicit' | 'extracted';
+
+// A durable fact the coach remembers about a user across conversations, e.g. "Registered with BMI".
+export interface MemoryFact {
+  id: string;
+  text: string;
+  source: MemorySource;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const MEMORY_TEXT_MAX_LENGTH = 300;
+
+// Body of POST /api/chat.
+export interface ChatRequest {
+  messages: Message[];
+  promptId?: string;
+}
+
+export const CHAT_TITLE_MAX_LENGTH = 60;
+export const CHAT_SUMMARY_MAX_LENGTH = 1000;
+
+// Response of POST /api/summarize. Either field is null when the model didn't produce a usable one.
+export interface ChatSummary {
+  title: string | null;
+  summary: string | null;
+}
+
+// One validator per part type. Typed as a Record over AppPart['type'] so adding a part type
+// without teaching the API how to validate it fails the type-check instead of drifting silently.
+const PART_VALIDATORS: { [K in AppPart['type']]: (part: Extract<AppPart, { type: K }>) => boolean } = {
+  text: part => typeof part.text === 'string',
+  // `data` may be missing on attachments from chats saved before history moved to the server.
+  file: part => !!part.file && typeof part.file.name === 'string' && typeof part.file.mimeType === 'string' && ['string', 'undefined'].includes(typeof part.file.data),
+  // The saved state itself isn't checked: a tool's state schema may change after the state was saved.
+  // normalizeChatSession drops parts whose state no longer matches.
+  tool: part => typeof part.tool === 'string' && Number.isInteger(part.blockIndex) && part.blockIndex >= 0,
+};
+
+const isAppPart = (value: unknown): value is AppPart => {
+  if (!value || typeof value !== 'object') return false;
+  const part = value as AppPart;
+  const validate = PART_VALIDATORS[part.type] as ((part: AppPart) => boolean) | undefined;
+  return !!validate && validate(part);
+};
+
+export const isMessage = (value: unknown): value is Message => {
+  if (!value || typeof value !== 'object') return false;
+  const message = value as Message;
+  return (
+    Object.values(Role).includes(message.role) &&
+    Array.isArray(message.parts) &&
+    message.parts.every(isAppPart) &&
+    typeof message.timestamp === 'number' &&
+    (message.branches === undefined || (Array.isArray(message.branches) && message.branches.every(branch => Array.isArray(branch) && branch.every(isMessage)))) &&
+    (message.branchIndex === undefined || typeof message.branchIndex === 'number')
+  );
+};
+
+// Saved tool edits in a shape the tool has since changed are converted when the tool knows how, and dropped
+// otherwise, so the tool starts over from the model's data instead of the chat failing to load or save.
+const withCurrentToolState = (message: Message): Message => {
+  const text = message.parts.map(part => part.type === 'text' ? part.text : '').join('');
+  const blocks = splitToolBlocks(text).filter(segment => segment.type === 'tool');
+  return {
+    ...message,
+    parts: message.parts.flatMap((part): AppPart[] => {
+      if (part.type !== 'tool') return [part];
+      const block = blocks[part.blockIndex];
+      const state = currentToolState(part.tool, part.state, block?.type === 'tool' && block.tag === part.tool ? block.body : undefined);
+      return state === undefined ? [] : [{ ...part, state }];
+    }),
+    ...(message.branches ? { branches: message.branches.map(branch => branch.map(withCurrentToolState)) } : {}),
+  };
+};
+
+// Fills in what older sessions lack. Chat ids are creation timestamps, which dates chats saved before
+// `createdAt` existed; their last message dates the last activity.
+export const normalizeChatSession = (session: StoredChatSession): ChatSession => {
+  const idTime = Number(session.id);
+  const createdAt = session.createdAt ?? (Number.isFinite(idTime) && idTime > 0 ? idTime : session.messages[0]?.timestamp ?? Date.now());
+  const { folder, ...rest } = session;
+  return {
+    ...rest,
+    messages: session.messages.map(withCurrentToolState),
+    createdAt,
+    updatedAt: session.updatedAt ?? session.messages[session.messages.length - 1]?.timestamp ?? createdAt,
+    ...(folder?.trim() ? { folder: folder.trim() } : {}),
+    tags: [...new Set((session.tags ?? []).map(tag => tag.trim()).filter(Boolean))],
+    pinned: session.pinned ?? false,
+  };
+};
+
+export const isStoredChatSession = (value: unknown): value is StoredChatSession => {
+  if (!value || typeof value !== 'object') return false;
+  const session = value as StoredChatSession;
+  return (
+    typeof session.id === 'string' &&
+    session.id.length > 0 &&
+    typeof session.title === 'string' &&
+    Array.isArray(session.messages) &&
+    session.messages.every(isMessage) &&
+    (session.createdAt === undefined || typeof session.createdAt === 'number') &&
+    (session.updatedAt === undefined || typeof session.updatedAt === 'number') &&
+    (session.folder === undefined || typeof session.folder === 'string') &&
+    (session.tags === undefined || (Array.isArray(session.tags) && session.tags.every(tag => typeof tag === 'string'))) &&
+    (session.pinned === undefined || typeof session.pinned === 'boolean') &&
+    (session.summary === undefined || typeof session.summary === 'string') &&
+    (session.summarizedCount === undefined || (Number.isInteger(session.summarizedCount) && session.summarizedCount >= 0)) &&
+    (session.summarizedThrough === undefined || typeof session.summarizedThrough === 'number')
+  );
+};
+
+const isOptionalText = (value: unknown) =>
+  value === undefined || (typeof value === 'string' && value.length <= PROFILE_TEXT_MAX_LENGTH);
+
+const isOptionalOption = (options: readonly string[], value: unknown) =>
+  value === undefined || options.includes(value as string);
+
+export const isArtistProfile = (value: unknown): value is ArtistProfile => {
+  if (!value || typeof value !== 'object') return false;
+  const profile = value as ArtistProfile;
+  return (
+    isOptionalText(profile.genre) &&
+    isOptionalOption(CAREER_STAGES, profile.careerStage) &&
+    isOptionalOption(ARTIST_ROLES, profile.role) &&
+    isOptionalText(profile.location) &&
+    isOptionalText(profile.goals) &&
+    isOptionalText(profile.currentReleases) &&
+    (profile.monthlyListeners === undefined || (Number.isInteger(profile.monthlyListeners) && profile.monthlyListeners >= 0)) &&
+    isOptionalOption(BUDGET_RANGES, profile.budgetRange)
+  );
+};
+
+// Runtime check for an incoming /api/chat body. Rejecting unknown shapes here is what surfaces
+// a client/server mismatch instead of silently sending malformed content to the model.
+export const isChatRequest = (value: unknown): value is ChatRequest => {
+  if (!value || typeof value !== 'object') return false;
+  const request = value as ChatRequest;
+  return (
+    Array.isArray(request.messages) &&
+    request.messages.every(isMessage) &&
+    (request.promptId === undefined || typeof request.promptId === 'string')
+  );
+};
@@ -0,0 +1,130 @@
+import type { VercelRequest } from '@vercel/node';
+import { randomBytes, scrypt, timingSafeEqual, createHmac } from 'crypto';
+import { getStorage } from './storage.ts';
+import { getUserById, type StoredUser } from './userStore.ts';
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+
+interface TokenPayload {
+  sid: string;
+  uid: string;
+  exp: number;
+}
+
+interface StoredSession {
+  id: string;
+  userId: string;
+  expiresAt: number;
+}
+
+const scryptAsync = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, derivedKey) => (error ? reject(error) : resolve(derivedKey)));
+  });
+
+// Hashes are stored as `scrypt$<salt>$<hash>` (both base64) so the algorithm can be changed later.
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  const [algorithm, saltB64, hashB64] = storedHash.split('$');
+  if (algorithm !== 'scrypt' || !saltB64 || !hashB64) return false;
+  const expected = Buffer.from(hashB64, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(saltB64, 'base64'));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Longer passwords are rejected before hashing, so a huge body can't be used to tie up the CPU in scrypt.
+export const MAX_PASSWORD_LENGTH = 128;
+
+let dummyHash: Promise<string> | null = null;
+
+// Does the same scrypt work as a real check against a hash that never matches, so a login for an unknown
+// email takes as long as one with a wrong password.
+export const verifyPasswordForUnknownUser = async (password: string): Promise<false> => {
+  dummyHash ??= hashPassword(randomBytes(16).toString('base64'));
+  await verifyPassword(password, await dummyHash);
+  return false;
+};
+
+const getSecret = (): string => {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET is missing');
+  }
+  return secret;
+};
+
+const sign = (data: string) => createHmac('sha256', getSecret()).update(data).digest('base64url');
+
+// Appends an HMAC so the value can be handed to the client and trusted when it comes back.
+export const signValue = (value: string): string => `${value}.${sign(value)}`;
+
+// Returns the original value if the signature matches, otherwise null.
+export const verifySignedValue = (signed: string): string | null => {
+  const separator = signed.lastIndexOf('.');
+  if (separator <= 0) return null;
+  const value = signed.slice(0, separator);
+  const expected = Buffer.from(sign(value));
+  const actual = Buffer.from(signed.slice(separator + 1));
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? value : null;
+};
+
+const sessionKey = (sessionId: string) => `session:${sessionId}`;
+
+// Tokens are `<payload>.<signature>`. The signature proves we issued the token; the stored session
+// record lets logout revoke it before it expires.
+export const createSessionToken = async (userId: string): Promise<string> => {
+  const session: StoredSession = {
+    id: randomBytes(18).toString('base64url'),
+    userId,
+    expiresAt: Date.now() + SESSION_TTL_MS,
+  };
+  const payload: TokenPayload = { sid: session.id, uid: userId, exp: session.expiresAt };
+  const token = signValue(Buffer.from(JSON.stringify(payload)).toString('base64url'));
+  await getStorage().set(sessionKey(session.id), session);
+  return token;
+};
+
+const decodeToken = (token: string): TokenPayload | null => {
+  const encodedPayload = verifySignedValue(token);
+  if (!encodedPayload) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as TokenPayload;
+    return payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getBearerToken = (req: VercelRequest): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+// Resolves the signed-in user for a request, or null when the token is missing, invalid, expired or revoked.
+export const getAuthenticatedUser = async (req: VercelRequest): Promise<StoredUser | null> => {
+  const token = getBearerToken(req);
+  if (!token) return null;
+
+  const payload = decodeToken(token);
+  if (!payload) return null;
+
+  const session = await getStorage().get<StoredSession>(sessionKey(payload.sid));
+  if (!session || session.userId !== payload.uid || session.expiresAt <= Date.now()) return null;
+
+  return getUserById(session.userId);
+};
+
+export const revokeSessionToken = async (token: string): Promise<void> => {
+  const payload = decodeToken(token);
+  if (payload) {
+    await getStorage().delete(sessionKey(payload.sid));
+  }
+};
@@ -0,0 +1,39 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getClientIp, getRateLimitStore } from './rateLimit.ts';
+import { userIdForEmail } from './userStore.ts';
+
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+interface AttemptRule {
+  key: string;
+  limit: number;
+}
+
+// Failed logins are limited per account, so one password can't be guessed at, and per IP, so many accounts
+// can't be tried from one place. Sign-ups are limited per IP, which also slows probing for registered emails.
+export const loginAttemptRules = (req: VercelRequest, email: string): AttemptRule[] => [
+  { key: `login:email:${userIdForEmail(email)}`, limit: 10 },
+  { key: `login:ip:${getClientIp(req)}`, limit: 30 },
+];
+
+export const signupAttemptRules = (req: VercelRequest): AttemptRule[] => [
+  { key: `signup:ip:${getClientIp(req)}`, limit: 10 },
+];
+
+// Returns when the caller may try again if any rule is used up, or null if the attempt may go ahead.
+export const attemptsBlockedUntil = async (rules: AttemptRule[]): Promise<number | null> => {
+  const store = getRateLimitStore();
+  const windows = await Promise.all(rules.map(rule => store.peek(rule.key)));
+  const blocked = windows.filter((window, i) => window && window.count >= rules[i].limit).map(window => window!.resetAt);
+  return blocked.length > 0 ? Math.max(...blocked) : null;
+};
+
+export const recordAttempt = async (rules: AttemptRule[]): Promise<void> => {
+  const store = getRateLimitStore();
+  await Promise.all(rules.map(rule => store.increment(rule.key, ATTEMPT_WINDOW_MS)));
+};
+
+export const sendTooManyAttempts = (res: VercelResponse, resetAt: number) => {
+  res.setHeader('Retry-After', String(Math.max(0, Math.ceil((resetAt - Date.now()) / 1000))));
+  return res.status(429).json({ error: 'Too many attempts. Please wait a few minutes and try again.' });
+};
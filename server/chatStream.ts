@@ -0,0 +1,80 @@
+import { type ChatStreamEvent } from '../core/chatEvents.ts';
+import { createToolBlockRegex, parseToolBlock, type ToolTag } from '../core/tools/registry.ts';
+
+const SUGGESTIONS_OPEN = '[SUGGESTIONS]';
+const SUGGESTIONS_CLOSE = '[/SUGGESTIONS]';
+
+const parseSuggestions = (raw: string) => raw.split('|').map(s => s.trim()).filter(Boolean);
+
+// Length of the longest suffix of `text` that is a prefix of `tag`, i.e. a tag that may still be arriving.
+const partialTagLength = (text: string, tag: string) => {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+};
+
+// Turns raw model text chunks into protocol events. Text that could be the start of a [SUGGESTIONS]
+// tag is held back until it is resolved, so the tag never flashes in the chat bubble.
+export const createChatEventParser = () => {
+  let pending = '';
+  let visibleText = '';
+  let toolBlocksSeen = 0;
+
+  const toolBlockEvents = (): ChatStreamEvent[] => {
+    const events: ChatStreamEvent[] = [];
+    const matches = [...visibleText.matchAll(createToolBlockRegex())];
+    for (const match of matches.slice(toolBlocksSeen)) {
+      const valid = parseToolBlock(match[1] as ToolTag, match[2]).ok;
+      events.push({ type: 'tool_block', tag: match[1], index: toolBlocksSeen, valid });
+      toolBlocksSeen++;
+    }
+    return events;
+  };
+
+  const emitText = (text: string): ChatStreamEvent[] => {
+    if (!text) return [];
+    visibleText += text;
+    return [{ type: 'delta', text }, ...toolBlockEvents()];
+  };
+
+  const push = (chunk: string): ChatStreamEvent[] => {
+    pending += chunk;
+    const events: ChatStreamEvent[] = [];
+
+    while (pending) {
+      const open = pending.indexOf(SUGGESTIONS_OPEN);
+      if (open === -1) {
+        const hold = partialTagLength(pending, SUGGESTIONS_OPEN);
+        events.push(...emitText(pending.slice(0, pending.length - hold)));
+        pending = pending.slice(pending.length - hold);
+        break;
+      }
+
+      events.push(...emitText(pending.slice(0, open)));
+      const close = pending.indexOf(SUGGESTIONS_CLOSE, open);
+      if (close === -1) {
+        pending = pending.slice(open);
+        break;
+      }
+
+      events.push({ type: 'suggestions', suggestions: parseSuggestions(pending.slice(open + SUGGESTIONS_OPEN.length, close)) });
+      pending = pending.slice(close + SUGGESTIONS_CLOSE.length);
+    }
+
+    return events;
+  };
+
+  // Called once the model stream ends. An unterminated [SUGGESTIONS] tag is still treated as suggestions.
+  const flush = (): ChatStreamEvent[] => {
+    const remaining = pending;
+    pending = '';
+    if (remaining.startsWith(SUGGESTIONS_OPEN)) {
+      const suggestions = parseSuggestions(remaining.slice(SUGGESTIONS_OPEN.length));
+      return suggestions.length > 0 ? [{ type: 'suggestions', suggestions }] : [];
+    }
+    return emitText(remaining);
+  };
+
+  return { push, flush };
+};
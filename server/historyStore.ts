@@ -0,0 +1,23 @@
+import { type ChatSession, type StoredChatSession, normalizeChatSession } from '../core/types.ts';
+import { getStorage } from './storage.ts';
+
+const historyPrefix = (userId: string) => `history:${userId}:`;
+const sessionKey = (userId: string, chatId: string) => `${historyPrefix(userId)}${chatId}`;
+
+// Sessions saved before chats had timestamps and metadata are upgraded as they are read; the upgraded
+// shape is written back the next time the client saves the chat.
+export const listSessions = async (userId: string): Promise<ChatSession[]> => {
+  const sessions = await getStorage().list<StoredChatSession>(historyPrefix(userId));
+  return sessions.map(normalizeChatSession).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = async (userId: string, chatId: string): Promise<ChatSession | null> => {
+  const session = await getStorage().get<StoredChatSession>(sessionKey(userId, chatId));
+  return session && normalizeChatSession(session);
+};
+
+export const saveSession = (userId: string, session: ChatSession): Promise<void> =>
+  getStorage().set(sessionKey(userId, session.id), session);
+
+export const deleteSession = (userId: string, chatId: string): Promise<void> =>
+  getStorage().delete(sessionKey(userId, chatId));
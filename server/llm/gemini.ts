@@ -0,0 +1,109 @@
+import { GoogleGenAI, type Part, type Content, type GenerateContentResponse } from '@google/genai';
+import { Role, type AppPart, type Message, type TokenUsage } from '../../core/types.ts';
+import { describeToolPart } from '../../core/tools/registry.ts';
+import { type LLMProvider, type CompletionRequest } from './provider.ts';
+
+interface GeminiOptions {
+  apiKey: string;
+  chatModel: string;
+  imageModel: string;
+}
+
+// Helper to convert internal AppPart[] to SDK-compatible Part[]
+const appPartsToApiParts = (parts: AppPart[]): Part[] => {
+    return parts.map(part => {
+        if (part.type === 'text') {
+            return { text: part.text };
+        }
+        if (part.type === 'tool') {
+            return { text: describeToolPart(part) };
+        }
+        if (!part.file.data) {
+            return { text: `[Attachment "${part.file.name}" is no longer available]` };
+        }
+        return { inlineData: { mimeType: part.file.mimeType, data: part.file.data }};
+    });
+};
+
+// Helper to convert the app's message history to the SDK's Content[] format
+const appMessagesToApiContents = (messages: Message[]): Content[] => {
+    // The Gemini API requires alternating user/model roles.
+    // This filters out any potential consecutive messages from the same role.
+    const filteredMessages: Message[] = [];
+    let lastRole: Role | null = null;
+    messages.forEach(msg => {
+        if (msg.role !== lastRole) {
+            filteredMessages.push(msg);
+            lastRole = msg.role;
+        }
+    });
+    
+    // Ensure the last message is from the user. Add a length check to prevent crashing.
+    if(filteredMessages.length > 0 && filteredMessages[filteredMessages.length-1].role !== Role.User){
+        filteredMessages.pop();
+    }
+
+    return filteredMessages.map(msg => ({
+        role: msg.role,
+        parts: appPartsToApiParts(msg.parts)
+    }));
+};
+
+const toTokenUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  if (!response.usageMetadata) return undefined;
+  return {
+    promptTokens: response.usageMetadata.promptTokenCount || 0,
+    responseTokens: response.usageMetadata.candidatesTokenCount || 0,
+    totalTokens: response.usageMetadata.totalTokenCount || 0,
+  };
+};
+
+export const createGeminiProvider = ({ apiKey, chatModel, imageModel }: GeminiOptions): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const toParams = ({ messages, systemInstruction, json, signal }: CompletionRequest) => {
+    const contents = appMessagesToApiContents(messages);
+    // Do not call the API if there's no valid content to send
+    if (contents.length === 0) {
+      throw new Error('Cannot process empty or invalid message history.');
+    }
+    return {
+      model: chatModel,
+      contents,
+      config: {
+        systemInstruction,
+        responseMimeType: json ? 'application/json' : undefined,
+        abortSignal: signal,
+      },
+    };
+  };
+
+  return {
+    name: 'gemini',
+
+    async *streamChat(request) {
+      const stream = await ai.models.generateContentStream(toParams(request));
+      for await (const chunk of stream) {
+        yield { text: chunk.text, usage: toTokenUsage(chunk) };
+      }
+    },
+
+    async generate(request) {
+      const response = await ai.models.generateContent(toParams(request));
+      return { text: response.text ?? '', usage: toTokenUsage(response) };
+    },
+
+    async generateImage(prompt) {
+      const response = await ai.models.generateContent({
+        model: imageModel,
+        contents: { parts: [{ text: prompt }] },
+      });
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          return { mimeType: part.inlineData.mimeType || 'image/png', data: part.inlineData.data };
+        }
+      }
+      return null;
+    },
+  };
+};
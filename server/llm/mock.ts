@@ -0,0 +1,185 @@
+import { Role, type Message, type TextPart } from '../../core/types.ts';
+import { type LLMProvider, type CompletionRequest, estimateTokens } from './provider.ts';
+
+interface MockOptions {
+  // Pause between streamed chunks, to make local streaming visible. Defaults to 0.
+  delayMs?: number;
+}
+
+interface Fixture {
+  match: RegExp;
+  response: string;
+}
+
+const SUGGESTIONS = '[SUGGESTIONS]How do I grow my fanbase?|What should my release budget be?|How do I price my show tickets?[/SUGGESTIONS]';
+
+// Canned coach answers, picked by the first pattern that matches the latest user message. They use
+// the same markup as the real model so tool blocks and suggestions can be exercised offline.
+const FIXTURES: Fixture[] = [
+  {
+    // A content calendar's per-post "Regenerate"; checked first because the request quotes the rest of the plan.
+    match: /^Rewrite this post/i,
+    response: `[CONTENT_CALENDAR]{"title": "Regenerated post", "view": "week", "posts": [{"day": 0, "time": "", "platform": "TikTok", "pillar": "Storytelling", "format": "Talking head", "caption": "Nobody knows this song almost didn't make the record. Here's why it did 👇", "status": "draft"}]}[/CONTENT_CALENDAR]`,
+  },
+  {
+    match: /budget/i,
+    response: `### 💰 Sample Release Budget
+
+Here's a starting point you can adjust to your own numbers.
+
+[BUDGET_TABLE]{"headers": ["Item", "Industry Low End", "Industry High End", "My Example Estimate"], "rows": [{"item": "Mixing & Mastering", "category": "Recording", "low": 300, "high": 1500, "estimate": 800}, {"item": "Artwork", "category": "Visuals", "low": 100, "high": 600, "estimate": 250}, {"item": "Distribution", "category": "Release", "low": 19.99, "high": 100, "estimate": 49.99}, {"item": "Promotion", "category": "Marketing", "low": 200, "high": 2000, "estimate": 600}]}[/BUDGET_TABLE]
+
+**TIP:** Keep 10% of the total aside for surprises.
+`,
+  },
+  {
+    match: /brand|logo|palette/i,
+    response: `### 🎨 Your Visual Branding Guide
+
+Here's a look you can build on. Tweak the colors and fonts, then try the logo generator.
+
+[BRANDING_GUIDE]{"aesthetic": {"name": "Neon Noir", "description": "Moody, cinematic visuals with electric accents."}, "palette": [{"role": "Primary", "hex": "#1A1A2E", "name": "Midnight"}, {"role": "Secondary", "hex": "#E94560", "name": "Signal Red"}, {"role": "Accent", "hex": "#0FF0FC", "name": "Electric Cyan"}], "typography": {"headline": {"name": "Oswald", "sample": "NEW SINGLE OUT NOW"}, "body": {"name": "Inter", "sample": "Catch the band live this summer."}}, "application": [{"emoji": "📸", "title": "Press Photos", "description": "Low-key lighting with a single cyan rim light."}, {"emoji": "💿", "title": "Cover Art", "description": "Midnight background, red headline type."}]}[/BRANDING_GUIDE]
+`,
+  },
+  {
+    match: /content plan|content calendar|posting schedule/i,
+    response: `### 📅 Your Release Week Content Plan
+
+Here's a week of posts built around your drop. Drag them around to fit your schedule and export the plan when you're happy.
+
+[CONTENT_CALENDAR]{"title": "Release Week", "view": "week", "posts": [{"day": 0, "time": "18:00", "platform": "TikTok", "pillar": "Behind the Scenes", "format": "Short video", "caption": "The voice memo that started it all. Out Friday 🌙", "status": "draft"}, {"day": 1, "time": "12:00", "platform": "Instagram", "pillar": "Teaser", "format": "Story countdown", "caption": "3 days. Pre-save link in bio.", "status": "idea"}, {"day": 3, "time": "09:00", "platform": "Instagram", "pillar": "Release", "format": "Carousel", "caption": "It's out. Thank you for waiting with me.", "status": "idea"}, {"day": 3, "time": "17:00", "platform": "TikTok", "pillar": "Release", "format": "Lip sync", "caption": "Use this sound and tag me 🎧", "status": "idea"}, {"day": 5, "time": "19:00", "platform": "YouTube", "pillar": "Community", "format": "Short", "caption": "Reading your comments on the new single", "status": "idea"}]}[/CONTENT_CALENDAR]
+
+**TIP:** Reply to every comment in the first hour after each post. It tells the algorithm people care.
+`,
+  },
+  {
+    match: /release plan|rollout|coming out/i,
+    response: `### 🚀 Your Release Rollout
+
+Here's a plan counted back from release day. Set your real date, tick tasks off as you go and add the plan to your calendar.
+
+[RELEASE_TIMELINE]{"releaseTitle": "New Single", "milestones": [{"title": "Master and artwork final", "description": "Approve the final master and 3000x3000 cover art.", "offsetDays": -56, "category": "admin"}, {"title": "Upload to distributor", "description": "Deliver audio, artwork and metadata with credits and ISRC.", "offsetDays": -42, "category": "distribution"}, {"title": "Pitch to Spotify editorial", "description": "Submit the track in Spotify for Artists at least four weeks out.", "offsetDays": -28, "category": "pitching"}, {"title": "Launch pre-save", "description": "Share the pre-save link in bio, stories and your mailing list.", "offsetDays": -21, "category": "promotion"}, {"title": "Teaser clips", "description": "Post three short hook clips across the week.", "offsetDays": -7, "category": "content"}, {"title": "Release day", "description": "Go live everywhere and thank early listeners.", "offsetDays": 0, "category": "promotion"}, {"title": "Playlist follow-up", "description": "Thank curators who added you and pitch the next ones.", "offsetDays": 7, "category": "pitching"}]}[/RELEASE_TIMELINE]
+
+**TIP:** The four-week pitch window matters most. Editors can't consider a track once it's out.
+`,
+  },
+  {
+    match: /record deal|recoup|advance|360/i,
+    response: `### 📝 Comparing Your Record Deal Offers
+
+Here's how each offer pays back over three years. Adjust the terms and revenue to match your numbers.
+
+[RECOUPMENT_SIMULATOR]{"offers": [{"name": "Major Label 360", "advance": 100000, "recoupableCosts": 50000, "royaltyPercent": 18, "participation": {"touring": 20, "merch": 25, "publishing": 10}}, {"name": "Indie Label", "advance": 25000, "recoupableCosts": 15000, "royaltyPercent": 50, "participation": {"touring": 0, "merch": 0, "publishing": 0}}], "monthlyRevenue": {"recorded": 15000, "touring": 8000, "merch": 3000, "publishing": 2000}, "monthlyChangePercent": -2, "months": 36}[/RECOUPMENT_SIMULATOR]
+
+**IMPORTANT:** Have an entertainment lawyer review any offer before you sign. This is for educational purposes only and is not legal advice.
+`,
+  },
+  {
+    match: /royalt|stream/i,
+    response: `### 💸 Streaming Income Projection
+
+Here's what your streams could pay each month. Change the numbers to match your own deal.
+
+[ROYALTY_CALCULATOR]{"streams": [{"platform": "spotify", "monthlyStreams": 80000}, {"platform": "apple_music", "monthlyStreams": 15000}, {"platform": "youtube_music", "monthlyStreams": 20000}], "distributorFeePercent": 0, "artistRoyaltyPercent": 100, "producerPoints": 3, "publishingSharePercent": 50}[/ROYALTY_CALCULATOR]
+
+**TIP:** Register with a PRO and a publishing administrator so you collect the publishing side too.
+`,
+  },
+  {
+    match: /split/i,
+    response: `### ✍️ Your Split Sheet
+
+Fill in everyone's details, check the totals, then print it for signatures.
+
+[SPLIT_SHEET]{"songTitle": "Midnight Drive", "contributors": [{"name": "Alex Rivera", "role": "Songwriter", "pro": "ASCAP", "ipi": "", "writerShare": 50, "publisher": "Rivera Songs", "publisherPro": "ASCAP", "publisherIpi": "", "publisherShare": 50}, {"name": "Sam Lee", "role": "Producer", "pro": "BMI", "ipi": "", "writerShare": 50, "publisher": "", "publisherPro": "", "publisherIpi": "", "publisherShare": 50}]}[/SPLIT_SHEET]
+
+**IMPORTANT:** Get every writer to sign before the song is released. This is for educational purposes only and is not legal advice.
+`,
+  },
+  {
+    match: /tour|routing/i,
+    response: `### 🚐 Your Tour Plan
+
+Here's a first routing. Adjust the dates, deals and road costs to see where the money lands.
+
+[TOUR_PLANNER]{"shows": [{"date": "2025-03-01", "city": "Chicago, IL", "venue": "The Empty Bottle", "capacity": 400, "ticketPrice": 20, "sellThroughRate": 70, "dealType": "versus", "guarantee": 600, "doorPercent": 80, "distance": 0}, {"date": "2025-03-02", "city": "Milwaukee, WI", "venue": "Cactus Club", "capacity": 200, "ticketPrice": 15, "sellThroughRate": 60, "dealType": "guarantee", "guarantee": 350, "doorPercent": 0, "distance": 92}, {"date": "2025-03-04", "city": "Minneapolis, MN", "venue": "7th St Entry", "capacity": 250, "ticketPrice": 18, "sellThroughRate": 65, "dealType": "door", "guarantee": 0, "doorPercent": 85, "distance": 337}], "dailyCosts": {"van": 120, "hotel": 160, "perDiem": 25, "crew": 150, "partySize": 4, "fuelPerMile": 0.35}, "merchSpendPerGuest": 8, "venueFeePercent": 10}[/TOUR_PLANNER]
+
+**TIP:** Route so no drive is longer than about five hours on a show day.
+`,
+  },
+  {
+    match: /ticket|show|gig|concert/i,
+    response: `### 🎟️ Ticket Sales Estimator
+
+Play with the numbers below to see what a show could earn.
+
+[TICKET_ESTIMATOR]{"defaults": {"ticketPrice": 20, "venueCapacity": 200, "sellThroughRate": 75, "merchSpendPerGuest": 10, "venueFeePercent": 15, "venueCostFixed": 500, "marketingCost": 200, "crewCost": 300}}[/TICKET_ESTIMATOR]
+
+**IMPORTANT:** Confirm the venue's fee structure in writing before you announce the show.
+`,
+  },
+];
+
+const DEFAULT_RESPONSE = `### 🎵 Let's Work On It
+
+This is a mock response from the offline provider.
+
+1. **Define the goal:** decide what success looks like for this step.
+2. **Break it down:** list the tasks and who owns each one.
+3. **Set a date:** put the first task on your calendar this week.
+
+**ACTION:** Pick one task and finish it today.
+`;
+
+const lastUserText = (messages: Message[]) => {
+  const lastUserMessage = [...messages].reverse().find(message => message.role === Role.User);
+  return (lastUserMessage?.parts.filter(part => part.type === 'text') as TextPart[] | undefined)?.map(part => part.text).join('\n') ?? '';
+};
+
+const promptText = ({ messages, systemInstruction = '' }: CompletionRequest) =>
+  systemInstruction + messages.flatMap(message => message.parts).map(part => (part.type === 'text' ? part.text : '')).join('');
+
+const chatResponse = (request: CompletionRequest) => {
+  const text = lastUserText(request.messages);
+  const fixture = FIXTURES.find(candidate => candidate.match.test(text));
+  return `${fixture?.response ?? DEFAULT_RESPONSE}\n${SUGGESTIONS}`;
+};
+
+const usageFor = (request: CompletionRequest, responseText: string) => {
+  const promptTokens = estimateTokens(promptText(request));
+  const responseTokens = estimateTokens(responseText);
+  return { promptTokens, responseTokens, totalTokens: promptTokens + responseTokens };
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const abortError = () => Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' });
+
+// Deterministic provider for local development and tests: the same request always produces the
+// same response, and nothing leaves the machine.
+export const createMockProvider = ({ delayMs = 0 }: MockOptions = {}): LLMProvider => ({
+  name: 'mock',
+
+  async *streamChat(request) {
+    const response = chatResponse(request);
+    // Small uneven chunks, so tags regularly arrive split across chunks like they do from a real model.
+    for (let index = 0; index < response.length; index += 17) {
+      if (request.signal?.aborted) throw abortError();
+      if (delayMs > 0) await sleep(delayMs);
+      yield { text: response.slice(index, index + 17) };
+    }
+    yield { usage: usageFor(request, response) };
+  },
+
+  async generate(request) {
+    if (request.signal?.aborted) throw abortError();
+    const text = request.json ? '{}' : `Mock response to: ${lastUserText(request.messages).slice(0, 200)}`;
+    return { text, usage: usageFor(request, text) };
+  },
+
+  async generateImage(prompt) {
+    const label = prompt.slice(0, 60).replace(/[<>&"]/g, '');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="512" height="512" fill="#f97316"/><text x="256" y="256" font-family="sans-serif" font-size="18" fill="#fff" text-anchor="middle">${label}</text></svg>`;
+    return { mimeType: 'image/svg+xml', data: Buffer.from(svg).toString('base64') };
+  },
+});
@@ -0,0 +1,63 @@
+import { type Message, type TokenUsage } from '../../core/types.ts';
+import { createGeminiProvider } from './gemini.ts';
+import { createMockProvider } from './mock.ts';
+
+export interface CompletionRequest {
+  messages: Message[];
+  systemInstruction?: string;
+  // Ask the model for a JSON document instead of prose.
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface CompletionChunk {
+  text?: string;
+  usage?: TokenUsage;
+}
+
+export interface Completion {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface GeneratedImage {
+  mimeType: string;
+  data: string; // base64 encoded
+}
+
+// Everything the API needs from a model vendor. Handlers only talk to this interface, so the
+// backing model can be swapped with LLM_PROVIDER without touching them.
+export interface LLMProvider {
+  name: string;
+  streamChat(request: CompletionRequest): AsyncIterable<CompletionChunk>;
+  generate(request: CompletionRequest): Promise<Completion>;
+  // Resolves to null when the model answered without an image.
+  generateImage(prompt: string): Promise<GeneratedImage | null>;
+}
+
+let provider: LLMProvider | null = null;
+
+// LLM_PROVIDER selects the backend: 'gemini' (default, needs API_KEY) or 'mock', which replays
+// canned responses and needs no network access.
+export const getLLMProvider = (): LLMProvider => {
+  if (!provider) {
+    const name = process.env.LLM_PROVIDER || 'gemini';
+    if (name === 'mock') {
+      provider = createMockProvider({ delayMs: Number(process.env.MOCK_LLM_DELAY_MS) || 0 });
+    } else if (name === 'gemini') {
+      const apiKey = process.env.API_KEY;
+      if (!apiKey) throw new Error('API key is missing');
+      provider = createGeminiProvider({
+        apiKey,
+        chatModel: process.env.GEMINI_CHAT_MODEL || 'gemini-2.5-flash',
+        imageModel: process.env.GEMINI_IMAGE_MODEL || 'gemini-2.5-flash-image',
+      });
+    } else {
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Use "gemini" or "mock".`);
+    }
+  }
+  return provider;
+};
+
+// Rough token count for providers that don't report usage (about four characters per token).
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
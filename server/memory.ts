@@ -0,0 +1,100 @@
+import { Role, MEMORY_TEXT_MAX_LENGTH, type MemoryFact, type Message, type TextPart } from '../core/types.ts';
+import { type LLMProvider } from './llm/provider.ts';
+import { listFacts, createFact, MAX_MEMORY_FACTS } from './memoryStore.ts';
+
+// How many facts are sent to the model with each chat request.
+const MEMORY_CONTEXT_LIMIT = 8;
+// Facts that are always included, newest first, even when nothing matches the question.
+const MEMORY_RECENT_MINIMUM = 3;
+
+const REMEMBER_COMMAND = /^\s*(?:please\s+)?remember(?:\s+(?:this|that))?\s*[:,-]?\s+([\s\S]+)$/i;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'how', 'i', 'if', 'in',
+  'is', 'it', 'me', 'my', 'of', 'on', 'or', 'should', 'so', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'with', 'you', 'your', 'we', 'our', 'will', 'am', 'have', 'has', 'about',
+]);
+
+const EXTRACTION_INSTRUCTION = `You maintain long-term memory for a music industry coach. From the conversation excerpt, extract durable facts about the user that will still matter in future conversations: registrations (PRO, distributor, publisher), release dates, team members, deals signed, goals, recurring constraints.
+Ignore small talk, questions, the coach's advice, and anything already listed under KNOWN FACTS.
+Each fact must be a short, self-contained sentence in the third person, e.g. "Registered with BMI as a songwriter." Include absolute dates when the user gave them.
+Respond with JSON only, in the form {"facts": ["..."]}. Respond with {"facts": []} when there is nothing new.`;
+
+const messageText = (message: Message) =>
+  (message.parts.filter(part => part.type === 'text') as TextPart[]).map(part => part.text).join('\n');
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ');
+
+const keywords = (text: string) =>
+  new Set(normalize(text).split(' ').filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+
+// Returns the fact text if `text` is an explicit "remember ..." command from the user.
+export const parseRememberCommand = (text: string): string | null => {
+  const match = text.match(REMEMBER_COMMAND);
+  const fact = match?.[1].trim();
+  return fact ? fact.slice(0, MEMORY_TEXT_MAX_LENGTH) : null;
+};
+
+// Picks the facts worth spending context on for this question: those sharing keywords with it,
+// topped up with the most recent facts so the coach keeps some background on unrelated questions.
+export const selectRelevantFacts = (facts: MemoryFact[], query: string): MemoryFact[] => {
+  const queryWords = keywords(query);
+  const scored = facts.map(fact => ({
+    fact,
+    score: [...keywords(fact.text)].filter(word => queryWords.has(word)).length,
+  }));
+
+  const relevant = scored
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.fact.updatedAt - a.fact.updatedAt)
+    .map(({ fact }) => fact);
+  const recent = [...facts].sort((a, b) => b.updatedAt - a.updatedAt).filter(fact => !relevant.includes(fact));
+
+  const selected = relevant.slice(0, MEMORY_CONTEXT_LIMIT);
+  return [...selected, ...recent.slice(0, Math.max(0, MEMORY_RECENT_MINIMUM - selected.length))];
+};
+
+const isDuplicate = (text: string, facts: MemoryFact[]) => facts.some(fact => normalize(fact.text) === normalize(text));
+
+// Saves the fact from a "remember ..." command, unless it's already known. Returns the stored fact.
+export const rememberExplicitFact = async (userId: string, text: string): Promise<MemoryFact | null> => {
+  const facts = await listFacts(userId);
+  const existing = facts.find(fact => normalize(fact.text) === normalize(text));
+  if (existing) return existing;
+  if (facts.length >= MAX_MEMORY_FACTS) return null;
+  return createFact(userId, text, 'explicit');
+};
+
+// Asks the model for new durable facts in the latest exchange and stores them. Returns the new facts.
+export const extractFacts = async (provider: LLMProvider, userId: string, messages: Message[]): Promise<MemoryFact[]> => {
+  const existing = await listFacts(userId);
+  const transcript = messages
+    .map(message => `${message.role === Role.User ? 'USER' : 'COACH'}: ${messageText(message)}`)
+    .join('\n\n');
+  const knownFacts = existing.map(fact => `- ${fact.text}`).join('\n') || '(none)';
+
+  const { text } = await provider.generate({
+    systemInstruction: EXTRACTION_INSTRUCTION,
+    messages: [{ role: Role.User, parts: [{ type: 'text', text: `KNOWN FACTS:\n${knownFacts}\n\nCONVERSATION:\n${transcript}` }], timestamp: Date.now() }],
+    json: true,
+  });
+
+  let candidates: unknown;
+  try {
+    candidates = (JSON.parse(text) as { facts?: unknown }).facts;
+  } catch {
+    console.warn('Memory extraction returned invalid JSON.');
+    return [];
+  }
+  if (!Array.isArray(candidates)) return [];
+
+  const created: MemoryFact[] = [];
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'string' || !candidate.trim()) continue;
+    const factText = candidate.trim().slice(0, MEMORY_TEXT_MAX_LENGTH);
+    if (isDuplicate(factText, [...existing, ...created])) continue;
+    if (existing.length + created.length >= MAX_MEMORY_FACTS) break;
+    created.push(await createFact(userId, factText, 'extracted'));
+  }
+  return created;
+};
@@ -0,0 +1,30 @@
+import { randomBytes } from 'crypto';
+import { type MemoryFact, type MemorySource } from '../core/types.ts';
+import { getStorage } from './storage.ts';
+
+// Hard cap per user, so memory can't grow without bound and every fact stays reviewable in the settings panel.
+export const MAX_MEMORY_FACTS = 100;
+
+const memoryPrefix = (userId: string) => `memory:${userId}:`;
+const factKey = (userId: string, factId: string) => `${memoryPrefix(userId)}${factId}`;
+
+export const listFacts = async (userId: string): Promise<MemoryFact[]> => {
+  const facts = await getStorage().list<MemoryFact>(memoryPrefix(userId));
+  return facts.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getFact = (userId: string, factId: string): Promise<MemoryFact | null> =>
+  getStorage().get<MemoryFact>(factKey(userId, factId));
+
+export const saveFact = (userId: string, fact: MemoryFact): Promise<void> =>
+  getStorage().set(factKey(userId, fact.id), fact);
+
+export const deleteFact = (userId: string, factId: string): Promise<void> =>
+  getStorage().delete(factKey(userId, factId));
+
+export const createFact = async (userId: string, text: string, source: MemorySource): Promise<MemoryFact> => {
+  const now = Date.now();
+  const fact: MemoryFact = { id: randomBytes(9).toString('base64url'), text, source, createdAt: now, updatedAt: now };
+  await saveFact(userId, fact);
+  return fact;
+};
@@ -0,0 +1,129 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomBytes } from 'crypto';
+import { type QuotaScope, type QuotaStatus, type UserTier } from '../core/types.ts';
+import { signValue, verifySignedValue } from './auth.ts';
+import { getClientIp, getRateLimitStore } from './rateLimit.ts';
+import { type StoredUser } from './userStore.ts';
+
+export const GUEST_TOKEN_HEADER = 'X-Guest-Token';
+
+interface QuotaRule {
+  scope: QuotaScope;
+  key: string;
+  limit: number;
+}
+
+const envInt = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) ? fallback : value;
+};
+
+// Limits are per QUOTA_WINDOW_HOURS and can be tuned per deployment without a code change.
+const getQuotaConfig = () => ({
+  windowMs: envInt('QUOTA_WINDOW_HOURS', 24) * 60 * 60 * 1000,
+  guest: envInt('QUOTA_GUEST_LIMIT', 3),
+  guestIp: envInt('QUOTA_GUEST_IP_LIMIT', 10),
+  tiers: {
+    free: envInt('QUOTA_FREE_LIMIT', 50),
+    pro: envInt('QUOTA_PRO_LIMIT', 500),
+  } as Record<UserTier, number>,
+  // Memory extraction and chat summaries run after every reply, so they draw on their own allowance
+  // instead of using up the user's messages.
+  background: {
+    free: envInt('QUOTA_FREE_BACKGROUND_LIMIT', 100),
+    pro: envInt('QUOTA_PRO_BACKGROUND_LIMIT', 1000),
+  } as Record<UserTier, number>,
+  proEmails: new Set((process.env.QUOTA_PRO_EMAILS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean)),
+});
+
+// Accounts listed in QUOTA_PRO_EMAILS are on the pro tier; everyone else is on free.
+export const getUserTier = (user: StoredUser): UserTier =>
+  getQuotaConfig().proEmails.has(user.email.trim().toLowerCase()) ? 'pro' : 'free';
+
+// The quota key for a guest: their signed guest id, or, when the token is missing or forged, their IP
+// address. A fresh token is issued in that case, but the request itself counts against the IP, so
+// dropping the token never starts a new allowance.
+const resolveGuestKey = (req: VercelRequest, res: VercelResponse): string => {
+  const header = req.headers[GUEST_TOKEN_HEADER.toLowerCase()];
+  const token = Array.isArray(header) ? header[0] : header;
+  const guestId = token ? verifySignedValue(token) : null;
+  if (guestId) return `guest:${guestId}`;
+
+  res.setHeader(GUEST_TOKEN_HEADER, signValue(randomBytes(12).toString('base64url')));
+  return `guest:ip:${getClientIp(req)}`;
+};
+
+// Signed-in users are limited by their tier. Guests are limited both per guest identity and per IP,
+// so clearing storage or opening a new tab doesn't reset the allowance.
+export const getQuotaRules = (req: VercelRequest, res: VercelResponse, user: StoredUser | null): QuotaRule[] => {
+  const config = getQuotaConfig();
+  if (user) {
+    return [{ scope: 'user', key: `user:${user.id}`, limit: config.tiers[getUserTier(user)] }];
+  }
+  return [
+    { scope: 'guest', key: resolveGuestKey(req, res), limit: config.guest },
+    { scope: 'ip', key: `ip:${getClientIp(req)}`, limit: config.guestIp },
+  ];
+};
+
+export const getBackgroundQuotaRules = (user: StoredUser): QuotaRule[] => [
+  { scope: 'user', key: `background:${user.id}`, limit: getQuotaConfig().background[getUserTier(user)] },
+];
+
+// Picks the rule with the fewest messages left, since that is the one the caller will hit first.
+const mostRestrictive = (statuses: QuotaStatus[]): QuotaStatus =>
+  statuses.reduce((tightest, status) => (status.remaining < tightest.remaining ? status : tightest));
+
+export const getQuotaStatus = async (rules: QuotaRule[]): Promise<QuotaStatus> => {
+  const { windowMs } = getQuotaConfig();
+  const store = getRateLimitStore();
+  const statuses = await Promise.all(rules.map(async rule => {
+    const window = await store.peek(rule.key);
+    return {
+      scope: rule.scope,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - (window?.count || 0)),
+      resetAt: window?.resetAt || Date.now() + windowMs,
+    };
+  }));
+  return mostRestrictive(statuses);
+};
+
+export const consumeQuota = async (rules: QuotaRule[]): Promise<QuotaStatus> => {
+  const { windowMs } = getQuotaConfig();
+  const store = getRateLimitStore();
+  const statuses = await Promise.all(rules.map(async rule => {
+    const window = await store.increment(rule.key, windowMs);
+    return {
+      scope: rule.scope,
+      limit: rule.limit,
+      remaining: Math.max(0, rule.limit - window.count),
+      resetAt: window.resetAt,
+    };
+  }));
+  return mostRestrictive(statuses);
+};
+
+export const setQuotaHeaders = (res: VercelResponse, status: QuotaStatus) => {
+  res.setHeader('X-Quota-Scope', status.scope);
+  res.setHeader('X-Quota-Limit', String(status.limit));
+  res.setHeader('X-Quota-Remaining', String(status.remaining));
+  res.setHeader('X-Quota-Reset', String(status.resetAt));
+};
+
+const setRetryAfter = (res: VercelResponse, status: QuotaStatus) =>
+  res.setHeader('Retry-After', String(Math.max(0, Math.ceil((status.resetAt - Date.now()) / 1000))));
+
+export const sendQuotaExceeded = (res: VercelResponse, status: QuotaStatus) => {
+  const message = status.scope === 'user'
+    ? "You've reached your message limit for now. Please try again later."
+    : "You've reached your free message limit. Sign up to continue.";
+  setRetryAfter(res, status);
+  return res.status(429).json({ error: message, code: 'quota_exceeded', quota: status });
+};
+
+// Leaves out the quota itself: the client shows any quota it receives as the user's messages left.
+export const sendBackgroundQuotaExceeded = (res: VercelResponse, status: QuotaStatus) => {
+  setRetryAfter(res, status);
+  return res.status(429).json({ error: 'Too many background requests. Please try again later.', code: 'quota_exceeded' });
+};
@@ -0,0 +1,68 @@
+import type { VercelRequest } from '@vercel/node';
+import { getStorage, createMemoryAdapter, type StorageAdapter } from './storage.ts';
+
+export interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window counters keyed by subject (e.g. `guest:<id>`, `ip:<address>`).
+export interface RateLimitStore {
+  peek(key: string): Promise<RateLimitWindow | null>;
+  increment(key: string, windowMs: number): Promise<RateLimitWindow>;
+}
+
+const rateLimitKey = (key: string) => `ratelimit:${key}`;
+
+export const createStorageRateLimitStore = (storage: StorageAdapter): RateLimitStore => ({
+  async peek(key: string) {
+    const window = await storage.get<RateLimitWindow>(rateLimitKey(key));
+    return window && window.resetAt > Date.now() ? window : null;
+  },
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    const existing = await storage.get<RateLimitWindow>(rateLimitKey(key));
+    const window: RateLimitWindow = existing && existing.resetAt > now
+      ? { count: existing.count + 1, resetAt: existing.resetAt }
+      : { count: 1, resetAt: now + windowMs };
+    await storage.set(rateLimitKey(key), window);
+    return window;
+  },
+});
+
+let rateLimitStore: RateLimitStore | null = null;
+
+// RATE_LIMIT_DRIVER selects where counters live: 'storage' (default, shares the STORAGE_DRIVER backend) or 'memory'.
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!rateLimitStore) {
+    const driver = process.env.RATE_LIMIT_DRIVER || 'storage';
+    if (driver === 'memory') {
+      rateLimitStore = createStorageRateLimitStore(createMemoryAdapter());
+    } else if (driver === 'storage') {
+      rateLimitStore = createStorageRateLimitStore(getStorage());
+    } else {
+      throw new Error(`Unknown RATE_LIMIT_DRIVER "${driver}". Use "storage" or "memory".`);
+    }
+  }
+  return rateLimitStore;
+};
+
+const headerValue = (req: VercelRequest, name: string): string | undefined => {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+};
+
+// The address the platform saw the request come from. Clients can send any X-Forwarded-For they like, so
+// it is only read where a proxy we trust has written it: Vercel overwrites its own forwarding header, and
+// behind another proxy (TRUST_PROXY=1) only the last entry, the one that proxy appended, is used.
+export const getClientIp = (req: VercelRequest): string => {
+  if (process.env.VERCEL) {
+    const vercelIp = headerValue(req, 'x-vercel-forwarded-for') ?? headerValue(req, 'x-real-ip');
+    if (vercelIp) return vercelIp.split(',')[0].trim();
+  }
+  if (process.env.TRUST_PROXY === '1') {
+    const proxied = headerValue(req, 'x-forwarded-for')?.split(',').pop()?.trim();
+    if (proxied) return proxied;
+  }
+  return req.socket?.remoteAddress || 'unknown';
+};
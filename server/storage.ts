@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// A minimal key-value interface that every server-side store (history, users, ...) is built on.
+// Keys are namespaced strings such as `history:<userId>:<chatId>`.
+export interface StorageAdapter {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  list<T>(prefix: string): Promise<T[]>;
+}
+
+// In-memory adapter. Data only lives as long as the process, so it is meant for tests and quick demos.
+export const createMemoryAdapter = (): StorageAdapter => {
+  const data = new Map<string, string>();
+
+  return {
+    async get<T>(key: string) {
+      const value = data.get(key);
+      return value === undefined ? null : (JSON.parse(value) as T);
+    },
+    async set<T>(key: string, value: T) {
+      data.set(key, JSON.stringify(value));
+    },
+    async delete(key: string) {
+      data.delete(key);
+    },
+    async list<T>(prefix: string) {
+      const values: T[] = [];
+      for (const [key, value] of data) {
+        if (key.startsWith(prefix)) values.push(JSON.parse(value) as T);
+      }
+      return values;
+    },
+  };
+};
+
+// File-based adapter for local runs. Each key is stored as its own JSON file inside `dir`.
+export const createFileAdapter = (dir: string): StorageAdapter => {
+  const fileFor = (key: string) => path.join(dir, `${encodeURIComponent(key)}.json`);
+
+  const readJson = async <T>(file: string): Promise<T | null> => {
+    try {
+      const raw = await fs.readFile(file, 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  return {
+    async get<T>(key: string) {
+      return readJson<T>(fileFor(key));
+    },
+    async set<T>(key: string, value: T) {
+      await fs.mkdir(dir, { recursive: true });
+      // Write to a temp file first so a crash mid-write never leaves a truncated record behind.
+      const file = fileFor(key);
+      const tmpFile = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmpFile, JSON.stringify(value), 'utf8');
+      await fs.rename(tmpFile, file);
+    },
+    async delete(key: string) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+    async list<T>(prefix: string) {
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+      const encodedPrefix = encodeURIComponent(prefix);
+      const matches = files.filter(file => file.endsWith('.json') && file.startsWith(encodedPrefix));
+      const values = await Promise.all(matches.map(file => readJson<T>(path.join(dir, file))));
+      return values.filter(value => value !== null) as T[];
+    },
+  };
+};
+
+// Adapter for a Redis-compatible REST API such as Upstash or Vercel KV, for serverless deployments where
+// there is no writable disk. Values are stored as JSON strings.
+export const createKvAdapter = (url: string, token: string): StorageAdapter => {
+  const command = async <T>(...args: (string | number)[]): Promise<T> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+    const body = await response.json() as { result?: T; error?: string };
+    if (!response.ok || body.error) {
+      throw new Error(`KV ${args[0]} failed: ${body.error || response.status}`);
+    }
+    return body.result as T;
+  };
+  // SCAN patterns are globs, so glob characters in a prefix must match literally.
+  const escapeGlob = (text: string) => text.replace(/[*?[\]\\]/g, '\\$&');
+
+  return {
+    async get<T>(key: string) {
+      const value = await command<string | null>('GET', key);
+      return value === null ? null : (JSON.parse(value) as T);
+    },
+    async set<T>(key: string, value: T) {
+      await command('SET', key, JSON.stringify(value));
+    },
+    async delete(key: string) {
+      await command('DEL', key);
+    },
+    async list<T>(prefix: string) {
+      const keys: string[] = [];
+      let cursor = '0';
+      do {
+        const [next, batch] = await command<[string, string[]]>('SCAN', cursor, 'MATCH', `${escapeGlob(prefix)}*`, 'COUNT', 200);
+        keys.push(...batch);
+        cursor = next;
+      } while (cursor !== '0');
+      if (keys.length === 0) return [];
+      const values = await command<(string | null)[]>('MGET', ...keys);
+      return values.filter((value): value is string => value !== null).map(value => JSON.parse(value) as T);
+    },
+  };
+};
+
+// Serverless platforms such as Vercel run functions on a read-only file system, where the file adapter can't persist anything.
+const isServerless = () => !!(process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME || process.env.NETLIFY);
+
+let storage: StorageAdapter | null = null;
+
+// Returns the adapter selected by STORAGE_DRIVER: 'file' (default, in STORAGE_DIR), 'memory', or 'kv'
+// (KV_REST_API_URL and KV_REST_API_TOKEN). Deployments need 'kv'; the file driver refuses to start there.
+export const getStorage = (): StorageAdapter => {
+  if (!storage) {
+    const driver = process.env.STORAGE_DRIVER || 'file';
+    if (driver === 'memory') {
+      storage = createMemoryAdapter();
+    } else if (driver === 'file') {
+      if (isServerless()) {
+        throw new Error('STORAGE_DRIVER "file" cannot persist data on a serverless platform. Set STORAGE_DRIVER=kv with KV_REST_API_URL and KV_REST_API_TOKEN.');
+      }
+      storage = createFileAdapter(process.env.STORAGE_DIR || path.join(process.cwd(), '.data'));
+    } else if (driver === 'kv') {
+      const url = process.env.KV_REST_API_URL;
+      const token = process.env.KV_REST_API_TOKEN;
+      if (!url || !token) throw new Error('STORAGE_DRIVER "kv" needs KV_REST_API_URL and KV_REST_API_TOKEN.');
+      storage = createKvAdapter(url, token);
+    } else {
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use "file", "memory" or "kv".`);
+    }
+  }
+  return storage;
+};
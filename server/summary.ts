@@ -0,0 +1,50 @@
+import { Role, CHAT_SUMMARY_MAX_LENGTH, CHAT_TITLE_MAX_LENGTH, type ChatSummary, type Message, type TextPart } from '../core/types.ts';
+import { TOOL_DEFINITIONS, splitToolBlocks } from '../core/tools/registry.ts';
+import { type LLMProvider } from './llm/provider.ts';
+
+// Only the end of a very long transcript is sent; anything before it is covered by the earlier summary.
+const TRANSCRIPT_MAX_LENGTH = 12000;
+
+const SUMMARY_INSTRUCTION = `You write the chat history entries for conversations between a music industry coach and an artist.
+Title: at most 6 words naming the topic, e.g. "EP rollout plan for June". No quotes and no trailing punctuation.
+Summary: 2 to 3 sentences on what the artist asked about, the key advice, and any decisions, dates or numbers worth remembering. Write it in the third person ("The artist...").
+If an EARLIER SUMMARY is given, the conversation continues from it: fold it into the new summary rather than repeating it.
+Respond with JSON only, in the form {"title": "...", "summary": "..."}.`;
+
+// Tool blocks are JSON meant for the UI; the model only needs to know which tool was shown.
+const messageText = (message: Message) =>
+  (message.parts.filter(part => part.type === 'text') as TextPart[])
+    .map(part => splitToolBlocks(part.text).map(segment => segment.type === 'markdown' ? segment.text : `[${TOOL_DEFINITIONS[segment.tag].title}]`).join(''))
+    .join('\n');
+
+const cleanField = (value: unknown, maxLength: number): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().replace(/^["']|["']$/g, '').trim();
+  return text ? text.slice(0, maxLength) : null;
+};
+
+// Asks the model for a title and a short summary of the conversation so far.
+export const summarizeConversation = async (provider: LLMProvider, messages: Message[], previousSummary?: string): Promise<ChatSummary> => {
+  const transcript = messages
+    .map(message => `${message.role === Role.User ? 'USER' : 'COACH'}: ${messageText(message)}`)
+    .join('\n\n')
+    .slice(-TRANSCRIPT_MAX_LENGTH);
+  const earlier = previousSummary ? `EARLIER SUMMARY:\n${previousSummary}\n\n` : '';
+
+  const { text } = await provider.generate({
+    systemInstruction: SUMMARY_INSTRUCTION,
+    messages: [{ role: Role.User, parts: [{ type: 'text', text: `${earlier}CONVERSATION:\n${transcript}` }], timestamp: Date.now() }],
+    json: true,
+  });
+
+  let parsed: { title?: unknown; summary?: unknown } = {};
+  try {
+    parsed = JSON.parse(text) ?? {};
+  } catch {
+    console.warn('Conversation summary returned invalid JSON.');
+  }
+  return {
+    title: cleanField(parsed.title, CHAT_TITLE_MAX_LENGTH)?.replace(/[.!?]+$/, '') || null,
+    summary: cleanField(parsed.summary, CHAT_SUMMARY_MAX_LENGTH),
+  };
+};
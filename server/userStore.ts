@@ -0,0 +1,26 @@
+import { type User, type ArtistProfile } from '../core/types.ts';
+import { getStorage } from './storage.ts';
+
+export interface StoredUser extends User {
+  id: string;
+  passwordHash: string;
+  createdAt: number;
+  profile?: ArtistProfile;
+}
+
+// Emails are case-insensitive, so the normalized email doubles as a stable, storage-safe user id.
+export const userIdForEmail = (email: string): string => encodeURIComponent(email.trim().toLowerCase());
+
+const userKey = (userId: string) => `user:${userId}`;
+
+export const getUserById = (userId: string): Promise<StoredUser | null> =>
+  getStorage().get<StoredUser>(userKey(userId));
+
+export const getUserByEmail = (email: string): Promise<StoredUser | null> =>
+  getUserById(userIdForEmail(email));
+
+export const saveUser = (user: StoredUser): Promise<void> =>
+  getStorage().set(userKey(user.id), user);
+
+// Strips server-only fields before a user record is sent to the client.
+export const toPublicUser = ({ firstName, lastName, email }: StoredUser): User => ({ firstName, lastName, email });
@@ -0,0 +1,111 @@
+import { type QuotaStatus, type QuotaScope } from '../types.ts';
+
+const AUTH_TOKEN_KEY = 'indie-coach-auth-token';
+const GUEST_TOKEN_KEY = 'indie-coach-guest-token';
+const GUEST_TOKEN_HEADER = 'X-Guest-Token';
+
+export class ApiError extends Error {
+  status: number;
+  field?: string;
+  quota?: QuotaStatus;
+
+  constructor(message: string, status: number, field?: string, quota?: QuotaStatus) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.field = field;
+    this.quota = quota;
+  }
+}
+
+export const getAuthToken = (): string | null => localStorage.getItem(AUTH_TOKEN_KEY);
+
+export const setAuthToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+  }
+};
+
+// Identity headers for the current caller: the session token when signed in, otherwise the guest token
+// the server issued so guest quotas follow the visitor. Exported for callers that use fetch directly (e.g. streaming).
+export const sessionHeaders = (): Record<string, string> => {
+  const token = getAuthToken();
+  if (token) return { Authorization: `Bearer ${token}` };
+  const guestToken = localStorage.getItem(GUEST_TOKEN_KEY);
+  return guestToken ? { [GUEST_TOKEN_HEADER]: guestToken } : {};
+};
+
+type QuotaListener = (quota: QuotaStatus) => void;
+const quotaListeners = new Set<QuotaListener>();
+
+// Calls `listener` with the quota reported by any response, including requests a tool makes on its own (e.g.
+// regenerating a post), so the messages-left count stays current. Returns the unsubscribe function.
+export const subscribeToQuota = (listener: QuotaListener): (() => void) => {
+  quotaListeners.add(listener);
+  return () => {
+    quotaListeners.delete(listener);
+  };
+};
+
+const reportQuota = (quota: QuotaStatus) => quotaListeners.forEach(listener => listener(quota));
+
+// Stores a newly issued guest token and returns any quota information attached to the response.
+export const readSessionResponse = (response: Response): QuotaStatus | null => {
+  const guestToken = response.headers.get(GUEST_TOKEN_HEADER);
+  if (guestToken) {
+    localStorage.setItem(GUEST_TOKEN_KEY, guestToken);
+  }
+
+  const remaining = response.headers.get('X-Quota-Remaining');
+  const limit = response.headers.get('X-Quota-Limit');
+  if (remaining === null || limit === null) return null;
+  const quota: QuotaStatus = {
+    scope: (response.headers.get('X-Quota-Scope') || 'guest') as QuotaScope,
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: Number(response.headers.get('X-Quota-Reset')) || 0,
+  };
+  reportQuota(quota);
+  return quota;
+};
+
+// Reads the `{ error, field }` body our endpoints return on failure.
+export const toApiError = async (response: Response): Promise<ApiError> => {
+  let message = response.statusText;
+  let field: string | undefined;
+  let quota: QuotaStatus | undefined;
+  try {
+    const body = await response.json();
+    if (body && typeof body.error === 'string') message = body.error;
+    if (body && typeof body.field === 'string') field = body.field;
+    if (body && body.quota) quota = body.quota;
+  } catch {
+    // Non-JSON error body; fall back to the status text.
+  }
+  if (quota) reportQuota(quota);
+  return new ApiError(message, response.status, field, quota);
+};
+
+// Thin wrapper around fetch for the app's JSON endpoints. Sends the session token when there is one
+// and throws an ApiError carrying the server's `error` message when the response is not ok.
+export const apiFetch = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const headers = new Headers(init.headers);
+  if (init.body && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+  Object.entries(sessionHeaders()).forEach(([name, value]) => {
+    if (!headers.has(name)) headers.set(name, value);
+  });
+
+  const response = await fetch(path, { ...init, headers });
+  readSessionResponse(response);
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  if (response.status === 204) return undefined as T;
+  return response.json() as Promise<T>;
+};
@@ -0,0 +1,33 @@
+import { type User, type SignUpDetails } from '../types.ts';
+import { apiFetch, setAuthToken } from './apiClient.ts';
+
+interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export const signUp = async (details: SignUpDetails): Promise<User> => {
+  const { token, user } = await apiFetch<AuthResponse>('/api/auth/signup', {
+    method: 'POST',
+    body: JSON.stringify(details),
+  });
+  setAuthToken(token);
+  return user;
+};
+
+export const logIn = async (email: string, password: string): Promise<User> => {
+  const { token, user } = await apiFetch<AuthResponse>('/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+  setAuthToken(token);
+  return user;
+};
+
+export const logOut = async (): Promise<void> => {
+  try {
+    await apiFetch('/api/auth/logout', { method: 'POST' });
+  } finally {
+    setAuthToken(null);
+  }
+};
@@ -0,0 +1,53 @@
+import { type ChatStreamEvent } from '../core/chatEvents.ts';
+import { type ChatRequest, type Message } from '../types.ts';
+import { sessionHeaders, readSessionResponse, toApiError } from './apiClient.ts';
+
+// Reads the NDJSON event stream returned by /api/chat, yielding one parsed event per line.
+export async function* readChatEvents(response: Response): AsyncGenerator<ChatStreamEvent> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield JSON.parse(line) as ChatStreamEvent;
+      newline = buffer.indexOf('\n');
+    }
+
+    if (done) break;
+  }
+
+  if (buffer.trim()) {
+    yield JSON.parse(buffer) as ChatStreamEvent;
+  }
+}
+
+// Sends a one-off conversation to /api/chat and resolves with the coach's complete answer. For tools
+// that ask the coach for a small piece of content outside the chat, so nothing is shown while it streams.
+export const requestChatReply = async (messages: Message[], signal?: AbortSignal): Promise<string> => {
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...sessionHeaders() },
+    body: JSON.stringify({ messages } satisfies ChatRequest),
+    signal,
+  });
+  readSessionResponse(response);
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  let text = '';
+  for await (const event of readChatEvents(response)) {
+    if (event.type === 'delta') text += event.text;
+    if (event.type === 'error') throw new Error(event.message);
+  }
+  return text;
+};
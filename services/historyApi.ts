@@ -0,0 +1,50 @@
+import { type ChatSession, type ChatSummary, type Message, isStoredChatSession, normalizeChatSession } from '../types.ts';
+import { apiFetch } from './apiClient.ts';
+
+export const fetchHistory = async (): Promise<ChatSession[]> => {
+  const { sessions } = await apiFetch<{ sessions: ChatSession[] }>('/api/history');
+  return sessions;
+};
+
+export const saveChatSession = async (session: ChatSession): Promise<void> => {
+  await apiFetch('/api/history', {
+    method: 'PUT',
+    body: JSON.stringify({ session }),
+  });
+};
+
+// Asks the server for a title and short summary. `previousSummary` covers whatever came before `messages`.
+export const summarizeChat = (messages: Message[], previousSummary?: string): Promise<ChatSummary> =>
+  apiFetch<ChatSummary>('/api/summarize', {
+    method: 'POST',
+    body: JSON.stringify({ messages, previousSummary }),
+  });
+
+export const deleteChatSession = async (id: string): Promise<void> => {
+  await apiFetch(`/api/history?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+};
+
+// Chats used to be kept in localStorage only. Upload any that the server doesn't know about yet, upgraded
+// with the timestamps and metadata fields they predate, then drop the old key so the migration runs once per browser.
+export const migrateLocalHistory = async (email: string, serverHistory: ChatSession[]): Promise<ChatSession[]> => {
+  const legacyKey = `indie-coach-history-${email}`;
+  const savedHistory = localStorage.getItem(legacyKey);
+  if (!savedHistory) return serverHistory;
+
+  let legacyHistory: ChatSession[] = [];
+  try {
+    const historyData = JSON.parse(savedHistory);
+    if (Array.isArray(historyData)) {
+      legacyHistory = historyData.filter(isStoredChatSession).map(normalizeChatSession);
+    }
+  } catch (e) {
+    console.error("Failed to parse legacy chat history from localStorage, skipping migration.", e);
+  }
+
+  const knownIds = new Set(serverHistory.map(session => session.id));
+  const toUpload = legacyHistory.filter(session => !knownIds.has(session.id));
+  await Promise.all(toUpload.map(session => saveChatSession(session)));
+  localStorage.removeItem(legacyKey);
+
+  return [...serverHistory, ...toUpload].sort((a, b) => b.updatedAt - a.updatedAt);
+};
@@ -0,0 +1,36 @@
+import { type MemoryFact, type Message } from '../types.ts';
+import { apiFetch } from './apiClient.ts';
+
+export const fetchMemories = async (): Promise<MemoryFact[]> => {
+  const { facts } = await apiFetch<{ facts: MemoryFact[] }>('/api/memory');
+  return facts;
+};
+
+export const createMemory = async (text: string): Promise<MemoryFact> => {
+  const { fact } = await apiFetch<{ fact: MemoryFact }>('/api/memory', {
+    method: 'POST',
+    body: JSON.stringify({ text }),
+  });
+  return fact;
+};
+
+export const updateMemory = async (id: string, text: string): Promise<MemoryFact> => {
+  const { fact } = await apiFetch<{ fact: MemoryFact }>(`/api/memory?id=${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ text }),
+  });
+  return fact;
+};
+
+export const deleteMemory = async (id: string): Promise<void> => {
+  await apiFetch(`/api/memory?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+};
+
+// Asks the server to pull durable facts out of the latest exchange. Returns only the newly stored facts.
+export const extractMemories = async (messages: Message[]): Promise<MemoryFact[]> => {
+  const { facts } = await apiFetch<{ facts: MemoryFact[] }>('/api/memory/extract', {
+    method: 'POST',
+    body: JSON.stringify({ messages }),
+  });
+  return facts;
+};
@@ -0,0 +1,15 @@
+import { type ArtistProfile } from '../types.ts';
+import { apiFetch } from './apiClient.ts';
+
+export const fetchProfile = async (): Promise<ArtistProfile> => {
+  const { profile } = await apiFetch<{ profile: ArtistProfile }>('/api/profile');
+  return profile;
+};
+
+export const saveProfile = async (profile: ArtistProfile): Promise<ArtistProfile> => {
+  const { profile: saved } = await apiFetch<{ profile: ArtistProfile }>('/api/profile', {
+    method: 'PUT',
+    body: JSON.stringify({ profile }),
+  });
+  return saved;
+};
@@ -0,0 +1,7 @@
+import { type QuotaStatus } from '../types.ts';
+import { apiFetch } from './apiClient.ts';
+
+export const fetchQuota = async (): Promise<QuotaStatus> => {
+  const { quota } = await apiFetch<{ quota: QuotaStatus }>('/api/quota');
+  return quota;
+};
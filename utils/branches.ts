@@ -0,0 +1,39 @@
+import { type Message } from '../types.ts';
+
+type BranchInfo = Pick<Message, 'branches' | 'branchIndex'>;
+
+const withoutBranches = (tail: Message[]): Message[] => {
+  const [head, ...rest] = tail;
+  const { branches: _branches, branchIndex: _branchIndex, ...plainHead } = head;
+  return [plainHead, ...rest];
+};
+
+// Every version of the conversation starting at `tail[0]`, in the order the branch switcher shows them.
+const allVersions = (tail: Message[]): Message[][] => {
+  const hidden = tail[0].branches ?? [];
+  const visibleIndex = Math.min(tail[0].branchIndex ?? hidden.length, hidden.length);
+  return [...hidden.slice(0, visibleIndex), withoutBranches(tail), ...hidden.slice(visibleIndex)];
+};
+
+export const getBranchCount = (message: Message): number => (message.branches?.length ?? 0) + 1;
+
+export const getBranchIndex = (message: Message): number => {
+  const hiddenCount = message.branches?.length ?? 0;
+  return Math.min(message.branchIndex ?? hiddenCount, hiddenCount);
+};
+
+// Branch info for a new message replacing `previousTail[0]`: every existing version is kept and the
+// new message becomes the last one.
+export const addBranch = (previousTail: Message[]): BranchInfo => {
+  const branches = allVersions(previousTail);
+  return { branches, branchIndex: branches.length };
+};
+
+// Shows version `target` of the conversation from `index` onward.
+export const switchBranch = (messages: Message[], index: number, target: number): Message[] => {
+  const versions = allVersions(messages.slice(index));
+  const chosen = versions[target];
+  if (!chosen) return messages;
+  const hidden = versions.filter((_, i) => i !== target);
+  return [...messages.slice(0, index), { ...chosen[0], branches: hidden, branchIndex: target }, ...chosen.slice(1)];
+};
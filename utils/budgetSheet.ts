@@ -0,0 +1,103 @@
+import { type BudgetLine, type BudgetTableState, DEFAULT_BUDGET_CATEGORY, budgetTableTool } from '../core/tools/budgetTable.ts';
+import { type ToolParseResult } from '../core/tools/types.ts';
+import { validateJson } from '../core/jsonSchema.ts';
+import { toCsv, parseCsv } from './csv.ts';
+
+const FIXED_CSV_COLUMNS = ['Category', 'Item', 'Low', 'High'];
+const ACTUAL_CSV_COLUMN = 'Actual';
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Reads a typed amount, keeping cents. Anything unreadable counts as 0.
+export const parseAmount = (text: string): number => {
+  const value = parseFloat(text.replace(/[$,\s]/g, ''));
+  return Number.isFinite(value) ? roundMoney(value) : 0;
+};
+
+export const newLineId = () => `line-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Makes every line carry exactly one planned amount per scenario and keeps the baseline in range.
+export const normalizeBudgetSheet = (sheet: BudgetTableState): BudgetTableState => ({
+  ...sheet,
+  lines: sheet.lines.map(line => ({
+    ...line,
+    planned: sheet.scenarios.map((_, index) => line.planned[index] ?? 0),
+  })),
+  baseline: Math.min(Math.max(sheet.baseline, 0), sheet.scenarios.length - 1),
+});
+
+export interface BudgetCategory {
+  name: string;
+  lines: BudgetLine[];
+}
+
+// Lines grouped by category, in order of each category's first line.
+export const groupByCategory = (lines: BudgetLine[]): BudgetCategory[] => {
+  const categories = new Map<string, BudgetLine[]>();
+  for (const line of lines) {
+    const group = categories.get(line.category) ?? [];
+    group.push(line);
+    categories.set(line.category, group);
+  }
+  return [...categories].map(([name, categoryLines]) => ({ name, lines: categoryLines }));
+};
+
+export const sumPlanned = (lines: BudgetLine[], scenario: number) => roundMoney(lines.reduce((total, line) => total + (line.planned[scenario] ?? 0), 0));
+
+export const sumActual = (lines: BudgetLine[]) => roundMoney(lines.reduce((total, line) => total + (line.actual ?? 0), 0));
+
+export const hasActuals = (lines: BudgetLine[]) => lines.some(line => line.actual !== undefined);
+
+// Swaps a line with its nearest neighbour in the same category, so lines move within their group.
+export const moveLine = (lines: BudgetLine[], id: string, direction: -1 | 1): BudgetLine[] => {
+  const index = lines.findIndex(line => line.id === id);
+  if (index === -1) return lines;
+  let target = index + direction;
+  while (target >= 0 && target < lines.length && lines[target].category !== lines[index].category) target += direction;
+  if (target < 0 || target >= lines.length) return lines;
+  const moved = [...lines];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+export const budgetSheetToCsv = (sheet: BudgetTableState): string =>
+  toCsv([
+    [...FIXED_CSV_COLUMNS, ...sheet.scenarios, ACTUAL_CSV_COLUMN],
+    ...sheet.lines.map(line => [line.category, line.item, line.low, line.high, ...line.planned, line.actual ?? '']),
+  ]);
+
+// Expects the layout written by budgetSheetToCsv: Category, Item, Low, High, one column per scenario, Actual.
+export const budgetSheetFromCsv = (text: string): ToolParseResult<BudgetTableState> => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header || header.length < FIXED_CSV_COLUMNS.length + 2 || header[header.length - 1].trim() !== ACTUAL_CSV_COLUMN) {
+    return { ok: false, error: `The CSV needs the columns ${FIXED_CSV_COLUMNS.join(', ')}, one column per scenario, then ${ACTUAL_CSV_COLUMN}.` };
+  }
+  const scenarios = header.slice(FIXED_CSV_COLUMNS.length, -1).map((name, index) => name.trim() || `Scenario ${index + 1}`);
+  const lines = rows.map((row): BudgetLine => {
+    const actual = row[header.length - 1]?.trim();
+    return {
+      id: newLineId(),
+      category: row[0]?.trim() || DEFAULT_BUDGET_CATEGORY,
+      item: row[1]?.trim() ?? '',
+      low: parseAmount(row[2] ?? ''),
+      high: parseAmount(row[3] ?? ''),
+      planned: scenarios.map((_, index) => parseAmount(row[FIXED_CSV_COLUMNS.length + index] ?? '')),
+      ...(actual ? { actual: parseAmount(actual) } : {}),
+    };
+  });
+  return { ok: true, data: { scenarios, lines, baseline: 0 } };
+};
+
+export const budgetSheetToJson = (sheet: BudgetTableState): string => JSON.stringify(sheet, null, 2);
+
+export const budgetSheetFromJson = (text: string): ToolParseResult<BudgetTableState> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON.' };
+  }
+  const error = validateJson(budgetTableTool.stateSchema, value);
+  if (error) return { ok: false, error: `The file isn't a budget export: ${error}.` };
+  return { ok: true, data: normalizeBudgetSheet(value as BudgetTableState) };
+};
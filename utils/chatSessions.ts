@@ -0,0 +1,40 @@
+import { type ChatSession, type Message } from '../core/types.ts';
+
+export const createChatSession = (id: string, title: string, messages: Message[]): ChatSession => {
+  const now = Date.now();
+  return { id, title, messages, createdAt: now, updatedAt: now, tags: [], pinned: false };
+};
+
+// What the user can change about a chat from the sidebar without touching the conversation.
+export type ChatSessionMeta = Partial<Pick<ChatSession, 'title' | 'folder' | 'tags' | 'pinned'>>;
+
+const byActivity = (a: ChatSession, b: ChatSession) => b.updatedAt - a.updatedAt;
+const byName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+export const listFolders = (sessions: ChatSession[]): string[] =>
+  [...new Set(sessions.flatMap(session => session.folder ? [session.folder] : []))].sort(byName);
+
+export const listTags = (sessions: ChatSession[]): string[] =>
+  [...new Set(sessions.flatMap(session => session.tags))].sort(byName);
+
+// "release, Mixing ,release" -> ['release', 'Mixing']
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+export interface SidebarGroups {
+  pinned: ChatSession[];
+  folders: { name: string; chats: ChatSession[] }[];
+  unfiled: ChatSession[];
+}
+
+// Pinned chats sit above everything, wherever they are filed; the rest are grouped by folder. Every
+// group lists the most recently active chat first.
+export const groupChatSessions = (sessions: ChatSession[], tag: string | null): SidebarGroups => {
+  const visible = (tag ? sessions.filter(session => session.tags.includes(tag)) : sessions).slice().sort(byActivity);
+  const unpinned = visible.filter(session => !session.pinned);
+  return {
+    pinned: visible.filter(session => session.pinned),
+    folders: listFolders(unpinned).map(name => ({ name, chats: unpinned.filter(session => session.folder === name) })),
+    unfiled: unpinned.filter(session => !session.folder),
+  };
+};
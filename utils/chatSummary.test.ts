@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Role, type Message } from '../core/types.ts';
+import { addBranch, switchBranch } from './branches.ts';
+import { createChatSession } from './chatSessions.ts';
+import { compressHistory, pendingSummary } from './chatSummary.ts';
+
+const conversation = (length: number): Message[] =>
+  Array.from({ length }, (_, i) => ({ role: i % 2 === 0 ? Role.User : Role.AI, parts: [{ type: 'text', text: `Message ${i}` }], timestamp: 1000 + i }));
+
+const summarized = (messages: Message[], count: number) => ({
+  ...createChatSession('1', 'Release plan', messages),
+  summary: 'The artist is planning an EP release.',
+  summarizedCount: count,
+  summarizedThrough: messages[count - 1].timestamp,
+});
+
+// The user edits message `index`, which starts a new branch there.
+const editAt = (messages: Message[], index: number): Message[] => [
+  ...messages.slice(0, index),
+  { role: Role.User, parts: [{ type: 'text', text: 'Edited' }], timestamp: 5000, ...addBranch(messages.slice(index)) },
+];
+
+describe('compressHistory', () => {
+  it('replaces the summarized messages with a recap exchange', () => {
+    const messages = conversation(24);
+    const compressed = compressHistory(messages, summarized(messages, 16));
+
+    expect(compressed).toHaveLength(10);
+    expect(compressed[0]).toMatchObject({ role: Role.User, parts: [{ type: 'text', text: expect.stringContaining('The artist is planning an EP release.') }] });
+    expect(compressed[1].role).toBe(Role.AI);
+    expect(compressed.slice(2)).toEqual(messages.slice(16));
+  });
+
+  it('sends short chats verbatim', () => {
+    const messages = conversation(12);
+    expect(compressHistory(messages, summarized(messages, 10))).toBe(messages);
+  });
+
+  it('ignores a summary of messages that were edited since', () => {
+    const messages = conversation(24);
+    const session = summarized(messages, 16);
+    const edited = [...editAt(messages, 10), ...conversation(13).slice(1)];
+
+    expect(compressHistory(edited, session)).toBe(edited);
+    expect(pendingSummary(edited, session)).toEqual({ messages: edited });
+  });
+
+  it('uses the summary again after switching back to the summarized branch', () => {
+    const messages = conversation(24);
+    const session = summarized(messages, 16);
+    const edited = editAt(messages, 10);
+    const restored = switchBranch(edited, 10, 0);
+
+    expect(compressHistory(restored, session)).toHaveLength(10);
+  });
+});
+
+describe('pendingSummary', () => {
+  it('summarizes a chat after its first exchange', () => {
+    const messages = conversation(2);
+    expect(pendingSummary(messages, createChatSession('1', 'Hi', messages))).toEqual({ messages });
+  });
+
+  it('brings a long summary up to date from where it left off', () => {
+    const messages = conversation(24);
+    const session = summarized(messages, 16);
+    expect(pendingSummary(messages, session)).toEqual({ messages: messages.slice(16), previousSummary: session.summary });
+  });
+});
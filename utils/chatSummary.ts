@@ -0,0 +1,40 @@
+import { Role, type ChatSession, type Message } from '../core/types.ts';
+
+// Chats longer than this are sent to the coach as their summary plus the latest messages.
+const COMPRESS_AFTER_MESSAGES = 20;
+// The latest messages always go verbatim, so the coach sees the current thread word for word.
+const RECENT_MESSAGES = 8;
+// How many messages a long chat may run past its summary before the summary is brought up to date.
+const RESUMMARIZE_AFTER_MESSAGES = 8;
+
+// A summary is current while the last message it covers is still in place. Editing, regenerating or switching
+// branches at or before that message replaces it; switching back makes the summary current again.
+const isCurrent = (session: ChatSession | undefined, messages: Message[]): session is ChatSession & { summary: string; summarizedCount: number } =>
+  !!session?.summary && !!session.summarizedCount && messages[session.summarizedCount - 1]?.timestamp === session.summarizedThrough;
+
+// The messages to send for a reply. Once a chat is long, the summarized messages are replaced by an
+// exchange that recaps them, keeping at least RECENT_MESSAGES and starting the rest on a user message.
+// The recap is part of the conversation like any other message, not of the system instruction.
+export const compressHistory = (messages: Message[], session: ChatSession | undefined): Message[] => {
+  if (messages.length <= COMPRESS_AFTER_MESSAGES || !isCurrent(session, messages)) return messages;
+  let start = Math.min(session.summarizedCount, messages.length - RECENT_MESSAGES);
+  while (start > 0 && messages[start].role !== Role.User) start--;
+  if (start === 0) return messages;
+  const timestamp = messages[start - 1].timestamp;
+  return [
+    { role: Role.User, parts: [{ type: 'text', text: `Here's a summary of our conversation so far:\n\n${session.summary}` }], timestamp },
+    { role: Role.AI, parts: [{ type: 'text', text: "Got it. Let's pick up from there." }], timestamp },
+    ...messages.slice(start),
+  ];
+};
+
+// What to send to /api/summarize after an exchange, or null when the summary is still good: a chat is
+// summarized after its first exchange, and a long one again whenever it has moved well past its summary.
+export const pendingSummary = (messages: Message[], session: ChatSession | undefined): { messages: Message[]; previousSummary?: string } | null => {
+  if (messages.length < 2) return null;
+  if (!isCurrent(session, messages)) return { messages };
+  if (messages.length > COMPRESS_AFTER_MESSAGES && messages.length - session.summarizedCount >= RESUMMARIZE_AFTER_MESSAGES) {
+    return { messages: messages.slice(session.summarizedCount), previousSummary: session.summary };
+  }
+  return null;
+};
@@ -0,0 +1,60 @@
+import { type ContentCalendarData, type ContentCalendarState, type ContentPost } from '../core/tools/contentCalendar.ts';
+import { type ToolParseResult } from '../core/tools/types.ts';
+import { parseToolBlock, splitToolBlocks } from '../core/tools/registry.ts';
+import { toCsv } from './csv.ts';
+import { addDays, todayIso } from './dates.ts';
+
+const MAX_MONTH_DAYS = 42;
+
+export const createContentCalendar = (data: ContentCalendarData): ContentCalendarState => ({
+  title: data.title,
+  view: data.view,
+  startDate: data.startDate ?? todayIso(),
+  posts: data.posts,
+});
+
+// Days shown at once: one week, or enough whole weeks (four to six) to hold every post.
+export const visibleDayCount = (state: ContentCalendarState): number => {
+  if (state.view === 'week') return 7;
+  const lastDay = Math.max(0, ...state.posts.map(post => post.day));
+  return Math.min(MAX_MONTH_DAYS, Math.max(28, Math.ceil((lastDay + 1) / 7) * 7));
+};
+
+export const newPost = (day: number): ContentPost => ({ day, time: '', platform: '', pillar: '', format: '', caption: '', status: 'idea' });
+
+const byDayAndTime = (a: ContentPost, b: ContentPost) => a.day - b.day || a.time.localeCompare(b.time);
+
+// One row per post in date order, with the columns scheduling tools like Buffer and Later import.
+export const contentCalendarToCsv = (state: ContentCalendarState): string =>
+  toCsv([
+    ['Date', 'Time', 'Platform', 'Pillar', 'Format', 'Caption', 'Status'],
+    ...[...state.posts].sort(byDayAndTime).map(post => [addDays(state.startDate, post.day), post.time, post.platform, post.pillar, post.format, post.caption, post.status]),
+  ]);
+
+export const contentCalendarFilename = (state: ContentCalendarState) =>
+  `${state.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'content-calendar'}.csv`;
+
+// Asks the coach for a fresh take on one post, answered as a one-post calendar block so the reply is
+// checked against the same schema as a full calendar.
+export const buildRegeneratePrompt = (state: ContentCalendarState, index: number): string => {
+  const post = state.posts[index];
+  const others = state.posts.filter((_, i) => i !== index).map(other => `- ${other.platform} ${other.format} (${other.pillar}): ${other.caption}`);
+  return [
+    `Rewrite this post from my content calendar "${state.title}" with a new angle and a fresh caption. Keep it on ${post.platform || 'the same platform'} and keep "day" at ${post.day}.`,
+    JSON.stringify(post),
+    others.length > 0 ? `Don't repeat the other posts in the plan:\n${others.join('\n')}` : '',
+    'Reply with only a [CONTENT_CALENDAR] block containing this one post.',
+  ].filter(Boolean).join('\n\n');
+};
+
+export const parseRegeneratedPost = (reply: string, original: ContentPost): ToolParseResult<ContentPost> => {
+  const block = splitToolBlocks(reply).find(segment => segment.type === 'tool' && segment.tag === 'CONTENT_CALENDAR');
+  if (!block || block.type !== 'tool') {
+    return { ok: false, error: "The coach didn't send back a new post." };
+  }
+  const result = parseToolBlock('CONTENT_CALENDAR', block.body);
+  if (result.ok === false) return result;
+  // The user's scheduling stays theirs; only the content is replaced, and it's a draft until they approve it.
+  const [post] = result.data.posts;
+  return { ok: true, data: { ...post, day: original.day, time: original.time, status: 'draft' } };
+};
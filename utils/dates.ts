@@ -0,0 +1,20 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar dates are handled as YYYY-MM-DD strings and computed in UTC, so adding days never trips over
+// a daylight saving change.
+export const addDays = (date: string, days: number): string => {
+  const start = Date.parse(date);
+  if (Number.isNaN(start)) return date;
+  return new Date(start + days * DAY_MS).toISOString().slice(0, 10);
+};
+
+export const daysFrom = (from: string, to: string): number => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+// Today in the user's own time zone.
+export const todayIso = (): string => {
+  const now = new Date();
+  return [now.getFullYear(), now.getMonth() + 1, now.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+};
+
+export const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
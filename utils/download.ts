@@ -0,0 +1,26 @@
+// Saves `content` as a file through a temporary object URL.
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking in the same tick as the click cancels the download in some browsers (e.g. Safari).
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Opens `html` in a new window and brings up the print dialog, from which it can also be saved as a PDF.
+// Returns false if the browser blocked the window.
+export const printHtml = (html: string): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  // The document is inline HTML with embedded styles, so it is ready to print as soon as it is written.
+  printWindow.print();
+  return true;
+};
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { type BlockNode, type InlineNode, parseMarkdown, safeHref, splitCompletedBlocks } from './markdown.ts';
+
+const text = (value: string): InlineNode => ({ type: 'text', value });
+const paragraph = (...children: InlineNode[]): BlockNode => ({ type: 'paragraph', children });
+const item = (children: BlockNode[], { checked = null, emoji = null }: { checked?: boolean | null; emoji?: string | null } = {}) =>
+  ({ type: 'listItem' as const, checked, emoji, children });
+
+// Markdown as the coach writes it, and the tree MarkdownContent renders from it.
+const FIXTURES: { name: string; markdown: string; expected: BlockNode[] }[] = [
+  {
+    name: 'links and literal autolinks',
+    markdown: 'See [the guide](https://example.com "Guide") and https://www.example.com/path.',
+    expected: [paragraph(
+      text('See '),
+      { type: 'link', href: 'https://example.com', title: 'Guide', children: [text('the guide')] },
+      text(' and '),
+      { type: 'link', href: 'https://www.example.com/path', title: null, children: [text('https://www.example.com/path')] },
+      text('.'),
+    )],
+  },
+  {
+    name: 'reference links defined after use',
+    markdown: 'Register with [your PRO][pro].\n\n[pro]: https://www.bmi.com',
+    expected: [paragraph(text('Register with '), { type: 'link', href: 'https://www.bmi.com', title: null, children: [text('your PRO')] }, text('.'))],
+  },
+  {
+    name: 'fenced code keeps its content verbatim',
+    markdown: '```ts\nconst split = 0.5; // **not bold**\n\n```',
+    expected: [{ type: 'code', lang: 'ts', value: 'const split = 0.5; // **not bold**\n' }],
+  },
+  {
+    name: 'nested lists',
+    markdown: '- one\n  - nested\n    1. deep\n- two',
+    expected: [{
+      type: 'list', ordered: false, start: 1, tight: true, children: [
+        item([
+          paragraph(text('one')),
+          {
+            type: 'list', ordered: false, start: 1, tight: true, children: [
+              item([paragraph(text('nested')), { type: 'list', ordered: true, start: 1, tight: true, children: [item([paragraph(text('deep'))])] }]),
+            ],
+          },
+        ]),
+        item([paragraph(text('two'))]),
+      ],
+    }],
+  },
+  {
+    name: 'loose lists',
+    markdown: '3. first\n\n4. second',
+    expected: [{ type: 'list', ordered: true, start: 3, tight: false, children: [item([paragraph(text('first'))]), item([paragraph(text('second'))])] }],
+  },
+  {
+    name: 'tables with alignment',
+    markdown: '| Item | Cost |\n|:-----|-----:|\n| Mix | **$800** |',
+    expected: [{
+      type: 'table',
+      align: ['left', 'right'],
+      head: [[text('Item')], [text('Cost')]],
+      rows: [[[text('Mix')], [{ type: 'strong', children: [text('$800')] }]]],
+    }],
+  },
+  {
+    name: 'task lists',
+    markdown: '- [ ] Book the studio\n- [x] Finish the mix',
+    expected: [{
+      type: 'list', ordered: false, start: 1, tight: true, children: [
+        item([paragraph(text('Book the studio'))], { checked: false }),
+        item([paragraph(text('Finish the mix'))], { checked: true }),
+      ],
+    }],
+  },
+  {
+    name: 'strikethrough',
+    markdown: '~~Self-release~~ Pitch to labels',
+    expected: [paragraph({ type: 'delete', children: [text('Self-release')] }, text(' Pitch to labels'))],
+  },
+  {
+    name: 'callouts',
+    markdown: '> [!TIP]\n> Keep 10% aside.\n\n> [!ACTION] Register your songs.',
+    expected: [
+      { type: 'callout', kind: 'tip', children: [paragraph(text('Keep 10% aside.'))] },
+      { type: 'callout', kind: 'action', children: [paragraph(text('Register your songs.'))] },
+    ],
+  },
+  {
+    name: 'plain blockquotes are not callouts',
+    markdown: '> Music is a business.',
+    expected: [{ type: 'blockquote', children: [paragraph(text('Music is a business.'))] }],
+  },
+  {
+    name: 'emoji headings and list items',
+    markdown: '### 💰 Sample Budget\n\n- 🎤 Book shows\n- 👩🏽‍🎤 Find a singer',
+    expected: [
+      { type: 'heading', depth: 3, emoji: '💰', children: [text('Sample Budget')] },
+      {
+        type: 'list', ordered: false, start: 1, tight: true, children: [
+          item([paragraph(text('Book shows'))], { emoji: '🎤' }),
+          item([paragraph(text('Find a singer'))], { emoji: '👩🏽‍🎤' }),
+        ],
+      },
+    ],
+  },
+  {
+    name: 'raw HTML stays text',
+    markdown: '<script>alert(1)</script>',
+    expected: [paragraph(text('<script>alert(1)</script>'))],
+  },
+];
+
+describe('parseMarkdown', () => {
+  it.each(FIXTURES)('parses $name', ({ markdown, expected }) => {
+    expect(parseMarkdown(markdown)).toEqual(expected);
+  });
+});
+
+describe('splitCompletedBlocks', () => {
+  it('holds back a list that may still continue', () => {
+    expect(splitCompletedBlocks('Intro\n\n- one\n\n- tw')).toEqual({ completed: [], pending: 'Intro\n\n- one\n\n- tw' });
+    expect(splitCompletedBlocks('Intro\n\n- one\n\nNext\n')).toEqual({ completed: ['Intro\n\n- one'], pending: 'Next\n' });
+  });
+
+  it('does not split inside an open code fence', () => {
+    expect(splitCompletedBlocks('```\na\n\nb\n')).toEqual({ completed: [], pending: '```\na\n\nb\n' });
+  });
+});
+
+describe('safeHref', () => {
+  const linkHref = (markdown: string) => {
+    const [block] = parseMarkdown(markdown);
+    const link = block.type === 'paragraph' ? block.children.find(node => node.type === 'link') : undefined;
+    if (link?.type !== 'link') throw new Error(`Expected a link in ${markdown}`);
+    return link.href;
+  };
+
+  it.each([
+    'https://example.com',
+    'http://example.com',
+    'mailto:booking@example.com',
+    'tel:+15550100',
+    '/pricing',
+    '#budget',
+  ])('keeps %s', href => {
+    expect(safeHref(href)).toBe(href);
+  });
+
+  it.each([
+    '[x](javascript:alert(1))',
+    '[x](JavaScript:alert(1))',
+    '[x](data:text/html;base64,PHNjcmlwdD4=)',
+    '[x](vbscript:msgbox(1))',
+    // Regressions: tabs and control characters that browsers drop from a URL once hid the scheme.
+    '[x](java&#9;script:alert(1))',
+    '[x](<java\tscript:alert(1)>)',
+    '[x](&#1;javascript:alert(1))',
+    '[x](java&#10;script:alert(1))',
+    '[x](< javascript:alert(1)>)',
+  ])('drops the link in %s', markdown => {
+    expect(safeHref(linkHref(markdown))).toBeUndefined();
+  });
+});
@@ -0,0 +1,797 @@
+// A CommonMark parser with the GitHub Flavored Markdown extensions the coach uses (tables, strikethrough,
+// task lists and literal autolinks), plus our own: "> [!TIP]", "> [!IMPORTANT]" and "> [!ACTION]"
+// callouts, and a leading emoji on headings and list items lifted out so it can be shown as an icon.
+// Raw HTML is not interpreted; it comes through as text.
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'strong' | 'emphasis' | 'delete'; children: InlineNode[] }
+  | { type: 'inlineCode'; value: string }
+  | { type: 'link'; href: string; title: string | null; children: InlineNode[] }
+  | { type: 'image'; src: string; title: string | null; alt: string }
+  | { type: 'break' }
+  | { type: 'softBreak' };
+
+export type CalloutKind = 'tip' | 'important' | 'action';
+export type TableAlign = 'left' | 'center' | 'right' | null;
+export type HeadingDepth = 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface ListItemNode {
+  type: 'listItem';
+  // null for an ordinary item; true or false for a task list item.
+  checked: boolean | null;
+  emoji: string | null;
+  children: BlockNode[];
+}
+
+export type BlockNode =
+  | { type: 'heading'; depth: HeadingDepth; emoji: string | null; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; lang: string; value: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'callout'; kind: CalloutKind; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; tight: boolean; children: ListItemNode[] }
+  | { type: 'table'; align: TableAlign[]; head: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'thematicBreak' };
+
+interface LinkDefinition {
+  href: string;
+  title: string | null;
+}
+
+// Block parsing runs first and collects link reference definitions; inline content is parsed once they're
+// all known, since a definition may come after the text that uses it.
+interface ParseContext {
+  definitions: Map<string, LinkDefinition>;
+  inlineJobs: (() => void)[];
+}
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*))?$/;
+const THEMATIC_BREAK = /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_MARKER = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LINK_DEFINITION = /^ {0,3}\[((?:[^\\[\]]|\\.){1,999})\]:[ \t]*(?:<([^<>\n]*)>|(\S+))(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^()]*)\)))?[ \t]*$/;
+const TASK_MARKER = /^\[([ xX])\](?:[ \t]+|$)/;
+const CALLOUT_MARKER = /^[ \t]*\[!(TIP|IMPORTANT|ACTION)\][ \t]*/i;
+const LEADING_EMOJI = /^(?:\p{Extended_Pictographic}|\p{Emoji_Presentation})(?:\uFE0F|\u200D(?:\p{Extended_Pictographic}|\p{Emoji_Presentation})|[\u{1F3FB}-\u{1F3FF}])*/u;
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+const PUNCTUATION = /[\p{P}\p{S}]/u;
+const WHITESPACE = /\s/;
+
+const isBlank = (line: string) => /^[ \t]*$/.test(line);
+const indentOf = (line: string) => line.match(/^ */)![0].length;
+
+// Leading tabs become spaces (to the next multiple of four) so indentation can be measured in columns.
+const expandTabs = (line: string) =>
+  line.replace(/^[ \t]+/, whitespace => {
+    let column = 0;
+    for (const char of whitespace) column = char === '\t' ? column + 4 - (column % 4) : column + 1;
+    return ' '.repeat(column);
+  });
+
+// Removes `columns` of indentation, or all of it when the line has less.
+const unindent = (line: string, columns: number) => line.slice(Math.min(columns, indentOf(line)));
+
+const normalizeLabel = (label: string) => label.trim().replace(/\s+/g, ' ').toLowerCase();
+
+interface ListMarker {
+  ordered: boolean;
+  // The bullet character, or the delimiter after an ordered item's number.
+  delimiter: string;
+  start: number;
+  contentIndent: number;
+  empty: boolean;
+}
+
+const parseListMarker = (line: string): ListMarker | null => {
+  const match = line.match(LIST_MARKER);
+  if (!match) return null;
+  const [, indent, marker, spacing] = match;
+  const markerEnd = indent.length + marker.length;
+  const empty = isBlank(line.slice(markerEnd));
+  const ordered = /\d/.test(marker[0]);
+  // Content normally starts after the spacing; five or more spaces mean the content itself is indented.
+  const contentIndent = empty || spacing.length > 4 ? markerEnd + 1 : markerEnd + spacing.length;
+  return { ordered, delimiter: marker[marker.length - 1], start: ordered ? parseInt(marker, 10) : 1, contentIndent, empty };
+};
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  for (let index = 0; index < row.length; index++) {
+    if (row[index] === '\\' && row[index + 1] === '|') {
+      cell += '|';
+      index++;
+    } else if (row[index] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[index];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const isTableStart = (lines: string[], index: number) =>
+  index + 1 < lines.length &&
+  lines[index].includes('|') &&
+  TABLE_DELIMITER.test(lines[index + 1]) &&
+  splitTableRow(lines[index]).length === splitTableRow(lines[index + 1]).length;
+
+// Whether `line` starts a block that ends a paragraph before it.
+const interruptsParagraph = (line: string) => {
+  if (isBlank(line) || FENCE.test(line) || ATX_HEADING.test(line) || QUOTE.test(line) || THEMATIC_BREAK.test(line)) return true;
+  const marker = parseListMarker(line);
+  return marker !== null && !marker.empty && (!marker.ordered || marker.start === 1);
+};
+
+// Lifts a leading emoji out of the first text node, for headings and list items that use one as an icon.
+const takeLeadingEmoji = (children: InlineNode[]): string | null => {
+  const first = children[0];
+  if (first?.type !== 'text') return null;
+  const match = first.value.match(LEADING_EMOJI);
+  if (!match) return null;
+  const rest = first.value.slice(match[0].length).trimStart();
+  if (rest) children[0] = { type: 'text', value: rest };
+  else children.shift();
+  return match[0];
+};
+
+const parseBlocks = (lines: string[], context: ParseContext): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let index = 0;
+
+  const inline = (raw: string, assign: (children: InlineNode[]) => void) => {
+    context.inlineJobs.push(() => assign(parseInline(raw, context.definitions)));
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+      const [, indent, marker, info] = fence;
+      const body: string[] = [];
+      index++;
+      while (index < lines.length) {
+        const closing = lines[index].match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+        if (closing && closing[1][0] === marker[0] && closing[1].length >= marker.length) {
+          index++;
+          break;
+        }
+        body.push(unindent(lines[index], indent.length));
+        index++;
+      }
+      // An unclosed fence runs to the end of the text, which is also how a streaming reply looks mid-block.
+      blocks.push({ type: 'code', lang: info.trim().split(/\s+/)[0] ?? '', value: body.join('\n') });
+      continue;
+    }
+
+    if (indentOf(line) >= 4) {
+      const body: string[] = [];
+      while (index < lines.length && (isBlank(lines[index]) || indentOf(lines[index]) >= 4)) {
+        body.push(unindent(lines[index], 4));
+        index++;
+      }
+      while (body.length > 0 && isBlank(body[body.length - 1])) body.pop();
+      blocks.push({ type: 'code', lang: '', value: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      const node: BlockNode = { type: 'heading', depth: heading[1].length as HeadingDepth, emoji: null, children: [] };
+      const raw = (heading[2] ?? '').replace(/(?:^|[ \t]+)#+[ \t]*$/, '').trim();
+      inline(raw, children => {
+        node.emoji = takeLeadingEmoji(children);
+        node.children = children;
+      });
+      blocks.push(node);
+      index++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      blocks.push({ type: 'thematicBreak' });
+      index++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length) {
+        const current = lines[index];
+        if (QUOTE.test(current)) {
+          quoted.push(current.replace(QUOTE, ''));
+        } else if (!isBlank(current) && quoted.length > 0 && !isBlank(quoted[quoted.length - 1]) && !interruptsParagraph(current)) {
+          // A lazy continuation line: paragraph text that carries on without the ">".
+          quoted.push(current);
+        } else {
+          break;
+        }
+        index++;
+      }
+      const callout = quoted[0].match(CALLOUT_MARKER);
+      if (callout) {
+        quoted[0] = quoted[0].slice(callout[0].length);
+        blocks.push({ type: 'callout', kind: callout[1].toLowerCase() as CalloutKind, children: parseBlocks(quoted, context) });
+      } else {
+        blocks.push({ type: 'blockquote', children: parseBlocks(quoted, context) });
+      }
+      continue;
+    }
+
+    const firstMarker = parseListMarker(line);
+    if (firstMarker) {
+      const list: BlockNode & { type: 'list' } = { type: 'list', ordered: firstMarker.ordered, start: firstMarker.start, tight: true, children: [] };
+      const continuesList = (line: string) => {
+        const marker = parseListMarker(line);
+        return marker !== null && marker.ordered === firstMarker.ordered && marker.delimiter === firstMarker.delimiter && !THEMATIC_BREAK.test(line);
+      };
+      while (index < lines.length && continuesList(lines[index])) {
+        const marker = parseListMarker(lines[index])!;
+
+        const itemLines = [lines[index].slice(Math.min(marker.contentIndent, lines[index].length))];
+        index++;
+        while (index < lines.length) {
+          const current = lines[index];
+          if (isBlank(current)) {
+            // An item that starts empty can't continue after a blank line.
+            if (marker.empty && itemLines.length === 1) break;
+            itemLines.push('');
+          } else if (indentOf(current) >= marker.contentIndent) {
+            itemLines.push(current.slice(marker.contentIndent));
+          } else if (!isBlank(itemLines[itemLines.length - 1]) && !parseListMarker(current) && !interruptsParagraph(current)) {
+            itemLines.push(current.trimStart());
+          } else {
+            break;
+          }
+          index++;
+        }
+
+        let trailingBlanks = 0;
+        while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) {
+          itemLines.pop();
+          trailingBlanks++;
+        }
+
+        let checked: boolean | null = null;
+        const task = itemLines[0].match(TASK_MARKER);
+        if (task) {
+          checked = task[1] !== ' ';
+          itemLines[0] = itemLines[0].slice(task[0].length);
+        }
+
+        const children = parseBlocks(itemLines, context);
+        const item: ListItemNode = { type: 'listItem', checked, emoji: null, children };
+        const first = children[0];
+        if (first?.type === 'paragraph' && checked === null) {
+          context.inlineJobs.push(() => {
+            item.emoji = takeLeadingEmoji(first.children);
+          });
+        }
+        list.children.push(item);
+
+        // A list is loose when its items are separated by blank lines or an item's blocks are.
+        const nextIsItem = index < lines.length && continuesList(lines[index]);
+        if ((trailingBlanks > 0 && nextIsItem) || (children.length > 1 && itemLines.some(isBlank))) list.tight = false;
+        if (trailingBlanks > 0 && !nextIsItem) break;
+      }
+      blocks.push(list);
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const head = splitTableRow(lines[index]);
+      const align = splitTableRow(lines[index + 1]).map((cell): TableAlign => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      const node: BlockNode & { type: 'table' } = { type: 'table', align, head: head.map(() => []), rows: [] };
+      head.forEach((cell, column) => inline(cell, children => { node.head[column] = children; }));
+      index += 2;
+      while (index < lines.length && !isBlank(lines[index]) && !interruptsParagraph(lines[index])) {
+        const cells = splitTableRow(lines[index]);
+        const row: InlineNode[][] = head.map(() => []);
+        node.rows.push(row);
+        head.forEach((_, column) => inline(cells[column] ?? '', children => { row[column] = children; }));
+        index++;
+      }
+      blocks.push(node);
+      continue;
+    }
+
+    // Link reference definitions may open a paragraph; they define a link target and render nothing.
+    const definition = line.match(LINK_DEFINITION);
+    if (definition) {
+      const label = normalizeLabel(definition[1]);
+      if (!context.definitions.has(label)) {
+        context.definitions.set(label, { href: unescapeText(definition[2] ?? definition[3]), title: definition[4] ?? definition[5] ?? definition[6] ?? null });
+      }
+      index++;
+      continue;
+    }
+
+    const paragraph: string[] = [line.trimStart()];
+    index++;
+    let setextDepth: HeadingDepth | null = null;
+    while (index < lines.length) {
+      const current = lines[index];
+      const underline = current.match(SETEXT_UNDERLINE);
+      if (underline) {
+        setextDepth = underline[1][0] === '=' ? 1 : 2;
+        index++;
+        break;
+      }
+      if (interruptsParagraph(current) || isTableStart(lines, index)) break;
+      paragraph.push(current.trimStart());
+      index++;
+    }
+    const raw = paragraph.join('\n').trimEnd();
+    if (setextDepth) {
+      const node: BlockNode = { type: 'heading', depth: setextDepth, emoji: null, children: [] };
+      inline(raw, children => {
+        node.emoji = takeLeadingEmoji(children);
+        node.children = children;
+      });
+      blocks.push(node);
+    } else {
+      const node: BlockNode = { type: 'paragraph', children: [] };
+      inline(raw, children => { node.children = children; });
+      blocks.push(node);
+    }
+  }
+
+  return blocks;
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0', copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', middot: '·', bull: '•',
+};
+
+const ENTITY = /^&(?:#[xX]([0-9a-fA-F]{1,6})|#([0-9]{1,7})|([a-zA-Z][a-zA-Z0-9]{1,31}));/;
+
+const decodeEntity = (match: RegExpMatchArray): string | null => {
+  const [, hex, decimal, name] = match;
+  if (name) return NAMED_ENTITIES[name] ?? null;
+  const codePoint = parseInt(hex ?? decimal, hex ? 16 : 10);
+  return codePoint > 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : '\uFFFD';
+};
+
+// Resolves backslash escapes and entities in link destinations and titles.
+const unescapeText = (text: string) =>
+  text.replace(/\\([!-/:-@[-`{-~])|&(?:#[xX][0-9a-fA-F]{1,6}|#[0-9]{1,7}|[a-zA-Z][a-zA-Z0-9]{1,31});/g, (whole, escaped: string | undefined) => {
+    if (escaped) return escaped;
+    const match = whole.match(ENTITY);
+    return (match && decodeEntity(match)) ?? whole;
+  });
+
+interface DelimiterRun {
+  kind: 'delimiter';
+  char: '*' | '_' | '~';
+  length: number;
+  originalLength: number;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+interface BracketOpener {
+  kind: 'bracket';
+  image: boolean;
+  // Links can't contain links, so once one closes, the openers before it are deactivated.
+  active: boolean;
+  // Where the bracketed text starts in the source, for reference labels.
+  labelStart: number;
+}
+
+type InlineItem = InlineNode | DelimiterRun | BracketOpener;
+
+const isDelimiterRun = (item: InlineItem): item is DelimiterRun => 'kind' in item && item.kind === 'delimiter';
+const isBracketOpener = (item: InlineItem): item is BracketOpener => 'kind' in item && item.kind === 'bracket';
+
+// Unmatched delimiters and brackets are plain text after all; adjacent text is merged.
+const finalizeInlines = (items: InlineItem[]): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  for (const item of items) {
+    const node: InlineNode = isDelimiterRun(item)
+      ? { type: 'text', value: item.char.repeat(item.length) }
+      : isBracketOpener(item) ? { type: 'text', value: item.image ? '![' : '[' } : item;
+    const previous = nodes[nodes.length - 1];
+    if (node.type === 'text' && previous?.type === 'text') {
+      nodes[nodes.length - 1] = { type: 'text', value: previous.value + node.value };
+    } else if (node.type !== 'text' || node.value) {
+      nodes.push(node);
+    }
+  }
+  return nodes;
+};
+
+// The CommonMark "process emphasis" procedure: each closing run is matched with the nearest compatible
+// opener before it, and everything between them becomes the emphasis node's children. GFM's ~ and ~~
+// only match a run of the same length.
+const processEmphasis = (items: InlineItem[]): InlineItem[] => {
+  let index = 0;
+  while (index < items.length) {
+    const closer = items[index];
+    if (!isDelimiterRun(closer) || !closer.canClose) {
+      index++;
+      continue;
+    }
+
+    let openerIndex = index - 1;
+    for (; openerIndex >= 0; openerIndex--) {
+      const candidate = items[openerIndex];
+      if (!isDelimiterRun(candidate) || candidate.char !== closer.char || !candidate.canOpen) continue;
+      if (closer.char === '~') {
+        if (candidate.length === closer.length) break;
+        continue;
+      }
+      // The "rule of three": a run that can both open and close only pairs with one whose combined length isn't a multiple of 3.
+      const oddMatch = (closer.canOpen || candidate.canClose) &&
+        (candidate.originalLength + closer.originalLength) % 3 === 0 &&
+        !(candidate.originalLength % 3 === 0 && closer.originalLength % 3 === 0);
+      if (!oddMatch) break;
+    }
+    if (openerIndex < 0) {
+      index++;
+      continue;
+    }
+
+    const opener = items[openerIndex] as DelimiterRun;
+    const used = closer.char === '~' ? closer.length : closer.length >= 2 && opener.length >= 2 ? 2 : 1;
+    const type = closer.char === '~' ? 'delete' : used === 2 ? 'strong' : 'emphasis';
+    const node: InlineNode = { type, children: finalizeInlines(items.slice(openerIndex + 1, index)) };
+    opener.length -= used;
+    closer.length -= used;
+    items.splice(openerIndex + 1, index - openerIndex - 1, node);
+    index = openerIndex + 2;
+    if (opener.length === 0) {
+      items.splice(openerIndex, 1);
+      index--;
+    }
+    if (closer.length === 0) items.splice(index, 1);
+  }
+  return items;
+};
+
+const skipSpaces = (source: string, position: number) => {
+  while (position < source.length && WHITESPACE.test(source[position])) position++;
+  return position;
+};
+
+// Parses `(destination "title")` after a link's closing bracket. `start` is the position of the "(".
+const parseLinkTail = (source: string, start: number): { href: string; title: string | null; end: number } | null => {
+  let position = skipSpaces(source, start + 1);
+  let href: string;
+  if (source[position] === '<') {
+    const close = source.indexOf('>', position);
+    if (close === -1 || source.slice(position, close).includes('\n')) return null;
+    href = source.slice(position + 1, close);
+    position = close + 1;
+  } else {
+    const begin = position;
+    let depth = 0;
+    while (position < source.length) {
+      const char = source[position];
+      if (char === '\\' && ASCII_PUNCTUATION.test(source[position + 1] ?? '')) {
+        position += 2;
+        continue;
+      }
+      if (WHITESPACE.test(char)) break;
+      if (char === '(') depth++;
+      if (char === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+      position++;
+    }
+    if (depth !== 0) return null;
+    href = source.slice(begin, position);
+  }
+
+  const afterHref = position;
+  position = skipSpaces(source, position);
+  let title: string | null = null;
+  const quote = source[position];
+  if (position > afterHref && (quote === '"' || quote === "'" || quote === '(')) {
+    const closeChar = quote === '(' ? ')' : quote;
+    let close = position + 1;
+    while (close < source.length && source[close] !== closeChar) close += source[close] === '\\' ? 2 : 1;
+    if (close >= source.length) return null;
+    title = unescapeText(source.slice(position + 1, close));
+    position = skipSpaces(source, close + 1);
+  }
+  if (source[position] !== ')') return null;
+  return { href: unescapeText(href), title, end: position + 1 };
+};
+
+// GFM "extended autolinks": bare http(s) and www. URLs, minus trailing punctuation and unbalanced ")".
+const AUTOLINK_LITERAL = /^(?:https?:\/\/|www\.)[\w-]+(?:\.[\w-]+)+[^\s<]*/i;
+
+const trimAutolink = (url: string) => {
+  let trimmed = url.replace(/&[a-z0-9]+;$/i, '');
+  for (;;) {
+    const before = trimmed;
+    trimmed = trimmed.replace(/[?!.,:*_~'"]+$/, '');
+    if (trimmed.endsWith(')') && (trimmed.match(/\(/g)?.length ?? 0) < (trimmed.match(/\)/g)?.length ?? 0)) trimmed = trimmed.slice(0, -1);
+    if (trimmed === before) return trimmed;
+  }
+};
+
+const plainText = (nodes: InlineNode[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'inlineCode':
+        return node.value;
+      case 'image':
+        return node.alt;
+      case 'break':
+      case 'softBreak':
+        return ' ';
+      default:
+        return plainText(node.children);
+    }
+  }).join('');
+
+export const parseInline = (source: string, definitions: Map<string, LinkDefinition> = new Map()): InlineNode[] => {
+  const items: InlineItem[] = [];
+  let text = '';
+  let position = 0;
+
+  const flushText = () => {
+    if (text) items.push({ type: 'text', value: text });
+    text = '';
+  };
+
+  const closeBracket = () => {
+    let openerIndex = items.length - 1;
+    while (openerIndex >= 0 && !isBracketOpener(items[openerIndex])) openerIndex--;
+    if (openerIndex < 0) {
+      text += ']';
+      position++;
+      return;
+    }
+    const opener = items[openerIndex] as BracketOpener;
+    if (!opener.active) {
+      items[openerIndex] = { type: 'text', value: opener.image ? '![' : '[' };
+      text += ']';
+      position++;
+      return;
+    }
+
+    let target: { href: string; title: string | null; end: number } | null = null;
+    if (source[position + 1] === '(') target = parseLinkTail(source, position + 1);
+    if (!target) {
+      let label = source.slice(opener.labelStart, position);
+      let end = position + 1;
+      const reference = source.slice(end).match(/^\[((?:[^\\[\]]|\\.){0,999})\]/);
+      if (reference) {
+        if (reference[1].trim()) label = reference[1];
+        end += reference[0].length;
+      }
+      const definition = definitions.get(normalizeLabel(label));
+      if (definition) target = { ...definition, end };
+    }
+
+    if (!target) {
+      items[openerIndex] = { type: 'text', value: opener.image ? '![' : '[' };
+      text += ']';
+      position++;
+      return;
+    }
+
+    const children = finalizeInlines(processEmphasis(items.slice(openerIndex + 1)));
+    items.splice(openerIndex, items.length - openerIndex, opener.image
+      ? { type: 'image', src: target.href, title: target.title, alt: plainText(children) }
+      : { type: 'link', href: target.href, title: target.title, children });
+    if (!opener.image) {
+      for (const item of items) {
+        if (isBracketOpener(item) && !item.image) item.active = false;
+      }
+    }
+    position = target.end;
+  };
+
+  while (position < source.length) {
+    const char = source[position];
+    const previous = position > 0 ? source[position - 1] : '\n';
+
+    if (char === '\\') {
+      const next = source[position + 1];
+      if (next === '\n') {
+        flushText();
+        items.push({ type: 'break' });
+        position = skipSpaces(source, position + 2);
+      } else if (next !== undefined && ASCII_PUNCTUATION.test(next)) {
+        text += next;
+        position += 2;
+      } else {
+        text += char;
+        position++;
+      }
+      continue;
+    }
+
+    if (char === '\n') {
+      const hard = / {2,}$/.test(text);
+      text = text.replace(/ +$/, '');
+      flushText();
+      items.push({ type: hard ? 'break' : 'softBreak' });
+      position = skipSpaces(source, position + 1);
+      continue;
+    }
+
+    if (char === '`') {
+      const run = source.slice(position).match(/^`+/)![0];
+      let search = position + run.length;
+      let close = -1;
+      while ((search = source.indexOf(run, search)) !== -1) {
+        const closingRun = source.slice(search).match(/^`+/)![0];
+        if (closingRun.length === run.length) {
+          close = search;
+          break;
+        }
+        search += closingRun.length;
+      }
+      if (close === -1) {
+        text += run;
+        position += run.length;
+      } else {
+        let value = source.slice(position + run.length, close).replace(/\n/g, ' ');
+        if (/^ .*[^ ].* $/.test(value)) value = value.slice(1, -1);
+        flushText();
+        items.push({ type: 'inlineCode', value });
+        position = close + run.length;
+      }
+      continue;
+    }
+
+    if (char === '<') {
+      const rest = source.slice(position);
+      const uri = rest.match(/^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^<>\s]*)>/);
+      const email = rest.match(/^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/);
+      if (uri || email) {
+        const address = (uri ?? email)![1];
+        flushText();
+        items.push({ type: 'link', href: uri ? address : `mailto:${address}`, title: null, children: [{ type: 'text', value: address }] });
+        position += (uri ?? email)![0].length;
+        continue;
+      }
+    }
+
+    if (char === '[' || (char === '!' && source[position + 1] === '[')) {
+      const image = char === '!';
+      flushText();
+      position += image ? 2 : 1;
+      items.push({ kind: 'bracket', image, active: true, labelStart: position });
+      continue;
+    }
+
+    if (char === ']') {
+      flushText();
+      closeBracket();
+      continue;
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const run = source.slice(position).match(char === '*' ? /^\*+/ : char === '_' ? /^_+/ : /^~+/)![0];
+      const next = source[position + run.length] ?? '\n';
+      const previousIsSpace = WHITESPACE.test(previous);
+      const nextIsSpace = WHITESPACE.test(next);
+      const previousIsPunctuation = PUNCTUATION.test(previous);
+      const nextIsPunctuation = PUNCTUATION.test(next);
+      const leftFlanking = !nextIsSpace && (!nextIsPunctuation || previousIsSpace || previousIsPunctuation);
+      const rightFlanking = !previousIsSpace && (!previousIsPunctuation || nextIsSpace || nextIsPunctuation);
+      position += run.length;
+      if (char === '~' && run.length > 2) {
+        text += run;
+        continue;
+      }
+      flushText();
+      items.push({
+        kind: 'delimiter',
+        char,
+        length: run.length,
+        originalLength: run.length,
+        // Underscores don't open or close inside a word, so snake_case stays as it is.
+        canOpen: char === '_' ? leftFlanking && (!rightFlanking || previousIsPunctuation) : leftFlanking,
+        canClose: char === '_' ? rightFlanking && (!leftFlanking || nextIsPunctuation) : rightFlanking,
+      });
+      continue;
+    }
+
+    if (char === '&') {
+      const match = source.slice(position).match(ENTITY);
+      const decoded = match && decodeEntity(match);
+      if (match && decoded !== null) {
+        text += decoded;
+        position += match[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'w' || char === 'H' || char === 'W') && (WHITESPACE.test(previous) || '*_~('.includes(previous))) {
+      const match = source.slice(position).match(AUTOLINK_LITERAL);
+      if (match) {
+        const url = trimAutolink(match[0]);
+        flushText();
+        items.push({ type: 'link', href: /^www\./i.test(url) ? `http://${url}` : url, title: null, children: [{ type: 'text', value: url }] });
+        position += url.length;
+        continue;
+      }
+    }
+
+    text += char;
+    position++;
+  }
+
+  flushText();
+  return finalizeInlines(processEmphasis(items));
+};
+
+export const parseMarkdown = (markdown: string): BlockNode[] => {
+  const context: ParseContext = { definitions: new Map(), inlineJobs: [] };
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n').map(expandTabs);
+  const blocks = parseBlocks(lines, context);
+  context.inlineJobs.forEach(job => job());
+  return blocks;
+};
+
+const SAFE_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+
+// Links from model output only open web, mail and phone targets; anything else (e.g. javascript:) is dropped.
+// Browsers ignore control characters and spaces around a URL and tabs and newlines inside it, so those are
+// removed before the scheme is read; otherwise "java\tscript:" would get through.
+export const safeHref = (href: string): string | undefined => {
+  const scheme = href.replace(/[\u0000-\u0020]/g, '').match(/^([a-zA-Z][a-zA-Z0-9+.-]*):/);
+  return !scheme || SAFE_SCHEMES.includes(scheme[1].toLowerCase()) ? href : undefined;
+};
+
+// Splits a reply that is still streaming into top-level chunks that are already complete and the trailing
+// text still being written, so completed chunks can be parsed and rendered once. A chunk ends at a blank
+// line outside a code fence, followed by an unindented line that isn't a list item (either could still
+// belong to a list above the blank line). Rendering the chunks separately only differs from parsing the
+// whole reply in rare cases, such as a reference link defined further down; finished replies are always
+// rendered whole.
+export const splitCompletedBlocks = (markdown: string): { completed: string[]; pending: string } => {
+  const lines = markdown.split('\n');
+  const completed: string[] = [];
+  let chunkStart = 0;
+  let openFence: string | null = null;
+
+  for (let index = 0; index < lines.length - 1; index++) {
+    const line = lines[index];
+    const fence = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fence) {
+      if (openFence === null) openFence = fence[1];
+      else if (fence[1][0] === openFence[0] && fence[1].length >= openFence.length && isBlank(line.slice(line.indexOf(fence[1]) + fence[1].length))) openFence = null;
+      continue;
+    }
+    if (openFence !== null || !isBlank(line)) continue;
+
+    const next = lines[index + 1];
+    // The next line must be complete, or it might still turn into a list item or table row.
+    if (index + 1 === lines.length - 1) break;
+    if (isBlank(next) || /^[ \t]/.test(next) || parseListMarker(next)) continue;
+    completed.push(lines.slice(chunkStart, index).join('\n'));
+    chunkStart = index + 1;
+  }
+
+  return { completed, pending: lines.slice(chunkStart).join('\n') };
+};
@@ -0,0 +1,66 @@
+import { type DealOffer, type RecoupmentSimulatorData, MAX_MONTHS } from '../core/tools/recoupmentSimulator.ts';
+
+export interface RecoupmentMonth {
+  month: number; // 1-based
+  // Still owed to the label at the end of the month.
+  unrecouped: number;
+  // Everything the artist has received so far, including the advance.
+  artistCash: number;
+  labelTake: number;
+}
+
+export interface RecoupmentResult {
+  offer: DealOffer;
+  months: RecoupmentMonth[];
+  // First month the balance is fully recouped, or null if it isn't within the projection.
+  recoupedInMonth: number | null;
+  totalArtistCash: number;
+  totalLabelTake: number;
+  totalRoyaltiesCredited: number;
+}
+
+// Month by month: the artist's royalty on recorded income is credited against the advance plus
+// recoupable costs, and only paid out once that balance is cleared. Touring, merch and publishing are
+// paid to the artist directly, less the label's 360 participation, and never recoup anything.
+export const simulateOffer = (offer: DealOffer, { monthlyRevenue, monthlyChangePercent, months }: RecoupmentSimulatorData): RecoupmentResult => {
+  const horizon = Math.min(Math.max(1, Math.floor(months)), MAX_MONTHS);
+  const growth = 1 + monthlyChangePercent / 100;
+  let unrecouped = offer.advance + offer.recoupableCosts;
+  let artistCash = offer.advance;
+  let labelTake = -offer.advance - offer.recoupableCosts;
+  let totalRoyaltiesCredited = 0;
+  let recoupedInMonth: number | null = unrecouped <= 0 ? 0 : null;
+  const timeline: RecoupmentMonth[] = [];
+
+  for (let month = 1; month <= horizon; month++) {
+    const scale = Math.max(0, growth) ** (month - 1);
+    const recorded = monthlyRevenue.recorded * scale;
+    const royalties = recorded * (offer.royaltyPercent / 100);
+    totalRoyaltiesCredited += royalties;
+
+    const credited = Math.min(unrecouped, royalties);
+    unrecouped -= credited;
+    if (unrecouped <= 0 && recoupedInMonth === null) recoupedInMonth = month;
+
+    const participation =
+      monthlyRevenue.touring * scale * (offer.participation.touring / 100) +
+      monthlyRevenue.merch * scale * (offer.participation.merch / 100) +
+      monthlyRevenue.publishing * scale * (offer.participation.publishing / 100);
+    const otherIncome = (monthlyRevenue.touring + monthlyRevenue.merch + monthlyRevenue.publishing) * scale;
+
+    artistCash += royalties - credited + otherIncome - participation;
+    labelTake += recorded - royalties + credited + participation;
+    timeline.push({ month, unrecouped, artistCash, labelTake });
+  }
+
+  return {
+    offer,
+    months: timeline,
+    recoupedInMonth,
+    totalArtistCash: artistCash,
+    totalLabelTake: labelTake,
+    totalRoyaltiesCredited,
+  };
+};
+
+export const simulateOffers = (data: RecoupmentSimulatorData): RecoupmentResult[] => data.offers.map(offer => simulateOffer(offer, data));
@@ -0,0 +1,35 @@
+import { type ReleaseTimelineData, type ReleaseTimelineState } from '../core/tools/releaseTimeline.ts';
+import { addDays, todayIso } from './dates.ts';
+import { toIcs } from './ics.ts';
+
+// Without a date from the user, release far enough out that the earliest milestone is still ahead,
+// and never sooner than four weeks.
+export const defaultReleaseDate = (data: ReleaseTimelineData, today = todayIso()): string => {
+  const lead = Math.max(28, ...data.milestones.map(milestone => -milestone.offsetDays));
+  return addDays(today, lead);
+};
+
+export const createReleaseTimeline = (data: ReleaseTimelineData): ReleaseTimelineState => ({
+  releaseTitle: data.releaseTitle,
+  releaseDate: data.releaseDate ?? defaultReleaseDate(data),
+  tasks: data.milestones.map(milestone => ({ ...milestone, done: false })),
+});
+
+export const relativeDayLabel = (offsetDays: number): string => {
+  if (offsetDays === 0) return 'Release day';
+  const days = Math.abs(offsetDays);
+  const span = days % 7 === 0 ? `${days / 7} week${days === 7 ? '' : 's'}` : `${days} day${days === 1 ? '' : 's'}`;
+  return offsetDays < 0 ? `${span} before` : `${span} after`;
+};
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'release';
+
+export const releaseTimelineFilename = (state: ReleaseTimelineState) => `${slug(state.releaseTitle)}-release-plan.ics`;
+
+export const releaseTimelineToIcs = (state: ReleaseTimelineState): string =>
+  toIcs(`${state.releaseTitle} release`, state.tasks.map((task, index) => ({
+    uid: `${slug(state.releaseTitle)}-${index}@indiecoach`,
+    date: addDays(state.releaseDate, task.offsetDays),
+    title: `${state.releaseTitle}: ${task.title}`,
+    description: task.description,
+  })));
@@ -0,0 +1,76 @@
+import { type RoyaltyCalculatorData, type RoyaltyCalculatorState, type RoyaltyStreamLine } from '../core/tools/royaltyCalculator.ts';
+import { STREAMING_RATES, findPlatformRate } from '../core/royaltyRates.ts';
+
+export interface PlatformIncome {
+  platform: string;
+  name: string;
+  streams: number;
+  master: number;
+  publishing: number;
+}
+
+// One month of streaming money, followed from the platforms to everyone who gets a cut.
+export interface RoyaltyBreakdown {
+  platforms: PlatformIncome[];
+  totalStreams: number;
+  masterGross: number;
+  distributorFee: number;
+  labelShare: number;
+  producerShare: number;
+  artistMaster: number;
+  publishingGross: number;
+  publisherShare: number;
+  artistPublishing: number;
+  artistTotal: number;
+}
+
+export const platformName = (id: string) => findPlatformRate(id)?.name ?? id;
+
+// Fills in the shared default rates for each platform the model listed.
+export const createRoyaltyState = (data: RoyaltyCalculatorData): RoyaltyCalculatorState => ({
+  ...data,
+  streams: data.streams.map(({ platform, monthlyStreams }) => newStreamLine(platform, monthlyStreams)),
+});
+
+export const newStreamLine = (platform: string, monthlyStreams = 0): RoyaltyStreamLine => {
+  const rate = findPlatformRate(platform) ?? STREAMING_RATES[0];
+  return { platform, monthlyStreams, masterRate: rate.masterRate, publishingRate: rate.publishingRate };
+};
+
+export const calculateRoyalties = (state: RoyaltyCalculatorState): RoyaltyBreakdown => {
+  const platforms = state.streams.map(line => ({
+    platform: line.platform,
+    name: platformName(line.platform),
+    streams: line.monthlyStreams,
+    master: line.monthlyStreams * line.masterRate,
+    publishing: line.monthlyStreams * line.publishingRate,
+  }));
+  const totalStreams = platforms.reduce((total, platform) => total + platform.streams, 0);
+  const masterGross = platforms.reduce((total, platform) => total + platform.master, 0);
+  const publishingGross = platforms.reduce((total, platform) => total + platform.publishing, 0);
+
+  const distributorFee = masterGross * (state.distributorFeePercent / 100);
+  const masterNet = masterGross - distributorFee;
+  const artistRoyalty = masterNet * (state.artistRoyaltyPercent / 100);
+  const labelShare = masterNet - artistRoyalty;
+  // Points are paid on the whole master, but come out of the artist's royalty and can't exceed it.
+  const producerShare = Math.min(artistRoyalty, masterNet * (state.producerPoints / 100));
+  const artistMaster = artistRoyalty - producerShare;
+
+  const artistPublishing = publishingGross * (state.publishingSharePercent / 100);
+  const publisherShare = publishingGross - artistPublishing;
+
+  return {
+    platforms,
+    totalStreams,
+    masterGross,
+    distributorFee,
+    labelShare,
+    producerShare,
+    artistMaster,
+    publishingGross,
+    publisherShare,
+    artistPublishing,
+    artistTotal: artistMaster + artistPublishing,
+  };
+};
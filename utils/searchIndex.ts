@@ -0,0 +1,209 @@
+import { type ChatSession, type Message, type Role } from '../core/types.ts';
+import { TOOL_DEFINITIONS, splitToolBlocks } from '../core/tools/registry.ts';
+
+// A searchable message: the visible text of one message in one chat.
+export interface SearchDocument {
+  chatId: string;
+  messageIndex: number;
+  role: Role;
+  timestamp: number;
+  text: string;
+}
+
+export interface SearchIndex {
+  // term -> keys of the documents containing it
+  postings: Map<string, Set<string>>;
+  documents: Map<string, { doc: SearchDocument; terms: Set<string>; message: Message }>;
+  // The messages array each chat was last indexed from, so unchanged chats are skipped on sync.
+  indexed: Map<string, Message[]>;
+}
+
+export interface SearchFilters {
+  since?: number;
+  until?: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  chatId: string;
+  messageIndex: number;
+  role: Role;
+  timestamp: number;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+const MAX_HITS = 50;
+const SNIPPET_RADIUS = 60;
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+// Case- and accent-insensitive form of a single character, so "beyonce" finds "Beyoncé".
+const foldChar = (char: string) => char.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+// Folds a string and records, for every folded code unit, the index of the character it came from,
+// so matches found in the folded text can be highlighted in the original.
+const foldWithOffsets = (text: string): { folded: string; offsets: number[] } => {
+  let folded = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; ) {
+    const char = String.fromCodePoint(text.codePointAt(i)!);
+    const f = foldChar(char);
+    folded += f;
+    for (let j = 0; j < f.length; j++) offsets.push(i);
+    i += char.length;
+  }
+  offsets.push(text.length);
+  return { folded, offsets };
+};
+
+export const tokenize = (text: string): string[] =>
+  text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+// Markdown syntax and tool block JSON aren't useful to match or to show in a snippet; a tool block is
+// indexed by its title instead.
+const messageText = (message: Message): string =>
+  message.parts
+    .map(part => {
+      if (part.type === 'file') return part.file.name;
+      if (part.type !== 'text') return '';
+      return splitToolBlocks(part.text)
+        .map(segment => segment.type === 'markdown' ? segment.text : `${TOOL_DEFINITIONS[segment.tag].title}.`)
+        .join('\n');
+    })
+    .join('\n')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/[*_~`|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const documentKey = (chatId: string, messageIndex: number) => `${chatId}\u0000${messageIndex}`;
+
+export const createSearchIndex = (): SearchIndex => ({ postings: new Map(), documents: new Map(), indexed: new Map() });
+
+const removeDocument = (index: SearchIndex, key: string) => {
+  const entry = index.documents.get(key);
+  if (!entry) return;
+  entry.terms.forEach(term => {
+    const keys = index.postings.get(term);
+    keys?.delete(key);
+    if (keys?.size === 0) index.postings.delete(term);
+  });
+  index.documents.delete(key);
+};
+
+const addDocument = (index: SearchIndex, chatId: string, messageIndex: number, message: Message) => {
+  const key = documentKey(chatId, messageIndex);
+  const text = messageText(message);
+  const terms = new Set(tokenize(text));
+  terms.forEach(term => {
+    let keys = index.postings.get(term);
+    if (!keys) index.postings.set(term, keys = new Set());
+    keys.add(key);
+  });
+  index.documents.set(key, { doc: { chatId, messageIndex, role: message.role, timestamp: message.timestamp, text }, terms, message });
+};
+
+// Brings the index up to date with the chat history. Sessions and messages are compared by reference
+// against what was indexed last time, so only new or changed messages are re-tokenized.
+export const syncSearchIndex = (index: SearchIndex, sessions: ChatSession[]) => {
+  const present = new Set(sessions.map(session => session.id));
+  index.indexed.forEach((messages, chatId) => {
+    if (present.has(chatId)) return;
+    messages.forEach((_, i) => removeDocument(index, documentKey(chatId, i)));
+    index.indexed.delete(chatId);
+  });
+
+  sessions.forEach(session => {
+    const previous = index.indexed.get(session.id) ?? [];
+    if (previous === session.messages) return;
+    session.messages.forEach((message, i) => {
+      const key = documentKey(session.id, i);
+      if (index.documents.get(key)?.message === message) return;
+      removeDocument(index, key);
+      addDocument(index, session.id, i, message);
+    });
+    for (let i = session.messages.length; i < previous.length; i++) {
+      removeDocument(index, documentKey(session.id, i));
+    }
+    index.indexed.set(session.id, session.messages);
+  });
+};
+
+// Keys of the documents with a term starting with `prefix`, so results show up while a word is half typed.
+const matchPrefix = (index: SearchIndex, prefix: string): Set<string> => {
+  const exact = index.postings.get(prefix);
+  const keys = new Set(exact);
+  index.postings.forEach((termKeys, term) => {
+    if (term !== prefix && term.startsWith(prefix)) termKeys.forEach(key => keys.add(key));
+  });
+  return keys;
+};
+
+// Up to SNIPPET_RADIUS characters either side of the first match, with every match in that window marked.
+export const buildSnippet = (text: string, queryTerms: string[]): SnippetPart[] => {
+  const { folded, offsets } = foldWithOffsets(text);
+  const ranges: [number, number][] = [];
+  const longestFirst = [...queryTerms].sort((a, b) => b.length - a.length);
+  for (let i = 0; i < folded.length; i++) {
+    if (i > 0 && WORD_CHAR.test(folded[i - 1])) continue;
+    const term = longestFirst.find(candidate => folded.startsWith(candidate, i));
+    if (!term) continue;
+    ranges.push([offsets[i], offsets[i + term.length]]);
+    i += term.length - 1;
+  }
+
+  const anchor = ranges[0]?.[0] ?? 0;
+  let start = Math.max(0, anchor - SNIPPET_RADIUS);
+  let end = Math.min(text.length, anchor + SNIPPET_RADIUS * 2);
+  // Widen to word boundaries so the snippet doesn't open or close mid-word.
+  if (start > 0) start = text.lastIndexOf(' ', start) + 1;
+  if (end < text.length) {
+    const space = text.indexOf(' ', end);
+    end = space === -1 ? text.length : space;
+  }
+
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+  ranges.filter(([from, to]) => from >= start && to <= end).forEach(([from, to]) => {
+    if (from > cursor) parts.push({ text: text.slice(cursor, from), match: false });
+    parts.push({ text: text.slice(from, to), match: true });
+    cursor = to;
+  });
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false });
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+};
+
+// Messages containing every term of the query (the last one as a prefix), best matches first.
+export const searchMessages = (index: SearchIndex, query: string, filters: SearchFilters = {}): SearchHit[] => {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) return [];
+
+  const termMatches = queryTerms.map((term, i) =>
+    i === queryTerms.length - 1 ? matchPrefix(index, term) : index.postings.get(term) ?? new Set<string>());
+  const keys = termMatches.reduce((all, matches) => new Set([...all].filter(key => matches.has(key))));
+
+  const hits: SearchHit[] = [];
+  keys.forEach(key => {
+    const { doc } = index.documents.get(key)!;
+    if (filters.since !== undefined && doc.timestamp < filters.since) return;
+    if (filters.until !== undefined && doc.timestamp > filters.until) return;
+    const snippet = buildSnippet(doc.text, queryTerms);
+    hits.push({
+      chatId: doc.chatId,
+      messageIndex: doc.messageIndex,
+      role: doc.role,
+      timestamp: doc.timestamp,
+      score: snippet.filter(part => part.match).length,
+      snippet,
+    });
+  });
+  return hits.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp).slice(0, MAX_HITS);
+};
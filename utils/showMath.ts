@@ -0,0 +1,91 @@
+import { type TicketEstimatorInputs, type TicketDeal } from '../core/tools/ticketEstimator.ts';
+
+export interface ShowResult {
+  ticketsSold: number;
+  grossTicketRevenue: number;
+  grossMerchRevenue: number;
+  venueCutCost: number;
+  // What comes off the door before it is split: the venue's cut and fixed fee, plus marketing on promoter deals.
+  houseExpenses: number;
+  netDoor: number;
+  // The artist's take from tickets under the deal (the whole ticket gross when self-promoted).
+  dealPayout: number;
+  totalGrossRevenue: number;
+  totalCosts: number;
+  netProfit: number;
+}
+
+// The artist's side of a show. On promoter deals the promoter pays the house expenses out of the door
+// and the artist only carries crew; when self-promoted the artist keeps the door and pays everything.
+export const calculateShow = (
+  inputs: TicketEstimatorInputs,
+  deal: TicketDeal,
+  ticketsSold = Math.floor(inputs.venueCapacity * (inputs.sellThroughRate / 100)),
+): ShowResult => {
+  const { ticketPrice, merchSpendPerGuest, venueFeePercent, venueCostFixed, marketingCost, crewCost } = inputs;
+  const isSelfPromoted = deal.type === 'self';
+
+  const grossTicketRevenue = ticketsSold * ticketPrice;
+  const grossMerchRevenue = ticketsSold * merchSpendPerGuest;
+  const venueCutCost = grossTicketRevenue * (venueFeePercent / 100);
+  const houseExpenses = venueCutCost + venueCostFixed + (isSelfPromoted ? 0 : marketingCost);
+  const netDoor = grossTicketRevenue - houseExpenses;
+  const doorShare = Math.max(0, netDoor) * (deal.doorPercent / 100);
+
+  let dealPayout: number;
+  switch (deal.type) {
+    case 'self':
+      dealPayout = grossTicketRevenue;
+      break;
+    case 'guarantee':
+      dealPayout = deal.guarantee;
+      break;
+    case 'door':
+      dealPayout = doorShare;
+      break;
+    case 'versus':
+      dealPayout = Math.max(deal.guarantee, doorShare);
+      break;
+    case 'bonus':
+      dealPayout = deal.guarantee + Math.max(0, grossTicketRevenue - deal.bonusThreshold) * (deal.bonusPercent / 100);
+      break;
+  }
+
+  const totalGrossRevenue = dealPayout + grossMerchRevenue;
+  const totalCosts = isSelfPromoted ? venueCutCost + venueCostFixed + marketingCost + crewCost : crewCost;
+  const netProfit = totalGrossRevenue - totalCosts;
+
+  return { ticketsSold, grossTicketRevenue, grossMerchRevenue, venueCutCost, houseExpenses, netDoor, dealPayout, totalGrossRevenue, totalCosts, netProfit };
+};
+
+// Fewest tickets sold for the show to stop losing money, or null if it can't within capacity. Profit
+// never falls as more tickets sell, so a binary search over the attendance is enough.
+export const breakEvenTickets = (inputs: TicketEstimatorInputs, deal: TicketDeal): number | null => {
+  const capacity = Math.max(0, Math.floor(inputs.venueCapacity));
+  if (calculateShow(inputs, deal, capacity).netProfit < 0) return null;
+  let low = 0;
+  let high = capacity;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (calculateShow(inputs, deal, middle).netProfit >= 0) high = middle;
+    else low = middle + 1;
+  }
+  return low;
+};
+
+export const SENSITIVITY_SELL_THROUGH = [30, 50, 70, 90, 100];
+const SENSITIVITY_PRICE_FACTORS = [0.5, 0.75, 1, 1.25, 1.5];
+
+// Whole-dollar prices around the current one, for the price × sell-through grid.
+export const sensitivityPrices = (ticketPrice: number): number[] =>
+  [...new Set(SENSITIVITY_PRICE_FACTORS.map(factor => Math.round(ticketPrice * factor)))].filter(price => price > 0);
+
+// Net profit at evenly spaced attendance levels from an empty room to a sell-out.
+export const profitCurve = (inputs: TicketEstimatorInputs, deal: TicketDeal, steps = 40): { tickets: number; profit: number }[] => {
+  const capacity = Math.max(0, Math.floor(inputs.venueCapacity));
+  const count = Math.min(steps, capacity);
+  return Array.from({ length: count + 1 }, (_, step) => {
+    const tickets = count === 0 ? 0 : Math.round((capacity * step) / count);
+    return { tickets, profit: calculateShow(inputs, deal, tickets).netProfit };
+  });
+};
@@ -0,0 +1,90 @@
+import { type SplitSheetState, type SplitContributor, sumShares, isFullTotal } from '../core/tools/splitSheet.ts';
+
+// IPI name numbers are 9 to 11 digits; people often paste them with spaces or dots.
+export const normalizeIpi = (ipi: string) => ipi.replace(/[\s.-]/g, '');
+
+export const isValidIpi = (ipi: string) => ipi.trim() === '' || /^\d{9,11}$/.test(normalizeIpi(ipi));
+
+const formatShare = (share: number) => `${Number(share.toFixed(2))}%`;
+
+// Everything that should block finalizing the sheet, as readable sentences. Empty when it's ready to sign.
+export const validateSplitSheet = (sheet: SplitSheetState): string[] => {
+  const issues: string[] = [];
+  if (!sheet.songTitle.trim()) issues.push('Add the song title.');
+  if (sheet.contributors.length === 0) issues.push('Add at least one writer.');
+  sheet.contributors.forEach((contributor, index) => {
+    const label = contributor.name.trim() || `Writer ${index + 1}`;
+    if (!contributor.name.trim()) issues.push(`Writer ${index + 1} needs a name.`);
+    if (!isValidIpi(contributor.ipi)) issues.push(`${label}'s IPI number should be 9 to 11 digits.`);
+    if (!isValidIpi(contributor.publisherIpi)) issues.push(`${label}'s publisher IPI number should be 9 to 11 digits.`);
+    if (contributor.writerShare < 0 || contributor.publisherShare < 0) issues.push(`${label} has a negative share.`);
+  });
+  const writerTotal = sumShares(sheet.contributors, 'writerShare');
+  const publisherTotal = sumShares(sheet.contributors, 'publisherShare');
+  if (!isFullTotal(writerTotal)) issues.push(`Writer shares total ${formatShare(writerTotal)}, not 100%.`);
+  if (!isFullTotal(publisherTotal)) issues.push(`Publisher shares total ${formatShare(publisherTotal)}, not 100%.`);
+  return issues;
+};
+
+// Equal shares for `count` people that still total exactly 100: the remainder cents go to the first share.
+export const evenShares = (count: number): number[] => {
+  if (count === 0) return [];
+  const base = Math.floor((100 / count) * 100) / 100;
+  const remainder = Math.round((100 - base * count) * 100) / 100;
+  return Array.from({ length: count }, (_, index) => (index === 0 ? Math.round((base + remainder) * 100) / 100 : base));
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const cell = (text: string) => `<td>${escapeHtml(text) || '&nbsp;'}</td>`;
+
+const publisherName = (contributor: SplitContributor) => contributor.publisher.trim() || `${contributor.name.trim() || 'Writer'} (self-published)`;
+
+// A standalone, print-ready HTML document with a signature block per writer. Opened in a print view
+// so the user can print it or save it as a PDF.
+export const renderSplitSheetHtml = (sheet: SplitSheetState): string => {
+  const title = sheet.songTitle.trim() || 'Untitled';
+  const writerRows = sheet.contributors
+    .map(c => `<tr>${cell(c.name)}${cell(c.role)}${cell(c.pro)}${cell(normalizeIpi(c.ipi))}<td class="share">${formatShare(c.writerShare)}</td></tr>`)
+    .join('');
+  const publisherRows = sheet.contributors
+    .map(c => `<tr>${cell(publisherName(c))}${cell(c.name)}${cell(c.publisherPro)}${cell(normalizeIpi(c.publisherIpi))}<td class="share">${formatShare(c.publisherShare)}</td></tr>`)
+    .join('');
+  const signatures = sheet.contributors
+    .map(c => `<div class="signature"><div class="line"></div><p>${escapeHtml(c.name) || 'Writer'}${c.role ? `, ${escapeHtml(c.role)}` : ''}</p><p class="muted">Date: ____________</p></div>`)
+    .join('');
+  const status = sheet.finalizedAt ? `Finalized ${new Date(sheet.finalizedAt).toLocaleDateString()}` : 'Draft';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Split Sheet - ${escapeHtml(title)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #111; margin: 40px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 8px; }
+  .muted { color: #666; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; }
+  th { background: #f3f3f3; }
+  .share { text-align: right; white-space: nowrap; }
+  .signatures { display: grid; grid-template-columns: 1fr 1fr; gap: 32px 48px; margin-top: 24px; }
+  .signature .line { border-bottom: 1px solid #111; height: 40px; }
+  .signature p { margin: 4px 0 0; font-size: 13px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Split Sheet: ${escapeHtml(title)}</h1>
+<p class="muted">Date: ${escapeHtml(sheet.date)} &middot; ${status}</p>
+<h2>Writer Shares</h2>
+<table><thead><tr><th>Writer</th><th>Role</th><th>PRO</th><th>IPI</th><th class="share">Share</th></tr></thead><tbody>${writerRows}</tbody></table>
+<h2>Publisher Shares</h2>
+<table><thead><tr><th>Publisher</th><th>On behalf of</th><th>PRO</th><th>IPI</th><th class="share">Share</th></tr></thead><tbody>${publisherRows}</tbody></table>
+<p class="muted">By signing below, each party agrees to the ownership percentages above for the composition "${escapeHtml(title)}".</p>
+<div class="signatures">${signatures}</div>
+</body>
+</html>`;
+};
@@ -0,0 +1,15 @@
+import { type Message, type ToolPart } from '../types.ts';
+
+export const isToolPart = (part: Message['parts'][number]): part is ToolPart => part.type === 'tool';
+
+export const getToolParts = (message: Message): ToolPart[] => message.parts.filter(isToolPart);
+
+// Returns `message` with the saved state of one tool block replaced, or added if it had none.
+export const withToolState = (message: Message, part: ToolPart): Message => {
+  const isSameBlock = (p: Message['parts'][number]) => isToolPart(p) && p.tool === part.tool && p.blockIndex === part.blockIndex;
+  const exists = message.parts.some(isSameBlock);
+  return {
+    ...message,
+    parts: exists ? message.parts.map(p => (isSameBlock(p) ? part : p)) : [...message.parts, part],
+  };
+};
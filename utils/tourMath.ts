@@ -0,0 +1,89 @@
+import { type TourPlannerData, type TourShow, type TourDailyCosts } from '../core/tools/tourPlanner.ts';
+import { DEFAULT_DEAL } from '../core/tools/ticketEstimator.ts';
+import { type ShowResult, calculateShow } from './showMath.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TourLeg {
+  show: TourShow;
+  // Tour days this show carries: itself plus any days off since the previous show.
+  days: number;
+  result: ShowResult;
+  roadCosts: number;
+  net: number;
+  cumulative: number;
+}
+
+export interface TourSummary {
+  legs: TourLeg[];
+  tourDays: number;
+  totalTickets: number;
+  totalGross: number;
+  totalIncome: number;
+  totalRoadCosts: number;
+  totalMiles: number;
+  net: number;
+  // The lowest running cash position, i.e. the float the tour needs up front (when negative).
+  lowestCash: number;
+}
+
+export const dailyCostTotal = (costs: TourDailyCosts) => costs.van + costs.hotel + costs.perDiem * costs.partySize + costs.crew;
+
+const daysBetween = (from: string, to: string): number => {
+  const start = Date.parse(from);
+  const end = Date.parse(to);
+  if (Number.isNaN(start) || Number.isNaN(end)) return 1;
+  return Math.max(1, Math.round((end - start) / DAY_MS));
+};
+
+// Runs every show through the single-show math (see calculateShow), then charges the road costs for
+// each tour day and mile to the show they lead up to.
+export const calculateTour = ({ shows, dailyCosts, merchSpendPerGuest, venueFeePercent }: TourPlannerData): TourSummary => {
+  const perDay = dailyCostTotal(dailyCosts);
+  let cumulative = 0;
+  let lowestCash = 0;
+
+  const legs = shows.map((show, index): TourLeg => {
+    const days = index === 0 ? 1 : daysBetween(shows[index - 1].date, show.date);
+    // Road costs are tracked per day below, so the show itself carries no crew or marketing.
+    const result = calculateShow(
+      {
+        ticketPrice: show.ticketPrice,
+        venueCapacity: show.capacity,
+        sellThroughRate: show.sellThroughRate,
+        merchSpendPerGuest,
+        venueFeePercent,
+        venueCostFixed: 0,
+        marketingCost: 0,
+        crewCost: 0,
+      },
+      { ...DEFAULT_DEAL, type: show.dealType, guarantee: show.guarantee, doorPercent: show.doorPercent },
+    );
+    const roadCosts = days * perDay + show.distance * dailyCosts.fuelPerMile;
+    const net = result.netProfit - roadCosts;
+    cumulative += net;
+    lowestCash = Math.min(lowestCash, cumulative);
+    return { show, days, result, roadCosts, net, cumulative };
+  });
+
+  const sum = (pick: (leg: TourLeg) => number) => legs.reduce((total, leg) => total + pick(leg), 0);
+
+  return {
+    legs,
+    tourDays: sum(leg => leg.days),
+    totalTickets: sum(leg => leg.result.ticketsSold),
+    totalGross: sum(leg => leg.result.grossTicketRevenue),
+    totalIncome: sum(leg => leg.result.totalGrossRevenue),
+    totalRoadCosts: sum(leg => leg.roadCosts),
+    totalMiles: sum(leg => leg.show.distance),
+    net: cumulative,
+    lowestCash,
+  };
+};
+
+// The day after the last show, for a newly added date.
+export const nextShowDate = (shows: TourShow[]): string => {
+  const last = Date.parse(shows[shows.length - 1]?.date ?? '');
+  const next = Number.isNaN(last) ? new Date() : new Date(last + DAY_MS);
+  return next.toISOString().slice(0, 10);
+};